@@ -1,81 +1,1089 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
 import Inventory from './components/Inventory';
 import CustomerView from './components/CustomerView';
 import AIAssistant from './components/AIAssistant';
-import { INITIAL_PRODUCTS, INITIAL_SALES, MACHINES } from './constants';
-import { Product, SaleRecord, PaymentMethod, CartItem } from './types';
+import Machines from './components/Machines';
+import RestockRoutes from './components/RestockRoutes';
+import Depots from './components/Depots';
+import Purchasing from './components/Purchasing';
+import WasteReport from './components/WasteReport';
+import SalesLedger from './components/SalesLedger';
+import CashCollection from './components/CashCollection';
+import Customers from './components/Customers';
+import Promotions from './components/Promotions';
+import TaxRules from './components/TaxRules';
+import PriceLists from './components/PriceLists';
+import PriceExperiments from './components/PriceExperiments';
+import { loadAppData, persist } from './services/repository';
+import {
+  MachineInput,
+  closeMaintenanceTicket,
+  createMachine,
+  decommissionMachine,
+  getActiveMachines,
+  openMaintenanceTicket,
+  recordHeartbeat,
+  releaseStatusOverride,
+  transitionMachineStatus
+} from './services/machineService';
+import { reconcileMachineStatuses } from './services/statusEngine';
+import { createDefaultPlanogram, getSlotCodeMap, unassignProduct } from './services/planogramService';
+import { resolveProducts, toCatalogItem, toStockRecord } from './services/catalogService';
+import { createLot, depleteFefo, getExpiredUnits, mergeLots, reconcileLots, withLotExpiry, withSellableQuantity } from './services/lotService';
+import { WriteOffChanges, writeOffExpired, writeOffQuantity } from './services/wasteService';
+import { RefundOptions, authorizeTransaction, getRefundableQuantity, recordVend, refundTransaction } from './services/transactionService';
+import { acceptsCash, collectCash, createCashDrawer, getCashValue, settleCashSale, toCents } from './services/cashService';
+import { CustomerInput, createCustomer, findCustomerByLogin, postWalletEntry, topUpWallet } from './services/customerService';
+import { earnPoints, redeemReward, reversePoints } from './services/loyaltyService';
+import { PromotionInput, createPromotion, normalizeCouponCode, priceCart } from './services/promotionService';
+import { TaxRuleInput, createTaxRule, getCartTax } from './services/taxService';
+import { PriceEntryInput, PriceListInput, addPriceEntry, createPriceList, endPriceEntry, resolvePrice } from './services/priceListService';
+import { ExperimentInput, createExperiment, promoteVariant, stopExperiment } from './services/experimentService';
+import { getMoneyFormat, sumByCurrency } from './services/money';
+import { getPaymentProvider, isGatewayMethod } from './services/paymentService';
+import { formatShortfalls, getActiveReservations, getStockShortfalls, reserveStock, withAvailableQuantity } from './services/reservationService';
+import { cancelWorkOrder, completeWorkOrder } from './services/restockPlanner';
+import { DepotInput, TransferInput, applyTransfer, createDepot, createTransfer, getDepotQuantity } from './services/depotService';
+import { createStockCount, getCountAdjustments, getVariance } from './services/stockCountService';
+import { MovementInput, applyStockLevels, createMovements, depotMovement, getDepotStock, machineMovement } from './services/ledgerService';
+import {
+  PurchaseOrderInput,
+  SupplierInput,
+  cancelPurchaseOrder,
+  createPurchaseOrder,
+  createSupplier,
+  receivePurchaseOrder
+} from './services/purchasingService';
+import { CatalogItem, StockLot, StockRecord, Product, Machine, MachineStatus, MachineStatusChange, MaintenanceTicket, Planogram, SaleRecord, PaymentMethod, CartItem, WorkOrder, Depot, InventoryMovement, StockTransfer, Supplier, PurchaseOrder, CostingMethod, StockCount, WriteOff, WriteOffReason, Transaction, CashDrawer, CashCollection as CashCollectionRecord, CashCounts, Customer, WalletEntry, TransactionRefund, LoyaltyEntry, Promotion, StockReservation, TaxRule, PriceList, PriceExperiment } from './types';
+import { LOYALTY_REWARDS } from './constants';
 
-// Initialize mock data if not in constants
-// Note: In a real app, this would be fetched from an API
+// The kiosk in customer mode acts as this machine and reports its heartbeat.
+// For demo, we assume the customer is standing at 'm1' (Nexus Prime).
+const CUSTOMER_MACHINE_ID = 'm1';
+const HEARTBEAT_INTERVAL_MS = 60000;
+const STATUS_ENGINE_INTERVAL_MS = 60000;
+
+// Recorded as the user on inventory movements
+const OWNER_USER = 'Owner';
+const KIOSK_USER = 'Kiosk';
+
+// Data is loaded from the persistent data store (IndexedDB, or the HTTP
+// backend when VENDNEXUS_API_URL is set) and every mutation is written back.
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [isOwnerMode, setIsOwnerMode] = useState(true);
   
   // App State
-  const [products, setProducts] = useState<Product[]>(INITIAL_PRODUCTS);
-  const [sales, setSales] = useState<SaleRecord[]>(INITIAL_SALES);
+  const [catalog, setCatalog] = useState<CatalogItem[]>([]);
+  const [stockRecords, setStockRecords] = useState<StockRecord[]>([]);
+  const [lots, setLots] = useState<StockLot[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [sales, setSales] = useState<SaleRecord[]>([]);
+  const [machineStatusChanges, setMachineStatusChanges] = useState<MachineStatusChange[]>([]);
+  const [maintenanceTickets, setMaintenanceTickets] = useState<MaintenanceTicket[]>([]);
+  const [planograms, setPlanograms] = useState<Planogram[]>([]);
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [depots, setDepots] = useState<Depot[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [stockCounts, setStockCounts] = useState<StockCount[]>([]);
+  const [writeOffs, setWriteOffs] = useState<WriteOff[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [cashDrawers, setCashDrawers] = useState<CashDrawer[]>([]);
+  const [cashCollections, setCashCollections] = useState<CashCollectionRecord[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [walletEntries, setWalletEntries] = useState<WalletEntry[]>([]);
+  const [loyaltyEntries, setLoyaltyEntries] = useState<LoyaltyEntry[]>([]);
+  const [kioskCustomerId, setKioskCustomerId] = useState<string | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [experiments, setExperiments] = useState<PriceExperiment[]>([]);
+  // Not persisted: a reload abandons any checkout in progress
+  const [reservations, setReservations] = useState<StockReservation[]>([]);
+  const [statusEngineTick, setStatusEngineTick] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [selectedMachineId, setSelectedMachineId] = useState('all');
 
-  const handleUpdateProduct = (updatedProduct: Product) => {
-    setProducts(prev => prev.map(p => p.id === updatedProduct.id ? updatedProduct : p));
+  useEffect(() => {
+    loadAppData()
+      .then(data => {
+        setCatalog(data.catalog);
+        setStockRecords(data.stock);
+        setLots(data.lots);
+        setMachines(data.machines);
+        setSales(data.sales);
+        setMachineStatusChanges(data.machineStatusChanges);
+        setMaintenanceTickets(data.maintenanceTickets);
+        setPlanograms(data.planograms);
+        setWorkOrders(data.workOrders);
+        setDepots(data.depots);
+        setTransfers(data.transfers);
+        setSuppliers(data.suppliers);
+        setPurchaseOrders(data.purchaseOrders);
+        setMovements(data.movements);
+        setStockCounts(data.stockCounts);
+        setWriteOffs(data.writeOffs);
+        setTransactions(data.transactions);
+        setCashDrawers(data.cashDrawers);
+        setCashCollections(data.cashCollections);
+        setCustomers(data.customers);
+        setWalletEntries(data.walletEntries);
+        setLoyaltyEntries(data.loyaltyEntries);
+        setPromotions(data.promotions);
+        setTaxRules(data.taxRules);
+        setPriceLists(data.priceLists);
+        setExperiments(data.priceExperiments);
+      })
+      .catch(error => {
+        console.error("Data Load Error:", error);
+        setLoadError("Unable to load VendNexus data. Please refresh to try again.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Stock levels at machines and depots are balances of the movement ledger
+  const stock = useMemo(() => applyStockLevels(stockRecords, movements), [stockRecords, movements]);
+  const depotStock = useMemo(() => getDepotStock(movements), [movements]);
+
+  // Products are per-machine stock joined with their catalog SKU, so catalog
+  // edits (name, cost, image...) show up on every machine at once.
+  const products = useMemo(() => withLotExpiry(resolveProducts(stock, catalog), lots), [stock, catalog, lots]);
+
+  // Re-run the status engine periodically so heartbeat timeouts are noticed
+  // even when nothing else changes.
+  useEffect(() => {
+    const timer = setInterval(() => setStatusEngineTick(t => t + 1), STATUS_ENGINE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (isLoading) return;
+    const transitions = reconcileMachineStatuses(machines, products, maintenanceTickets, Date.now());
+    if (transitions.length === 0) return;
+
+    setMachines(prev => prev.map(m => transitions.find(t => t.machine.id === m.id)?.machine || m));
+    setMachineStatusChanges(prev => [...transitions.map(t => t.change), ...prev]);
+    persist(async store => {
+      await store.machines.saveMany(transitions.map(t => t.machine));
+      await store.machineStatusChanges.saveMany(transitions.map(t => t.change));
+    });
+  }, [machines, products, maintenanceTickets, statusEngineTick, isLoading]);
+
+  // Kiosk telemetry: while in customer mode, report a heartbeat for the machine
+  useEffect(() => {
+    if (isLoading || isOwnerMode) return;
+    const beat = () => {
+      const timestamp = Date.now();
+      setMachines(prev => prev.map(m => m.id === CUSTOMER_MACHINE_ID ? recordHeartbeat(m, timestamp) : m));
+      persist(async store => {
+        const machine = (await store.machines.list()).find(m => m.id === CUSTOMER_MACHINE_ID);
+        if (machine) await store.machines.save(recordHeartbeat(machine, timestamp));
+      });
+    };
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoading, isOwnerMode]);
+
+  const handleUpdatePlanogram = (planogram: Planogram) => {
+    setPlanograms(prev => prev.some(p => p.id === planogram.id)
+      ? prev.map(p => p.id === planogram.id ? planogram : p)
+      : [...prev, planogram]);
+    persist(store => store.planograms.save(planogram));
+  };
+
+  // Frees the slots a product occupies in any machine other than `keepMachineId`
+  const releaseProductSlots = (productId: string, keepMachineId?: string) => {
+    planograms
+      .filter(p => p.machineId !== keepMachineId && getSlotCodeMap(p)[productId])
+      .forEach(p => handleUpdatePlanogram(unassignProduct(p, productId)));
+  };
+
+  const applyLotChanges = (changed: StockLot[]) => {
+    if (changed.length === 0) return;
+    setLots(prev => mergeLots(prev, changed));
+    persist(store => store.lots.saveMany(changed));
+  };
+
+  // Appends entries to the inventory ledger. The affected stored stock records
+  // get their new balance as a snapshot (callers that write the record
+  // themselves pass none); in the app the ledger is authoritative.
+  // Throws (without recording anything) if any movement is invalid.
+  const recordMovements = (inputs: MovementInput[], user = OWNER_USER, snapshotRecords = stockRecords) => {
+    const entries = createMovements(inputs, user);
+    if (entries.length === 0) return;
+    const touched = new Set(entries.map(e => e.productId));
+    const snapshot = applyStockLevels(snapshotRecords.filter(s => touched.has(s.id)), [...movements, ...entries]);
+    setMovements(prev => [...prev, ...entries]);
+    persist(async store => {
+      await store.movements.saveMany(entries);
+      await store.stock.saveMany(snapshot);
+    });
+  };
+
+  // Writes both halves of a product: the shared catalog SKU and this machine's
+  // stock. A changed quantity is booked as a ledger movement and the lots are
+  // adjusted to match.
+  const saveProduct = (product: Product, reason: string) => {
+    const item = toCatalogItem(product);
+    const record = toStockRecord(product);
+    const current = stock.find(s => s.id === product.id);
+    recordMovements([machineMovement(
+      record,
+      current ? 'adjustment' : 'restock',
+      product.quantity - (current?.quantity || 0),
+      current ? reason : 'Initial stock'
+    )], OWNER_USER, []);
+    setCatalog(prev => prev.some(c => c.id === item.id) ? prev.map(c => c.id === item.id ? item : c) : [...prev, item]);
+    setStockRecords(prev => prev.some(s => s.id === record.id) ? prev.map(s => s.id === record.id ? record : s) : [...prev, record]);
+    persist(async store => {
+      await store.catalog.save(item);
+      await store.stock.save(record);
+    });
+    applyLotChanges(reconcileLots(lots, product));
+  };
+
+  // Books incoming stock as new lots and restock movements.
+  // Throws (without changing anything) if any receipt is invalid.
+  const postReceipts = (
+    receipts: { productId: string; quantity: number; expiryDate: number; lotNumber?: string }[],
+    reason: string,
+    referenceId?: string
+  ) => {
+    const timestamp = Date.now();
+    const newLots = receipts.map(r => createLot(r.productId, r.quantity, r.expiryDate, r.lotNumber, timestamp));
+    recordMovements(receipts.flatMap(r => {
+      const record = stock.find(s => s.id === r.productId);
+      return record ? [machineMovement(record, 'restock', r.quantity, reason, referenceId)] : [];
+    }));
+    applyLotChanges(newLots);
+  };
+
+  // Returns whether the lot was booked
+  const handleReceiveLot = (productId: string, quantity: number, expiryDate: number, lotNumber?: string) => {
+    try {
+      postReceipts([{ productId, quantity, expiryDate, lotNumber }], 'Lot received');
+      return true;
+    } catch (error) {
+      alert((error as Error).message);
+      return false;
+    }
+  };
+
+  const handleCreateWorkOrders = (orders: WorkOrder[]) => {
+    setWorkOrders(prev => [...orders, ...prev]);
+    persist(store => store.workOrders.saveMany(orders));
+  };
+
+  // Completing a work order books what the driver actually loaded as new lots
+  const handleCompleteWorkOrder = (orderId: string, deliveries: Record<string, { quantity: number; expiryDate: number }>) => {
+    const order = workOrders.find(o => o.id === orderId);
+    if (!order) return;
+    try {
+      const completed = completeWorkOrder(order, deliveries);
+      postReceipts(completed.lines
+        .filter(line => (line.deliveredQuantity || 0) > 0 && stock.some(s => s.id === line.productId))
+        .map(line => ({
+          productId: line.productId,
+          quantity: line.deliveredQuantity as number,
+          expiryDate: line.expiryDate as number,
+          lotNumber: `${order.routeId.toUpperCase()}-S${order.stopNumber}`
+        })), `Work order stop ${order.stopNumber}`, order.id);
+      setWorkOrders(prev => prev.map(o => o.id === orderId ? completed : o));
+      persist(store => store.workOrders.save(completed));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCancelWorkOrder = (orderId: string) => {
+    const order = workOrders.find(o => o.id === orderId);
+    if (!order) return;
+    try {
+      const cancelled = cancelWorkOrder(order);
+      setWorkOrders(prev => prev.map(o => o.id === orderId ? cancelled : o));
+      persist(store => store.workOrders.save(cancelled));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCreateDepot = (input: DepotInput) => {
+    try {
+      const depot = createDepot(input, depots);
+      setDepots(prev => [...prev, depot]);
+      persist(store => store.depots.save(depot));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Books the difference between a counted depot quantity and the ledger balance
+  const handleSetDepotQuantity = (depotId: string, skuId: string, quantity: number) => {
+    try {
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        throw new Error('Depot quantity must be a whole number of zero or more');
+      }
+      const delta = quantity - getDepotQuantity(depotStock, skuId, depotId);
+      recordMovements([depotMovement(depotId, skuId, 'adjustment', delta, 'Depot quantity corrected')]);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCreateTransfer = (input: TransferInput) => {
+    try {
+      const transfer = createTransfer(input, { catalog, stock, depotStock });
+      const changes = applyTransfer(transfer, { stock, lots });
+      recordMovements(changes.movements);
+      applyLotChanges(changes.lots);
+      setTransfers(prev => [transfer, ...prev]);
+      persist(store => store.transfers.save(transfer));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCreateSupplier = (input: SupplierInput) => {
+    try {
+      const supplier = createSupplier(input, suppliers);
+      setSuppliers(prev => [...prev, supplier]);
+      persist(store => store.suppliers.save(supplier));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const savePurchaseOrder = (order: PurchaseOrder) => {
+    setPurchaseOrders(prev => prev.some(o => o.id === order.id)
+      ? prev.map(o => o.id === order.id ? order : o)
+      : [order, ...prev]);
+    persist(store => store.purchaseOrders.save(order));
+  };
+
+  const handleCreatePurchaseOrder = (input: PurchaseOrderInput) => {
+    try {
+      savePurchaseOrder(createPurchaseOrder(input, { catalog, orders: purchaseOrders }));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Received goods go into the order's depot and update the SKU's cost, so
+  // later sales book profit against what the stock actually cost us
+  const handleReceivePurchaseOrder = (orderId: string, quantities: Record<string, number>, method: CostingMethod) => {
+    const order = purchaseOrders.find(o => o.id === orderId);
+    if (!order) return;
+    try {
+      const changes = receivePurchaseOrder(order, quantities, method, { catalog, stock, depotStock });
+      recordMovements(changes.movements);
+      savePurchaseOrder(changes.order);
+      setCatalog(prev => prev.map(c => changes.catalog.find(u => u.id === c.id) || c));
+      persist(store => store.catalog.saveMany(changes.catalog));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCancelPurchaseOrder = (orderId: string) => {
+    const order = purchaseOrders.find(o => o.id === orderId);
+    if (!order) return;
+    try {
+      savePurchaseOrder(cancelPurchaseOrder(order));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleUpdateProduct = (updatedProduct: Product, reason = 'Manual adjustment') => {
+    try {
+      saveProduct(updatedProduct, reason);
+      releaseProductSlots(updatedProduct.id, updatedProduct.machineId);
+    } catch (error) {
+      alert((error as Error).message);
+    }
   };
 
+  // Removes the machine's stock record; the catalog SKU and the record's
+  // ledger history are kept
   const handleDeleteProduct = (id: string) => {
-    setProducts(prev => prev.filter(p => p.id !== id));
+    const record = stock.find(s => s.id === id);
+    if (!record) return;
+    const productLots = lots.filter(l => l.productId === id);
+    recordMovements([machineMovement(record, 'adjustment', -record.quantity, 'Removed from machine')], OWNER_USER, []);
+    setStockRecords(prev => prev.filter(s => s.id !== id));
+    setLots(prev => prev.filter(l => l.productId !== id));
+    persist(async store => {
+      await store.stock.remove(id);
+      await Promise.all(productLots.map(l => store.lots.remove(l.id)));
+    });
+    releaseProductSlots(id);
+  };
+
+  // A posted count books each variance as an adjustment by the person who
+  // counted, and brings the lots in line with what is physically there
+  const handlePostStockCount = (
+    machineId: string,
+    counts: Record<string, number>,
+    countedBy: string,
+    threshold: number,
+    notes?: string
+  ) => {
+    try {
+      const count = createStockCount(machineId, counts, { products, planograms }, countedBy, threshold, notes);
+      recordMovements(getCountAdjustments(count), count.countedBy);
+      applyLotChanges(count.lines
+        .filter(line => getVariance(line) !== 0)
+        .flatMap(line => {
+          const product = products.find(p => p.id === line.productId);
+          return product ? reconcileLots(lots, { ...product, quantity: line.countedQuantity }) : [];
+        }));
+      setStockCounts(prev => [count, ...prev]);
+      persist(store => store.stockCounts.save(count));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const applyWriteOffs = (changes: WriteOffChanges) => {
+    recordMovements(changes.movements);
+    applyLotChanges(changes.lots);
+    setWriteOffs(prev => [...changes.writeOffs, ...prev]);
+    persist(store => store.writeOffs.saveMany(changes.writeOffs));
+  };
+
+  // Pulls and disposes of expired lots; all expired stock when no products are given
+  const handleWriteOffExpired = (productIds?: string[]) => {
+    try {
+      const targets = productIds ? products.filter(p => productIds.includes(p.id)) : products;
+      applyWriteOffs(writeOffExpired(targets, lots, OWNER_USER));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Returns whether the write-off was booked
+  const handleWriteOff = (productId: string, quantity: number, reason: WriteOffReason, lotId?: string, note?: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return false;
+    try {
+      applyWriteOffs(writeOffQuantity(product, lots, quantity, reason, OWNER_USER, { lotId, note }));
+      return true;
+    } catch (error) {
+      alert((error as Error).message);
+      return false;
+    }
   };
 
   const handleAddProduct = (product: Product) => {
-    setProducts(prev => [...prev, product]);
+    try {
+      saveProduct(product, 'Initial stock');
+    } catch (error) {
+      alert((error as Error).message);
+    }
   };
 
-  const handleCustomerPurchase = (cart: CartItem[], method: PaymentMethod) => {
+  const applyMachineChange = (machine: Machine, change: MachineStatusChange) => {
+    setMachines(prev => prev.some(m => m.id === machine.id)
+      ? prev.map(m => m.id === machine.id ? machine : m)
+      : [...prev, machine]);
+    setMachineStatusChanges(prev => [change, ...prev]);
+    persist(async store => {
+      await store.machines.save(machine);
+      await store.machineStatusChanges.save(change);
+    });
+  };
+
+  const handleCreateMachine = (input: MachineInput) => {
+    const { machine, change } = createMachine(input);
+    applyMachineChange(machine, change);
+    handleUpdatePlanogram(createDefaultPlanogram(machine.id));
+    if (!acceptsCash(machine.currency)) return;
+    const drawer = createCashDrawer(machine.id);
+    setCashDrawers(prev => [...prev, drawer]);
+    persist(store => store.cashDrawers.save(drawer));
+  };
+
+  const handleUpdateMachine = (updatedMachine: Machine) => {
+    setMachines(prev => prev.map(m => m.id === updatedMachine.id ? updatedMachine : m));
+    persist(store => store.machines.save(updatedMachine));
+  };
+
+  const handleChangeMachineStatus = (machineId: string, status: MachineStatus, reason: string) => {
+    const machine = machines.find(m => m.id === machineId);
+    if (!machine) return;
+    try {
+      const result = transitionMachineStatus(machine, status, reason);
+      applyMachineChange(result.machine, result.change);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleDecommissionMachine = (machineId: string, reason: string) => {
+    const machine = machines.find(m => m.id === machineId);
+    if (!machine) return;
+    try {
+      const result = decommissionMachine(machine, reason);
+      applyMachineChange(result.machine, result.change);
+      if (selectedMachineId === machineId) setSelectedMachineId('all');
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleReleaseStatusOverride = (machineId: string) => {
+    const machine = machines.find(m => m.id === machineId);
+    if (!machine) return;
+    const released = releaseStatusOverride(machine);
+    setMachines(prev => prev.map(m => m.id === machineId ? released : m));
+    persist(store => store.machines.save(released));
+  };
+
+  const handleOpenTicket = (machineId: string, title: string) => {
+    try {
+      const ticket = openMaintenanceTicket(machineId, title);
+      setMaintenanceTickets(prev => [...prev, ticket]);
+      persist(store => store.maintenanceTickets.save(ticket));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCloseTicket = (ticketId: string) => {
+    const ticket = maintenanceTickets.find(t => t.id === ticketId);
+    if (!ticket) return;
+    const closed = closeMaintenanceTicket(ticket);
+    setMaintenanceTickets(prev => prev.map(t => t.id === ticketId ? closed : t));
+    persist(store => store.maintenanceTickets.save(closed));
+  };
+
+  const getKioskStock = (timestamp = Date.now()) =>
+    withSellableQuantity(products.filter(p => p.machineId === CUSTOMER_MACHINE_ID), lots, timestamp);
+
+  // Holds the cart's units while the customer pays; throws when they're no longer in stock
+  const handleReserveStock = (cart: CartItem[]) => {
     const timestamp = Date.now();
-    const newSales: SaleRecord[] = [];
-    const updatedProducts = [...products];
+    const active = getActiveReservations(reservations, timestamp);
+    const reservation = reserveStock(cart, getKioskStock(timestamp), active, CUSTOMER_MACHINE_ID, timestamp);
+    setReservations(prev => [...getActiveReservations(prev, timestamp), reservation]);
+    return reservation;
+  };
+
+  const handleReleaseReservation = (reservationId: string) => {
+    setReservations(prev => prev.filter(r => r.id !== reservationId));
+  };
+
+  // What the kiosk's cart comes to at its own prices, after promotions and with tax
+  const getKioskCartTotal = (cart: CartItem[], couponCode?: string, timestamp = Date.now()) => {
+    const { currency } = getMoneyFormat(machines.find(m => m.id === CUSTOMER_MACHINE_ID));
+    const { discounts } = priceCart(cart, promotions, { machineId: CUSTOMER_MACHINE_ID, currency, timestamp, couponCode });
+    return getCartTax(cart, discounts, taxRules, CUSTOMER_MACHINE_ID, currency).total;
+  };
+
+  // Records an authorized checkout and returns it settled, with the member as
+  // it leaves them. The cart is charged at the unit prices the kiosk locked
+  // when the payment was authorized, and promotions are priced as of that
+  // moment too, so a price band, experiment window or deal that changes
+  // mid-checkout can't change the charge. A cart the machine can't fill is
+  // refused outright, counting the checkout's own reservation as available to it.
+  const bookKioskPurchase = (
+    cart: CartItem[],
+    method: PaymentMethod,
+    paymentReference?: string,
+    couponCode?: string,
+    reservationId?: string,
+    pricedAt?: number
+  ): { transaction: Transaction; member?: Customer } => {
+    const timestamp = Date.now();
+    const shortfalls = getStockShortfalls(cart, getKioskStock(timestamp), reservations.filter(r => r.id !== reservationId), timestamp);
+    if (shortfalls.length > 0) {
+      throw new Error(formatShortfalls(shortfalls));
+    }
+    const { currency } = getMoneyFormat(machines.find(m => m.id === CUSTOMER_MACHINE_ID));
+    const pricingContext = { machineId: CUSTOMER_MACHINE_ID, currency, timestamp: pricedAt ?? timestamp, couponCode };
+    const member = customers.find(c => c.id === kioskCustomerId);
+    if (method === PaymentMethod.WALLET) {
+      if (!member) {
+        throw new Error('Log in to pay with your wallet');
+      }
+      if (member.walletBalance < getKioskCartTotal(cart, couponCode, pricingContext.timestamp)) {
+        throw new Error('Insufficient wallet balance');
+      }
+    }
+    const slotCodeMap = getSlotCodeMap(planograms.find(p => p.machineId === CUSTOMER_MACHINE_ID));
+    const slotCodes = Object.fromEntries(Object.entries(slotCodeMap).map(([productId, codes]) => [productId, codes[0]]));
+    const authorized = authorizeTransaction(cart, { id: CUSTOMER_MACHINE_ID, currency }, method, taxRules, slotCodes, paymentReference, timestamp);
 
+    // The machine can only vend what it holds; expired units are blocked from
+    // sale and stay put until written off. Anything else fails and is not charged.
+    const vended: Record<string, number> = {};
     cart.forEach(item => {
-      // Create Sale Record
-      newSales.push({
-        id: `s-${timestamp}-${item.id}`,
-        productId: item.id,
-        productName: item.name,
-        machineId: item.machineId,
-        quantity: item.cartQuantity,
-        revenue: item.price * item.cartQuantity,
-        profit: (item.price - item.cost) * item.cartQuantity,
-        timestamp,
-        paymentMethod: method
-      });
+      const record = stock.find(s => s.id === item.id);
+      const sellable = record ? record.quantity - getExpiredUnits(lots, record.id, timestamp) : 0;
+      vended[item.id] = Math.min(item.cartQuantity, Math.max(0, sellable));
+    });
+    // Promotions are priced on what actually vended, so a failed unit can't
+    // leave a bundle discount on the rest
+    const vendedCart = cart.map(item => ({ ...item, cartQuantity: vended[item.id] })).filter(item => item.cartQuantity > 0);
+    const pricing = priceCart(vendedCart, promotions, pricingContext);
+    const { transaction: priced, sales: newSales } = recordVend(authorized, vended, pricing);
+    const couponApplied = pricing.promotions.some(a => promotions.find(p => p.id === a.promotionId)?.couponCode);
+    const settled = couponApplied && couponCode ? { ...priced, couponCode: normalizeCouponCode(couponCode) } : priced;
+
+    // Members pay wallet purchases only for what was vended, and earn points on it
+    let transaction = settled;
+    let charged = member;
+    if (member) {
+      const debit = method === PaymentMethod.WALLET && settled.total > 0
+        ? postWalletEntry(member, 'purchase', -settled.total, { reference: settled.id }, timestamp)
+        : null;
+      const earned = earnPoints(debit?.customer || member, settled, timestamp);
+      transaction = { ...settled, customerId: member.id, pointsEarned: earned?.entry.points || 0 };
+      charged = earned?.customer || debit?.customer || member;
+      applyCustomerChanges(charged, debit ? [debit.entry] : [], earned ? [earned.entry] : []);
+    }
 
-      // Update Inventory
-      const productIndex = updatedProducts.findIndex(p => p.id === item.id);
-      if (productIndex !== -1) {
-        updatedProducts[productIndex] = {
-          ...updatedProducts[productIndex],
-          quantity: Math.max(0, updatedProducts[productIndex].quantity - item.cartQuantity)
-        };
+    const saleMovements: MovementInput[] = [];
+    let updatedLots = lots;
+    const changedLots: StockLot[] = [];
+    newSales.forEach(sale => {
+      const record = stock.find(s => s.id === sale.productId);
+      if (record) {
+        saleMovements.push(machineMovement(record, 'sale', -sale.quantity, `Sold via ${method}`, sale.id));
       }
+
+      // Sell from the lot that expires first
+      const { changed } = depleteFefo(updatedLots, sale.productId, sale.quantity, timestamp);
+      updatedLots = mergeLots(updatedLots, changed);
+      changedLots.push(...changed);
     });
 
+    recordMovements(saleMovements, KIOSK_USER);
     setSales(prev => [...newSales, ...prev]);
-    setProducts(updatedProducts);
+    setTransactions(prev => [transaction, ...prev]);
+    setLots(updatedLots);
+    if (reservationId) handleReleaseReservation(reservationId);
+    persist(async store => {
+      await store.transactions.save(transaction);
+      await store.sales.saveMany(newSales);
+      await store.lots.saveMany(changedLots);
+    });
+    return { transaction, member: charged };
   };
 
+  const handleCustomerPurchase = (cart: CartItem[], method: PaymentMethod, couponCode?: string, reservationId?: string, pricedAt?: number) =>
+    bookKioskPurchase(cart, method, undefined, couponCode, reservationId, pricedAt).transaction;
+
+  // Card and UPI checkouts: books the sale, then captures what was vended, never
+  // more than was authorized. A payment that can't be captured is released and
+  // the booked sale voided, so the customer isn't left with a sale they didn't pay for.
+  const handleGatewayPurchase = async (
+    cart: CartItem[],
+    method: PaymentMethod,
+    paymentReference: string,
+    authorizedAmount: number,
+    couponCode?: string,
+    reservationId?: string,
+    pricedAt?: number
+  ): Promise<Transaction> => {
+    const provider = getPaymentProvider(method);
+    let booked: { transaction: Transaction; member?: Customer };
+    try {
+      booked = bookKioskPurchase(cart, method, paymentReference, couponCode, reservationId, pricedAt);
+    } catch (error) {
+      await provider.cancel(paymentReference);
+      throw error;
+    }
+    const { transaction, member } = booked;
+    if (transaction.total === 0) {
+      // Nothing vended; an authorization that can't be cancelled lapses unclaimed
+      await provider.cancel(paymentReference).catch(() => undefined);
+      return transaction;
+    }
+    const amount = Math.min(transaction.total, authorizedAmount);
+    try {
+      await provider.capture(paymentReference, amount);
+      return transaction;
+    } catch (error) {
+      const message = (error as Error).message;
+      const released = await provider.cancel(paymentReference)
+        .catch(() => provider.refund(paymentReference, amount))
+        .then(() => true, () => false);
+      voidKioskSale(transaction, member, `Payment could not be captured: ${message}`, !released);
+      throw new Error(released
+        ? `Your payment could not be completed (${message}). You have not been charged.`
+        : `Your payment could not be completed (${message}). Please contact the operator for a refund.`);
+    }
+  };
+
+  // Cash is held in escrow while the machine vends, then banked with change
+  // paid from the coin tubes. The kiosk has already refused cash it could not
+  // make change for. Nothing is recorded unless the cash covers the cart.
+  const handleCashPurchase = (cart: CartItem[], inserted: CashCounts, couponCode?: string, reservationId?: string, pricedAt?: number) => {
+    const drawer = cashDrawers.find(d => d.machineId === CUSTOMER_MACHINE_ID);
+    if (!drawer || !acceptsCash(getMoneyFormat(machines.find(m => m.id === CUSTOMER_MACHINE_ID)).currency)) {
+      throw new Error('This machine does not accept cash');
+    }
+    if (getCashValue(inserted) < toCents(getKioskCartTotal(cart, couponCode, pricedAt))) {
+      throw new Error('Not enough cash inserted');
+    }
+    const transaction = handleCustomerPurchase(cart, PaymentMethod.CASH, couponCode, reservationId, pricedAt);
+    const settlement = settleCashSale(drawer, inserted, transaction.total, transaction.timestamp);
+    setCashDrawers(prev => prev.map(d => d.id === drawer.id ? settlement.drawer : d));
+    persist(store => store.cashDrawers.save(settlement.drawer));
+    return { transaction, change: settlement.change, changeOwed: settlement.changeOwed };
+  };
+
+  const handleCollectCash = (machineId: string, countedAmount: number, refillTubes: boolean, note?: string) => {
+    const drawer = cashDrawers.find(d => d.machineId === machineId);
+    if (!drawer) return;
+    try {
+      const result = collectCash(drawer, sales, countedAmount, { refillTubes, user: OWNER_USER, note });
+      setCashDrawers(prev => prev.map(d => d.id === drawer.id ? result.drawer : d));
+      setCashCollections(prev => [result.collection, ...prev]);
+      persist(async store => {
+        await store.cashDrawers.save(result.drawer);
+        await store.cashCollections.save(result.collection);
+      });
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCreatePromotion = (input: PromotionInput) => {
+    try {
+      const promotion = createPromotion(input);
+      setPromotions(prev => [promotion, ...prev]);
+      persist(store => store.promotions.save(promotion));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleCreateTaxRule = (input: TaxRuleInput) => {
+    try {
+      const rule = createTaxRule(input);
+      setTaxRules(prev => [rule, ...prev]);
+      persist(store => store.taxRules.save(rule));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleToggleTaxRule = (ruleId: string) => {
+    const rule = taxRules.find(r => r.id === ruleId);
+    if (!rule) return;
+    const updated = { ...rule, active: !rule.active };
+    setTaxRules(prev => prev.map(r => r.id === ruleId ? updated : r));
+    persist(store => store.taxRules.save(updated));
+  };
+
+  const handleCreatePriceList = (input: PriceListInput) => {
+    try {
+      const list = createPriceList(input);
+      setPriceLists(prev => [list, ...prev]);
+      persist(store => store.priceLists.save(list));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const savePriceList = (priceListId: string, change: (list: PriceList) => PriceList) => {
+    const list = priceLists.find(l => l.id === priceListId);
+    if (!list) return;
+    try {
+      const updated = change(list);
+      setPriceLists(prev => prev.map(l => l.id === priceListId ? updated : l));
+      persist(store => store.priceLists.save(updated));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleAddPriceEntry = (priceListId: string, input: PriceEntryInput) =>
+    savePriceList(priceListId, list => addPriceEntry(list, input));
+
+  const handleEndPriceEntry = (priceListId: string, entryId: string) =>
+    savePriceList(priceListId, list => endPriceEntry(list, entryId));
+
+  const handleTogglePriceList = (priceListId: string) =>
+    savePriceList(priceListId, list => ({ ...list, active: !list.active }));
+
+  // Throws if the experiment is invalid
+  const startExperiment = (input: ExperimentInput) => {
+    const experiment = createExperiment(input, machines, experiments);
+    setExperiments(prev => [experiment, ...prev]);
+    persist(store => store.priceExperiments.save(experiment));
+  };
+
+  const handleCreateExperiment = (input: ExperimentInput) => {
+    try {
+      startExperiment(input);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Tests an AI price suggestion against the current price at the product's
+  // machine, a day at a time
+  const handleTestPrice = (product: Product, price: number) => {
+    try {
+      startExperiment({
+        name: `${product.name} price test`,
+        skuId: product.skuId,
+        allocation: 'time_windows',
+        machineIds: [product.machineId],
+        windowHours: 24,
+        variants: [
+          { name: 'Current', price: product.price, machineIds: [] },
+          { name: 'Suggested', price, machineIds: [] }
+        ]
+      });
+      setActiveTab('experiments');
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleStopExperiment = (experimentId: string) => {
+    const experiment = experiments.find(e => e.id === experimentId);
+    if (!experiment) return;
+    try {
+      const stopped = stopExperiment(experiment);
+      setExperiments(prev => prev.map(e => e.id === experimentId ? stopped : e));
+      persist(store => store.priceExperiments.save(stopped));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Makes the chosen variant's price the shelf price wherever it was tested
+  const handlePromoteVariant = (experimentId: string, variantId: string) => {
+    const experiment = experiments.find(e => e.id === experimentId);
+    if (!experiment) return;
+    try {
+      const { experiment: promoted, variant } = promoteVariant(experiment, variantId);
+      const repriced = products
+        .filter(p => p.skuId === promoted.skuId && promoted.machineIds.includes(p.machineId))
+        .map(p => toStockRecord({ ...p, price: variant.price }));
+      setExperiments(prev => prev.map(e => e.id === experimentId ? promoted : e));
+      setStockRecords(prev => prev.map(s => repriced.find(r => r.id === s.id) || s));
+      persist(async store => {
+        await store.priceExperiments.save(promoted);
+        await store.stock.saveMany(repriced);
+      });
+      // The shelf price only applies where no price list prices the SKU
+      const masked = repriced.flatMap(r => {
+        const machine = machines.find(m => m.id === r.machineId);
+        const { priceListName } = resolvePrice(r, machine, priceLists);
+        return machine && priceListName ? [`${machine.name} (${priceListName})`] : [];
+      });
+      if (masked.length) {
+        alert(`The promoted price is now the shelf price, but a price list still sets the price at ${masked.join(', ')}. Update or end those entries for it to apply there.`);
+      }
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleTogglePromotion = (promotionId: string) => {
+    const promotion = promotions.find(p => p.id === promotionId);
+    if (!promotion) return;
+    const updated = { ...promotion, active: !promotion.active };
+    setPromotions(prev => prev.map(p => p.id === promotionId ? updated : p));
+    persist(store => store.promotions.save(updated));
+  };
+
+  const applyCustomerChanges = (customer: Customer, wallet: WalletEntry[], loyalty: LoyaltyEntry[]) => {
+    setCustomers(prev => prev.map(c => c.id === customer.id ? customer : c));
+    setWalletEntries(prev => [...wallet, ...prev]);
+    setLoyaltyEntries(prev => [...loyalty, ...prev]);
+    persist(async store => {
+      await store.customers.save(customer);
+      await store.walletEntries.saveMany(wallet);
+      await store.loyaltyEntries.saveMany(loyalty);
+    });
+  };
+
+  const handleCreateCustomer = (input: CustomerInput) => {
+    try {
+      const customer = createCustomer(input, customers);
+      setCustomers(prev => [...prev, customer].sort((a, b) => a.name.localeCompare(b.name)));
+      persist(store => store.customers.save(customer));
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Throws so the kiosk can show the error next to the login form
+  const handleKioskLogin = (input: string) => {
+    setKioskCustomerId(findCustomerByLogin(customers, input).id);
+  };
+
+  const handleTopUpWallet = (customerId: string, amount: number, paymentReference?: string, note?: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) return;
+    try {
+      const { customer: updated, entry } = topUpWallet(customer, amount, paymentReference, note);
+      applyCustomerChanges(updated, [entry], []);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleAdjustWallet = (customerId: string, amount: number, note: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) return;
+    try {
+      if (!note.trim()) {
+        throw new Error('A note is required for wallet adjustments');
+      }
+      const { customer: updated, entry } = postWalletEntry(customer, 'adjustment', amount, { note });
+      applyCustomerChanges(updated, [entry], []);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleRedeemReward = (customerId: string, rewardId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    const reward = LOYALTY_REWARDS.find(r => r.id === rewardId);
+    if (!customer || !reward) return;
+    try {
+      const result = redeemReward(customer, reward, getMoneyFormat(machines.find(m => m.id === CUSTOMER_MACHINE_ID)));
+      applyCustomerChanges(result.customer, [result.walletEntry], [result.loyaltyEntry]);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Card and UPI payments are paid back through the provider that took them.
+  // A refund the provider can't make is flagged for the operator to pay by hand.
+  const refundAtGateway = async (transaction: Transaction, refund: TransactionRefund) => {
+    if (!isGatewayMethod(transaction.paymentMethod)) return;
+    try {
+      if (!transaction.paymentReference) {
+        throw new Error('No payment reference was recorded');
+      }
+      await getPaymentProvider(transaction.paymentMethod).refund(transaction.paymentReference, refund.amount);
+    } catch (error) {
+      const flag = (t: Transaction): Transaction => ({
+        ...t,
+        refunds: t.refunds.map(r => r.id === refund.id ? { ...r, manualRefundRequired: true } : r)
+      });
+      setTransactions(prev => prev.map(t => t.id === transaction.id ? flag(t) : t));
+      persist(async store => {
+        const saved = (await store.transactions.list()).find(t => t.id === transaction.id);
+        if (saved) await store.transactions.save(flag(saved));
+      });
+      alert(`The ${transaction.paymentMethod} refund could not be made (${(error as Error).message}). Please refund the customer by hand.`);
+    }
+  };
+
+  // Refunded units that go back into the machine return as a new lot with the
+  // stock record's default expiry; failed vends never left it.
+  // Reverses a kiosk sale whose payment never completed. The items have left
+  // the machine, so they come off as a loss rather than back into stock.
+  const voidKioskSale = (transaction: Transaction, member: Customer | undefined, reason: string, manualRefundRequired: boolean) => {
+    const quantities = Object.fromEntries(transaction.lines.map(line => [line.saleId, getRefundableQuantity(line)]));
+    const voided = refundTransaction(transaction, quantities, { restock: false, failedVend: false, reason }, KIOSK_USER);
+    const refund = { ...voided.refund, manualRefundRequired };
+    const refunded = { ...voided.transaction, refunds: voided.transaction.refunds.map(r => r.id === refund.id ? refund : r) };
+    if (member) {
+      const reversed = reversePoints(member, refund, refund.timestamp);
+      if (reversed) applyCustomerChanges(reversed.customer, [], [reversed.entry]);
+    }
+    setTransactions(prev => prev.map(t => t.id === refunded.id ? refunded : t));
+    setSales(prev => [...voided.sales, ...prev]);
+    persist(async store => {
+      await store.transactions.save(refunded);
+      await store.sales.saveMany(voided.sales);
+    });
+  };
+
+  const handleRefundTransaction = (transactionId: string, quantities: Record<string, number>, options: RefundOptions) => {
+    const transaction = transactions.find(t => t.id === transactionId);
+    if (!transaction) return;
+    try {
+      const timestamp = Date.now();
+      const { transaction: refunded, refund, sales: reversals } = refundTransaction(transaction, quantities, options, OWNER_USER, timestamp);
+      if (refund.restocked) {
+        const returns = reversals.flatMap(sale => {
+          const record = stock.find(s => s.id === sale.productId);
+          return record ? [{ record, quantity: -sale.quantity }] : [];
+        });
+        recordMovements(returns.map(r => machineMovement(r.record, 'return', r.quantity, `Refund: ${refund.reason}`, refund.id)));
+        applyLotChanges(returns.map(r => createLot(r.record.id, r.quantity, r.record.expiryDate, undefined, timestamp)));
+      }
+      // Wallet payments are refunded to the wallet; points earned on the
+      // refunded amount are taken back
+      const member = customers.find(c => c.id === transaction.customerId);
+      if (member) {
+        const credit = transaction.paymentMethod === PaymentMethod.WALLET
+          ? postWalletEntry(member, 'refund', refund.amount, { reference: refund.id, note: refund.reason }, timestamp)
+          : null;
+        const reversed = reversePoints(credit?.customer || member, refund, timestamp);
+        applyCustomerChanges(reversed?.customer || credit?.customer || member, credit ? [credit.entry] : [], reversed ? [reversed.entry] : []);
+      }
+      setTransactions(prev => prev.map(t => t.id === refunded.id ? refunded : t));
+      setSales(prev => [...reversals, ...prev]);
+      persist(async store => {
+        await store.transactions.save(refunded);
+        await store.sales.saveMany(reversals);
+      });
+      refundAtGateway(refunded, refund);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Decommissioned machines stay in history views but drop out of pickers
+  const activeMachines = getActiveMachines(machines);
+
   // Render content based on active tab
   const renderContent = () => {
+    if (isLoading || loadError) {
+      return (
+        <div className="flex items-center justify-center h-full text-gray-500">
+          {loadError || 'Loading VendNexus data...'}
+        </div>
+      );
+    }
+
     if (!isOwnerMode) {
       // Customer Mode Logic: Filter products for the "Machine" the customer is currently standing at.
-      // For demo, we just show all or let them filter, but typically a customer is at ONE machine.
-      // Let's assume customer is viewing 'm1' (Nexus Prime) for this demo interaction.
-      const customerMachineId = 'm1';
-      const currentMachine = MACHINES.find(m => m.id === customerMachineId);
+      const currentMachine = machines.find(m => m.id === CUSTOMER_MACHINE_ID);
       
       return (
         <CustomerView 
-          products={products.filter(p => p.machineId === customerMachineId)} 
+          products={withAvailableQuantity(getKioskStock(), reservations)}
+          slotCodes={getSlotCodeMap(planograms.find(p => p.machineId === CUSTOMER_MACHINE_ID))}
           onPurchase={handleCustomerPurchase}
+          onGatewayPurchase={handleGatewayPurchase}
+          cashDrawer={cashDrawers.find(d => d.machineId === CUSTOMER_MACHINE_ID)}
+          onCashPurchase={handleCashPurchase}
+          onReserveStock={handleReserveStock}
+          onReleaseReservation={handleReleaseReservation}
+          machineId={CUSTOMER_MACHINE_ID}
+          machineGroup={currentMachine?.group}
+          money={getMoneyFormat(currentMachine)}
+          priceLists={priceLists}
+          experiments={experiments}
+          promotions={promotions}
+          taxRules={taxRules}
+          member={customers.find(c => c.id === kioskCustomerId)}
+          rewards={LOYALTY_REWARDS}
+          onMemberLogin={handleKioskLogin}
+          onMemberLogout={() => setKioskCustomerId(null)}
+          onTopUp={(amount, paymentReference) => kioskCustomerId && handleTopUpWallet(kioskCustomerId, amount, paymentReference, 'Kiosk top-up')}
+          onRedeemReward={rewardId => kioskCustomerId && handleRedeemReward(kioskCustomerId, rewardId)}
           machineName={currentMachine?.name}
           location={currentMachine?.location}
         />
@@ -87,8 +1095,11 @@ const App: React.FC = () => {
         return (
           <Dashboard 
             sales={sales} 
+            transactions={transactions}
             products={products} 
-            machines={MACHINES}
+            catalog={catalog}
+            machines={activeMachines}
+            statusChanges={machineStatusChanges}
             selectedMachineId={selectedMachineId}
             onMachineChange={setSelectedMachineId}
           />
@@ -97,42 +1108,170 @@ const App: React.FC = () => {
         return (
           <Inventory 
             products={selectedMachineId === 'all' ? products : products.filter(p => p.machineId === selectedMachineId)}
-            machines={MACHINES}
+            catalog={catalog}
+            stock={stock}
+            machines={activeMachines}
             sales={sales}
+            planograms={planograms}
+            lots={lots}
+            depotStock={depotStock}
+            movements={movements}
+            stockCounts={stockCounts}
+            priceLists={priceLists}
+            onTestPrice={handleTestPrice}
+            onPostStockCount={handlePostStockCount}
+            onWriteOffExpired={handleWriteOffExpired}
+            onWriteOff={handleWriteOff}
+            onReceiveLot={handleReceiveLot}
             onUpdateProduct={handleUpdateProduct}
             onDeleteProduct={handleDeleteProduct}
             onAddProduct={handleAddProduct}
           />
         );
+      case 'machines':
+        return (
+          <Machines
+            machines={machines}
+            products={products}
+            sales={sales}
+            statusChanges={machineStatusChanges}
+            tickets={maintenanceTickets}
+            planograms={planograms}
+            onCreateMachine={handleCreateMachine}
+            onUpdateMachine={handleUpdateMachine}
+            onChangeStatus={handleChangeMachineStatus}
+            onDecommissionMachine={handleDecommissionMachine}
+            onReleaseStatusOverride={handleReleaseStatusOverride}
+            onOpenTicket={handleOpenTicket}
+            onCloseTicket={handleCloseTicket}
+            onUpdatePlanogram={handleUpdatePlanogram}
+          />
+        );
+      case 'restock':
+        return (
+          <RestockRoutes
+            products={products}
+            machines={activeMachines}
+            planograms={planograms}
+            sales={sales}
+            workOrders={workOrders}
+            onCreateWorkOrders={handleCreateWorkOrders}
+            onCompleteWorkOrder={handleCompleteWorkOrder}
+            onCancelWorkOrder={handleCancelWorkOrder}
+          />
+        );
+      case 'depots':
+        return (
+          <Depots
+            depots={depots}
+            depotStock={depotStock}
+            transfers={transfers}
+            catalog={catalog}
+            products={products}
+            machines={activeMachines}
+            onCreateDepot={handleCreateDepot}
+            onSetDepotQuantity={handleSetDepotQuantity}
+            onCreateTransfer={handleCreateTransfer}
+          />
+        );
+      case 'purchasing':
+        return (
+          <Purchasing
+            suppliers={suppliers}
+            purchaseOrders={purchaseOrders}
+            catalog={catalog}
+            depots={depots}
+            onCreateSupplier={handleCreateSupplier}
+            onCreatePurchaseOrder={handleCreatePurchaseOrder}
+            onReceivePurchaseOrder={handleReceivePurchaseOrder}
+            onCancelPurchaseOrder={handleCancelPurchaseOrder}
+          />
+        );
+      case 'waste':
+        return (
+          <WasteReport
+            writeOffs={writeOffs}
+            products={products}
+            machines={machines}
+            lots={lots}
+            onWriteOffExpired={() => handleWriteOffExpired()}
+          />
+        );
       case 'sales':
         return (
-          <div className="bg-white p-6 rounded-xl shadow-sm">
-             <h2 className="text-xl font-bold mb-4">Sales Ledger</h2>
-             <div className="overflow-x-auto">
-               <table className="w-full text-left text-sm text-gray-600">
-                 <thead className="bg-gray-50 uppercase text-xs font-semibold">
-                   <tr>
-                     <th className="px-4 py-3">Date</th>
-                     <th className="px-4 py-3">Product</th>
-                     <th className="px-4 py-3">Qty</th>
-                     <th className="px-4 py-3">Method</th>
-                     <th className="px-4 py-3 text-right">Revenue</th>
-                   </tr>
-                 </thead>
-                 <tbody>
-                   {sales.slice(0, 20).map(s => (
-                     <tr key={s.id} className="border-t border-gray-100">
-                       <td className="px-4 py-3">{new Date(s.timestamp).toLocaleDateString()} {new Date(s.timestamp).toLocaleTimeString()}</td>
-                       <td className="px-4 py-3">{s.productName}</td>
-                       <td className="px-4 py-3">{s.quantity}</td>
-                       <td className="px-4 py-3">{s.paymentMethod}</td>
-                       <td className="px-4 py-3 text-right text-teal-700 font-medium">+${s.revenue.toFixed(2)}</td>
-                     </tr>
-                   ))}
-                 </tbody>
-               </table>
-             </div>
-          </div>
+          <SalesLedger
+            sales={sales}
+            transactions={transactions}
+            catalog={catalog}
+            machines={machines}
+            onRefundTransaction={handleRefundTransaction}
+          />
+        );
+      case 'cash':
+        return (
+          <CashCollection
+            drawers={cashDrawers}
+            collections={cashCollections}
+            machines={machines}
+            sales={sales}
+            onCollect={handleCollectCash}
+          />
+        );
+      case 'promotions':
+        return (
+          <Promotions
+            promotions={promotions}
+            catalog={catalog}
+            machines={activeMachines}
+            onCreatePromotion={handleCreatePromotion}
+            onTogglePromotion={handleTogglePromotion}
+          />
+        );
+      case 'taxes':
+        return (
+          <TaxRules
+            taxRules={taxRules}
+            catalog={catalog}
+            machines={activeMachines}
+            onCreateTaxRule={handleCreateTaxRule}
+            onToggleTaxRule={handleToggleTaxRule}
+          />
+        );
+      case 'pricing':
+        return (
+          <PriceLists
+            priceLists={priceLists}
+            catalog={catalog}
+            machines={activeMachines}
+            onCreatePriceList={handleCreatePriceList}
+            onAddPriceEntry={handleAddPriceEntry}
+            onEndPriceEntry={handleEndPriceEntry}
+            onTogglePriceList={handleTogglePriceList}
+          />
+        );
+      case 'experiments':
+        return (
+          <PriceExperiments
+            experiments={experiments}
+            catalog={catalog}
+            machines={activeMachines}
+            sales={sales}
+            onCreateExperiment={handleCreateExperiment}
+            onStopExperiment={handleStopExperiment}
+            onPromoteVariant={handlePromoteVariant}
+          />
+        );
+      case 'customers':
+        return (
+          <Customers
+            customers={customers}
+            walletEntries={walletEntries}
+            loyaltyEntries={loyaltyEntries}
+            transactions={transactions}
+            onCreateCustomer={handleCreateCustomer}
+            onTopUp={(customerId, amount, note) => handleTopUpWallet(customerId, amount, undefined, note)}
+            onAdjustWallet={handleAdjustWallet}
+          />
         );
       case 'ai-agent':
         return (
@@ -158,6 +1297,7 @@ const App: React.FC = () => {
       isOwnerMode={isOwnerMode}
       toggleMode={() => {
         setIsOwnerMode(!isOwnerMode);
+        setKioskCustomerId(null);
         setActiveTab('dashboard'); // Reset tab when switching modes
       }}
     >
@@ -166,13 +1306,15 @@ const App: React.FC = () => {
       {/* AI Assistant is always available in Owner Mode */}
       {isOwnerMode && (
         <AIAssistant 
+          lots={lots}
           contextData={{
             products,
             salesSummary: {
-              totalRevenue: sales.reduce((acc, s) => acc + s.revenue, 0),
+              revenueByCurrency: sumByCurrency(sales.map(s => ({ machineId: s.machineId, amount: s.revenue })), machines)
+            .map(({ format, amount }) => ({ currency: format.currency, revenue: amount })),
               totalSalesCount: sales.length
             },
-            machines: MACHINES
+            machines: activeMachines
           }} 
         />
       )}
@@ -1,9 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Bot, X, Maximize2, Minimize2, Loader2, Volume2, Mic, AlertTriangle, Calendar, StopCircle } from 'lucide-react';
 import { chatWithAgent } from '../services/geminiService';
-import { ChatMessage, Product } from '../types';
+import { ChatMessage, Product, StockLot } from '../types';
+import { getExpiryAlerts } from '../services/lotService';
 
 interface AIAssistantProps {
+  lots: StockLot[];
   contextData: {
     products: Product[];
     salesSummary: any;
@@ -11,7 +13,7 @@ interface AIAssistantProps {
   }; 
 }
 
-const AIAssistant: React.FC<AIAssistantProps> = ({ contextData }) => {
+const AIAssistant: React.FC<AIAssistantProps> = ({ lots, contextData }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
   const [input, setInput] = useState('');
@@ -34,13 +36,9 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ contextData }) => {
     scrollToBottom();
   }, [messages, isOpen, showExpiryList]);
 
-  // Expiry Analysis
-  const now = Date.now();
-  const weekInMs = 7 * 24 * 60 * 60 * 1000;
-  
-  const expiredProducts = contextData.products.filter(p => p.expiryDate && p.expiryDate < now);
-  const nearExpiryProducts = contextData.products.filter(p => p.expiryDate && p.expiryDate >= now && p.expiryDate <= now + weekInMs);
-  const hasExpiryAlerts = expiredProducts.length > 0 || nearExpiryProducts.length > 0;
+  // Expiry Analysis (per lot, since one product can hold several batches)
+  const { expired: expiredLots, nearExpiry: nearExpiryLots } = getExpiryAlerts(lots, contextData.products);
+  const hasExpiryAlerts = expiredLots.length > 0 || nearExpiryLots.length > 0;
 
   const startListening = () => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
@@ -189,24 +187,24 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ contextData }) => {
                   <Calendar size={18} className="text-gray-500"/> Expiry Status
                 </h3>
                 <span className="text-xs bg-gray-200 px-2 py-1 rounded text-gray-600">
-                  {expiredProducts.length} Expired, {nearExpiryProducts.length} Near
+                  {expiredLots.length} Expired, {nearExpiryLots.length} Near
                 </span>
              </div>
              
-             {expiredProducts.length > 0 && (
+             {expiredLots.length > 0 && (
                <div className="mb-6">
                  <h4 className="text-xs font-bold text-red-600 uppercase tracking-wider mb-2 flex items-center gap-1">
                     <AlertTriangle size={12}/> Expired Items
                  </h4>
                  <div className="space-y-2">
-                   {expiredProducts.map(p => (
-                     <div key={p.id} className="bg-red-50 border border-red-100 p-3 rounded-lg flex justify-between items-center">
+                   {expiredLots.map(({ lot, product }) => (
+                     <div key={lot.id} className="bg-red-50 border border-red-100 p-3 rounded-lg flex justify-between items-center">
                         <div>
-                          <p className="font-medium text-red-900">{p.name}</p>
-                          <p className="text-xs text-red-700">Expired: {new Date(p.expiryDate).toLocaleDateString()}</p>
+                          <p className="font-medium text-red-900">{product.name}</p>
+                          <p className="text-xs text-red-700">Lot {lot.lotNumber} · Expired: {new Date(lot.expiryDate).toLocaleDateString()}</p>
                         </div>
                         <span className="text-xs font-bold text-red-800 bg-red-200 px-2 py-1 rounded">
-                           Qty: {p.quantity}
+                           Qty: {lot.quantity}
                         </span>
                      </div>
                    ))}
@@ -214,18 +212,18 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ contextData }) => {
                </div>
              )}
 
-             {nearExpiryProducts.length > 0 && (
+             {nearExpiryLots.length > 0 && (
                <div>
                  <h4 className="text-xs font-bold text-orange-600 uppercase tracking-wider mb-2">Expiring Soon (7 Days)</h4>
                  <div className="space-y-2">
-                   {nearExpiryProducts.map(p => (
-                     <div key={p.id} className="bg-orange-50 border border-orange-100 p-3 rounded-lg flex justify-between items-center">
+                   {nearExpiryLots.map(({ lot, product }) => (
+                     <div key={lot.id} className="bg-orange-50 border border-orange-100 p-3 rounded-lg flex justify-between items-center">
                         <div>
-                          <p className="font-medium text-orange-900">{p.name}</p>
-                          <p className="text-xs text-orange-700">Expires: {new Date(p.expiryDate).toLocaleDateString()}</p>
+                          <p className="font-medium text-orange-900">{product.name}</p>
+                          <p className="text-xs text-orange-700">Lot {lot.lotNumber} · Expires: {new Date(lot.expiryDate).toLocaleDateString()}</p>
                         </div>
                         <span className="text-xs font-bold text-orange-800 bg-orange-200 px-2 py-1 rounded">
-                           Qty: {p.quantity}
+                           Qty: {lot.quantity}
                         </span>
                      </div>
                    ))}
@@ -233,7 +231,7 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ contextData }) => {
                </div>
              )}
              
-             {expiredProducts.length === 0 && nearExpiryProducts.length === 0 && (
+             {expiredLots.length === 0 && nearExpiryLots.length === 0 && (
                 <div className="text-center py-10 text-gray-400">
                    <p>All products are fresh!</p>
                 </div>
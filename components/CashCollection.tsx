@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Banknote, Coins, History } from 'lucide-react';
+import { CashCollection as CashCollectionRecord, CashDrawer, Machine, SaleRecord } from '../types';
+import { COIN_DENOMINATIONS, COIN_TUBE_CAPACITY } from '../constants';
+import { formatDenomination, getCashPosition } from '../services/cashService';
+import { formatMoney } from '../services/money';
+
+interface CashCollectionProps {
+  drawers: CashDrawer[];
+  collections: CashCollectionRecord[];
+  machines: Machine[];
+  sales: SaleRecord[];
+  onCollect: (machineId: string, countedAmount: number, refillTubes: boolean, note?: string) => void;
+}
+
+const varianceClass = (variance: number) =>
+  Math.abs(variance) < 0.005 ? 'text-green-600' : variance < 0 ? 'text-red-600' : 'text-orange-600';
+
+const CashCollection: React.FC<CashCollectionProps> = ({ drawers, collections, machines, sales, onCollect }) => {
+  const [collecting, setCollecting] = useState<{ machineId: string; counted: string; refillTubes: boolean; note: string } | null>(null);
+
+  const machineName = (machineId: string) => machines.find(m => m.id === machineId)?.name || machineId;
+  const rows = drawers
+    .filter(d => machines.some(m => m.id === d.machineId))
+    .map(drawer => ({ drawer, position: getCashPosition(drawer, sales) }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collecting) return;
+    onCollect(collecting.machineId, parseFloat(collecting.counted), collecting.refillTubes, collecting.note);
+    setCollecting(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-bold text-gray-800">Cash Collection</h2>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-6 py-4">Machine</th>
+              <th className="px-6 py-4">Change tubes</th>
+              <th className="px-6 py-4 text-right">Cash box</th>
+              <th className="px-6 py-4 text-right">Cash sales</th>
+              <th className="px-6 py-4 text-right">Change owed</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map(({ drawer, position }) => (
+              <React.Fragment key={drawer.id}>
+                <tr className="hover:bg-gray-50/50">
+                  <td className="px-6 py-3">
+                    <p className="font-medium text-gray-900">{machineName(drawer.machineId)}</p>
+                    <p className="text-xs text-gray-400">Since {new Date(drawer.lastCollectedAt).toLocaleString()}</p>
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="flex gap-3">
+                      {COIN_DENOMINATIONS.map(d => {
+                        const count = drawer.tubes[d] || 0;
+                        return (
+                          <span key={d} className={`text-xs font-mono ${count < COIN_TUBE_CAPACITY / 10 ? 'text-red-600' : 'text-gray-600'}`}>
+                            {formatDenomination(d)}×{count}
+                          </span>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-gray-400">{formatMoney(position.tubeValue)} in tubes</p>
+                  </td>
+                  <td className="px-6 py-3 text-right font-mono">{formatMoney(position.cashBoxValue)}</td>
+                  <td className="px-6 py-3 text-right font-mono">{formatMoney(position.recordedSales)}</td>
+                  <td className={`px-6 py-3 text-right font-mono ${position.changeOwed > 0 ? 'text-red-600' : ''}`}>
+                    {formatMoney(position.changeOwed)}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => setCollecting({ machineId: drawer.machineId, counted: '', refillTubes: true, note: '' })}
+                      className="flex items-center gap-1 ml-auto text-teal-600 hover:text-teal-800 text-sm font-medium"
+                    >
+                      <Banknote size={16} /> Collect
+                    </button>
+                  </td>
+                </tr>
+                {collecting?.machineId === drawer.machineId && (
+                  <tr className="bg-teal-50/50">
+                    <td colSpan={6} className="px-6 py-4">
+                      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+                        <label className="text-sm text-gray-700">
+                          Counted cash
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.05"
+                            required
+                            value={collecting.counted}
+                            placeholder={position.cashBoxValue.toFixed(2)}
+                            onChange={e => setCollecting({ ...collecting, counted: e.target.value })}
+                            className="block mt-1 w-32 px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none"
+                          />
+                        </label>
+                        <input
+                          value={collecting.note}
+                          onChange={e => setCollecting({ ...collecting, note: e.target.value })}
+                          placeholder="Note (optional)"
+                          className="flex-1 min-w-[12rem] px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400"
+                        />
+                        <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+                          <input
+                            type="checkbox"
+                            checked={collecting.refillTubes}
+                            onChange={e => setCollecting({ ...collecting, refillTubes: e.target.checked })}
+                          />
+                          <Coins size={16} /> Refill change tubes
+                        </label>
+                        <button type="button" onClick={() => setCollecting(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">
+                          Cancel
+                        </button>
+                        <button type="submit" className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium">
+                          Record Collection
+                        </button>
+                      </form>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+            {rows.length === 0 && (
+              <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-400">No machines take cash yet</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-4 border-b border-gray-100">
+          <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+            <History size={16} className="text-gray-400" /> Collections
+          </h3>
+          <p className="text-xs text-gray-400 mt-1">
+            Variance is the counted cash plus the change in tube float, less recorded cash sales and change owed to customers.
+          </p>
+        </div>
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-6 py-3">Collected</th>
+              <th className="px-6 py-3">Machine</th>
+              <th className="px-6 py-3 text-right">Machine count</th>
+              <th className="px-6 py-3 text-right">Counted</th>
+              <th className="px-6 py-3 text-right">Cash sales</th>
+              <th className="px-6 py-3 text-right">Variance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {collections.map(c => (
+              <tr key={c.id} className="hover:bg-gray-50/50">
+                <td className="px-6 py-3">
+                  <p className="text-gray-800">{new Date(c.collectedAt).toLocaleString()}</p>
+                  <p className="text-xs text-gray-400">
+                    {c.user}{c.floatAdded > 0 && ` · ${formatMoney(c.floatAdded)} float added`}{c.note && ` · ${c.note}`}
+                  </p>
+                </td>
+                <td className="px-6 py-3">{machineName(c.machineId)}</td>
+                <td className="px-6 py-3 text-right font-mono">{formatMoney(c.expectedAmount)}</td>
+                <td className="px-6 py-3 text-right font-mono">{formatMoney(c.countedAmount)}</td>
+                <td className="px-6 py-3 text-right font-mono">{formatMoney(c.recordedSales)}</td>
+                <td className={`px-6 py-3 text-right font-mono font-semibold ${varianceClass(c.variance)}`}>{formatMoney(c.variance)}</td>
+              </tr>
+            ))}
+            {collections.length === 0 && (
+              <tr><td colSpan={6} className="px-6 py-8 text-center text-gray-400">No cash has been collected yet</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CashCollection;
@@ -1,28 +1,128 @@
-import React, { useState } from 'react';
-import { Product, CartItem, PaymentMethod } from '../types';
-import { ShoppingCart, CreditCard, Smartphone, Banknote, QrCode, MapPin } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Product, CartItem, PaymentMethod, Transaction, CashCounts, CashDrawer, Customer, Reward, Promotion, StockReservation, TaxRule, PriceList, PriceExperiment } from '../types';
+import { ShoppingCart, CreditCard, Smartphone, Banknote, QrCode, MapPin, XCircle, Wallet } from 'lucide-react';
+import { PaymentStatus, getPaymentMethods, getPaymentProvider, waitForAuthorization } from '../services/paymentService';
+import { canMakeChange, formatDenomination, getCashValue, toCents } from '../services/cashService';
+import { findCouponPromotions, isPromotionLive, priceCart } from '../services/promotionService';
+import { getStockShortfalls } from '../services/reservationService';
+import { getCartTax } from '../services/taxService';
+import { withActivePrices } from '../services/priceListService';
+import { withExperimentPrices } from '../services/experimentService';
+import { MoneyFormat, formatMoney, fromMinorUnits } from '../services/money';
+import { BILL_DENOMINATIONS, COIN_DENOMINATIONS } from '../constants';
+import QrCodeImage from './QrCodeImage';
+import KioskMemberPanel from './KioskMemberPanel';
 
 interface CustomerViewProps {
-  products: Product[];
-  onPurchase: (cart: CartItem[], method: PaymentMethod) => void;
+  products: Product[]; // Quantities are net of stock held for checkouts in progress
+  onPurchase: (cart: CartItem[], method: PaymentMethod, couponCode?: string, reservationId?: string, pricedAt?: number) => Transaction; // Charges the cart at its line prices
+  // Card and UPI: books the sale and captures it, up to the authorized amount;
+  // rejects, with nothing charged or booked, when the payment can't be captured
+  onGatewayPurchase: (cart: CartItem[], method: PaymentMethod, paymentReference: string, authorizedAmount: number, couponCode?: string, reservationId?: string, pricedAt?: number) => Promise<Transaction>;
   machineName?: string;
   location?: string;
+  slotCodes?: Record<string, string[]>; // productId -> keypad codes, e.g. ["B4"]
+  cashDrawer?: CashDrawer; // Missing when the machine has no cash acceptor
+  onCashPurchase?: (cart: CartItem[], inserted: CashCounts, couponCode?: string, reservationId?: string, pricedAt?: number) => { transaction: Transaction; change: CashCounts; changeOwed: number };
+  onReserveStock: (cart: CartItem[]) => StockReservation; // Throws when the cart is no longer in stock
+  onReleaseReservation: (reservationId: string) => void;
+  machineId: string;
+  machineGroup?: string;
+  money: MoneyFormat; // The machine's currency and locale
+  priceLists: PriceList[];
+  experiments: PriceExperiment[];
+  promotions: Promotion[];
+  taxRules: TaxRule[];
+  member?: Customer; // Loyalty member logged in at the kiosk
+  rewards: Reward[];
+  onMemberLogin: (input: string) => void;
+  onMemberLogout: () => void;
+  onTopUp: (amount: number, paymentReference: string) => void;
+  onRedeemReward: (rewardId: string) => void;
 }
 
-const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machineName, location }) => {
+const CustomerView: React.FC<CustomerViewProps> = ({
+  products,
+  onPurchase,
+  onGatewayPurchase,
+  machineName,
+  location,
+  slotCodes = {},
+  cashDrawer,
+  onCashPurchase,
+  onReserveStock,
+  onReleaseReservation,
+  machineId,
+  machineGroup,
+  money,
+  priceLists,
+  experiments,
+  promotions,
+  taxRules,
+  member,
+  rewards,
+  onMemberLogin,
+  onMemberLogout,
+  onTopUp,
+  onRedeemReward
+}) => {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [activeCategory, setActiveCategory] = useState('All');
   const [showCart, setShowCart] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [purchaseComplete, setPurchaseComplete] = useState(false);
+  const [payment, setPayment] = useState<{
+    method: PaymentMethod;
+    status: PaymentStatus;
+    message?: string;
+    id?: string;
+    qrPayload?: string;
+    expiresAt?: number;
+  } | null>(null);
+  const [completed, setCompleted] = useState<Transaction | null>(null);
+  const [cash, setCash] = useState<{ inserted: CashCounts; message?: string } | null>(null);
+  const [cashResult, setCashResult] = useState<{ change: CashCounts; changeOwed: number } | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [coupon, setCoupon] = useState<{ code?: string; error?: string }>({});
+  const [now, setNow] = useState(Date.now());
+  const [reservation, setReservation] = useState<StockReservation | null>(null);
+  const [stockMessage, setStockMessage] = useState<string | null>(null);
+
+  const awaitingScan = payment?.status === 'pending' && !!payment.qrPayload;
+
+  // Tick the QR expiry countdown
+  useEffect(() => {
+    if (!awaitingScan) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [awaitingScan]);
+
+  // Prices come from the machine's price lists and experiments as of this
+  // render, so a cart picks up a price band that starts while it is being
+  // filled. Checkout charges the prices shown when payment was authorized.
+  const pricedAt = Date.now();
+  const priceMachine = { id: machineId, currency: money.currency, group: machineGroup };
+  const priceNow = <T extends Product>(items: T[]) =>
+    withExperimentPrices(withActivePrices(items, priceMachine, priceLists, pricedAt), machineId, experiments, pricedAt);
+  const pricedCart = priceNow<CartItem>(cart);
+
+  // The kiosk's own reservation is still available to its cart
+  const availableProducts = priceNow(products)
+    .map(p => ({ ...p, quantity: p.quantity + (reservation?.items[p.id] || 0) }));
+  const shortfalls = getStockShortfalls(cart, availableProducts);
 
   const categories = ['All', ...Array.from(new Set(products.map(p => p.category)))];
 
   const filteredProducts = activeCategory === 'All' 
-    ? products 
-    : products.filter(p => p.category === activeCategory);
+    ? availableProducts 
+    : availableProducts.filter(p => p.category === activeCategory);
 
   const addToCart = (product: Product) => {
+    const inCart = cart.find(item => item.id === product.id)?.cartQuantity || 0;
+    if (inCart >= product.quantity) {
+      setStockMessage(product.quantity === 0 ? `${product.name} is out of stock` : `Sorry, only ${product.quantity} ${product.name} available`);
+      return;
+    }
+    setStockMessage(null);
     setCart(prev => {
       const existing = prev.find(item => item.id === product.id);
       if (existing) {
@@ -40,30 +140,186 @@ const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machi
     setCart(prev => prev.filter(item => item.id !== id));
   };
 
-  const cartTotal = cart.reduce((sum, item) => sum + (item.price * item.cartQuantity), 0);
+  const reduceToAvailable = (id: string, available: number) => {
+    setCart(prev => prev.map(item => item.id === id ? { ...item, cartQuantity: available } : item).filter(item => item.cartQuantity > 0));
+  };
+
+  // Holds the cart's stock for a checkout; null (with the reason shown) when it can't
+  const holdStock = () => {
+    try {
+      const held = onReserveStock(cart);
+      setReservation(held);
+      setStockMessage(null);
+      return held;
+    } catch (error) {
+      setStockMessage((error as Error).message);
+      return null;
+    }
+  };
+
+  const releaseStock = () => {
+    if (!reservation) return;
+    onReleaseReservation(reservation.id);
+    setReservation(null);
+  };
+
+  // A cash customer who walks away gets their money back and the stock is freed
+  useEffect(() => {
+    if (!cash || !reservation) return;
+    const timer = setTimeout(() => {
+      onReleaseReservation(reservation.id);
+      setReservation(null);
+      setCash(null);
+      setStockMessage(getCashValue(cash.inserted) > 0 ? 'Checkout timed out. Your cash has been returned.' : 'Checkout timed out');
+    }, reservation.expiresAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [cash, reservation, onReleaseReservation]);
+
+  const pricing = priceCart(pricedCart, promotions, { machineId, currency: money.currency, timestamp: pricedAt, couponCode: coupon.code });
+  const cartTax = getCartTax(pricedCart, pricing.discounts, taxRules, machineId, money.currency);
+  const cartTotal = cartTax.total;
+  const includedTax = cartTax.tax - cartTax.exclusiveTax;
+
+  // Products with a deal running now that needs no coupon
+  const hasDeal = (product: Product) => promotions.some(p =>
+    !p.couponCode && (p.skuIds.length === 0 || p.skuIds.includes(product.skuId)) && isPromotionLive(p, machineId, pricedAt));
+
+  const handleApplyCoupon = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (findCouponPromotions(promotions, couponInput, machineId, Date.now()).length === 0) {
+      setCoupon({ error: 'This coupon is not valid here right now' });
+      return;
+    }
+    setCoupon({ code: couponInput });
+    setCouponInput('');
+  };
   const cartItemCount = cart.reduce((sum, item) => sum + item.cartQuantity, 0);
 
-  const handleCheckout = (method: PaymentMethod) => {
+  // Authorize, vend, then capture only what the machine dispensed. The cart is
+  // charged at the prices it was authorized at, even if they change while
+  // the customer pays.
+  const handleCheckout = async (method: PaymentMethod) => {
+    const held = holdStock();
+    if (!held) return;
+    // The cart, coupon and pricing time are fixed at what the customer authorized
+    const authorizedCart = pricedCart;
+    const authorizedAmount = cartTotal;
+    const couponCode = coupon.code;
+    const provider = getPaymentProvider(method);
     setIsProcessing(true);
-    setTimeout(() => {
-      onPurchase(cart, method);
+    setPayment({ method, status: 'pending' });
+    try {
+      const authorization = await provider.authorize(method, authorizedAmount);
+      setNow(Date.now());
+      setPayment({
+        method,
+        status: 'pending',
+        id: authorization.id,
+        qrPayload: authorization.qrPayload,
+        expiresAt: authorization.expiresAt
+      });
+      const result = await waitForAuthorization(provider, authorization.id);
+      setPayment({ method, status: result.status, message: result.message });
+      if (result.status !== 'approved') return;
+
+      const transaction = await onGatewayPurchase(authorizedCart, method, result.id, authorizedAmount, couponCode, held.id, pricedAt);
+      setCompleted(transaction);
+      setPayment(null);
+      setCart([]);
+      setCoupon({});
+    } catch (error) {
+      setPayment({ method, status: 'declined', message: (error as Error).message });
+    } finally {
+      // Already consumed if the sale went through
+      onReleaseReservation(held.id);
+      setReservation(null);
       setIsProcessing(false);
-      setPurchaseComplete(true);
+    }
+  };
+
+  // Wallet purchases need no gateway: the wallet is debited for what was vended
+  const handleWalletCheckout = () => {
+    try {
+      setCompleted(onPurchase(pricedCart, PaymentMethod.WALLET, coupon.code, undefined, pricedAt));
+      setPayment(null);
+      setCart([]);
+      setCoupon({});
+    } catch (error) {
+      setPayment({ method: PaymentMethod.WALLET, status: 'declined', message: (error as Error).message });
+    }
+  };
+
+  // Each insert is refused (and handed back) if the machine could not return
+  // change for it. The sale goes through once enough cash is in.
+  const handleInsertCash = (cents: number) => {
+    if (!cash || !cashDrawer || !onCashPurchase) return;
+    const inserted = { ...cash.inserted, [cents]: (cash.inserted[cents] || 0) + 1 };
+    if (!canMakeChange(cashDrawer, inserted, cartTotal)) {
+      setCash({ ...cash, message: `Unable to give change for ${formatDenomination(cents)}, please use smaller denominations` });
+      return;
+    }
+    if (getCashValue(inserted) < toCents(cartTotal)) {
+      setCash({ inserted });
+      return;
+    }
+    try {
+      const result = onCashPurchase(pricedCart, inserted, coupon.code, reservation?.id, pricedAt);
+      setCompleted(result.transaction);
+      setCashResult({ change: result.change, changeOwed: result.changeOwed });
+      setCash(null);
+      setReservation(null);
       setCart([]);
-    }, 2000);
+      setCoupon({});
+    } catch (error) {
+      setCash({ inserted: {}, message: `${(error as Error).message}. Your cash has been returned.` });
+    }
+  };
+
+  // The polling loop in handleCheckout sees the cancellation and stops
+  const handleCancelPayment = async () => {
+    if (!payment?.id) return;
+    try {
+      await getPaymentProvider(payment.method).cancel(payment.id);
+    } catch (error) {
+      setPayment({ ...payment, status: 'declined', message: (error as Error).message });
+    }
   };
 
-  if (purchaseComplete) {
+  if (completed) {
+    const failedUnits = completed.lines.reduce((sum, l) => sum + l.failedQuantity, 0);
+    const nothingVended = completed.status === 'failed';
     return (
       <div className="flex flex-col items-center justify-center h-full p-8 text-center animate-fade-in">
-        <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mb-6">
-          <QrCode className="text-green-600" size={40} />
+        <div className={`w-20 h-20 rounded-full flex items-center justify-center mb-6 ${nothingVended ? 'bg-red-100' : 'bg-green-100'}`}>
+          {nothingVended ? <XCircle className="text-red-600" size={40} /> : <QrCode className="text-green-600" size={40} />}
         </div>
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Payment Successful!</h2>
-        <p className="text-gray-500 mb-8">Please collect your items from the dispensing tray below.</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{nothingVended ? 'Sorry, nothing could be vended' : 'Payment Successful!'}</h2>
+        <p className="text-gray-500 mb-2">
+          {nothingVended
+            ? 'Your payment has been cancelled and you have not been charged.'
+            : `You were charged ${formatMoney(completed.total, money)}. Please collect your items from the dispensing tray below.`}
+        </p>
+        {!nothingVended && failedUnits > 0 && (
+          <p className="text-sm text-orange-600 mb-2">{failedUnits} item(s) could not be vended and were not charged.</p>
+        )}
+        {!!completed.pointsEarned && (
+          <p className="text-sm text-teal-700 mb-2">
+            You earned {completed.pointsEarned} points{member && ` · ${member.points} points, ${formatMoney(member.walletBalance, money)} in your wallet`}
+          </p>
+        )}
+        {cashResult && getCashValue(cashResult.change) > 0 && (
+          <p className="text-sm text-gray-700 mb-2">
+            Please take your {nothingVended ? 'cash' : 'change'}: {formatMoney(fromMinorUnits(getCashValue(cashResult.change), money.currency), money)}
+          </p>
+        )}
+        {cashResult && cashResult.changeOwed > 0 && (
+          <p className="text-sm text-red-600 mb-2">
+            The machine ran out of coins and still owes you {formatMoney(cashResult.changeOwed, money)}. Please contact the operator.
+          </p>
+        )}
         <button 
-          onClick={() => setPurchaseComplete(false)}
-          className="bg-teal-600 text-white px-8 py-3 rounded-xl hover:bg-teal-700 transition-colors"
+          onClick={() => { setCompleted(null); setCashResult(null); }}
+          className="mt-6 bg-teal-600 text-white px-8 py-3 rounded-xl hover:bg-teal-700 transition-colors"
         >
           Buy More Items
         </button>
@@ -83,19 +339,32 @@ const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machi
           {cart.length === 0 ? (
             <div className="text-center text-gray-400 py-10">Your cart is empty</div>
           ) : (
-            cart.map(item => (
+            pricedCart.map(item => (
               <div key={item.id} className="flex justify-between items-center bg-gray-50 p-3 rounded-lg">
                 <div className="flex items-center space-x-3">
                   <div className="w-10 h-10 bg-white rounded-md border border-gray-200 flex items-center justify-center text-xs font-bold text-gray-400">
                     x{item.cartQuantity}
                   </div>
                   <div>
-                    <div className="font-medium text-gray-900">{item.name}</div>
-                    <div className="text-xs text-gray-500">${item.price.toFixed(2)} each</div>
+                    <div className="font-medium text-gray-900">
+                      {slotCodes[item.id] && <span className="font-mono text-teal-700 mr-1">{slotCodes[item.id][0]}</span>}
+                      {item.name}
+                    </div>
+                    <div className="text-xs text-gray-500">{formatMoney(item.price, money)} each</div>
+                    {shortfalls.filter(f => f.productId === item.id).map(f => (
+                      <div key={f.productId} className="text-xs text-red-600">
+                        {f.available === 0 ? 'Now out of stock' : `Only ${f.available} left`}
+                        {f.available > 0 && (
+                          <button onClick={() => reduceToAvailable(item.id, f.available)} className="ml-2 underline hover:text-red-800">
+                            Keep {f.available}
+                          </button>
+                        )}
+                      </div>
+                    ))}
                   </div>
                 </div>
                 <div className="text-right">
-                  <div className="font-semibold text-gray-900">${(item.price * item.cartQuantity).toFixed(2)}</div>
+                  <div className="font-semibold text-gray-900">{formatMoney(item.price * item.cartQuantity, money)}</div>
                   <button onClick={() => removeFromCart(item.id)} className="text-xs text-red-500 hover:text-red-700">Remove</button>
                 </div>
               </div>
@@ -105,24 +374,79 @@ const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machi
 
         {cart.length > 0 && (
           <div className="p-4 border-t border-gray-100 bg-white">
+            {(pricing.promotions.length > 0 || cartTax.exclusiveTax > 0) && (
+              <div className="mb-2 space-y-1 text-sm">
+                <div className="flex justify-between text-gray-500">
+                  <span>Subtotal</span>
+                  <span>{formatMoney(pricing.subtotal, money)}</span>
+                </div>
+                {pricing.promotions.map(p => (
+                  <div key={p.promotionId} className="flex justify-between text-green-700">
+                    <span>{p.name}</span>
+                    <span>{formatMoney(-p.amount, money)}</span>
+                  </div>
+                ))}
+                {cartTax.exclusiveTax > 0 && (
+                  <div className="flex justify-between text-gray-500">
+                    <span>Tax</span>
+                    <span>{formatMoney(cartTax.exclusiveTax, money)}</span>
+                  </div>
+                )}
+              </div>
+            )}
             <div className="flex justify-between items-center mb-4">
-              <span className="text-gray-600">Total Amount</span>
-              <span className="text-2xl font-bold text-gray-900">${cartTotal.toFixed(2)}</span>
+              <span className="text-gray-600">
+                Total Amount
+                {includedTax > 0 && <span className="block text-xs text-gray-400">Includes {formatMoney(includedTax, money)} tax</span>}
+              </span>
+              <span className="text-2xl font-bold text-gray-900">{formatMoney(cartTotal, money)}</span>
             </div>
             
+            <form onSubmit={handleApplyCoupon} className="mb-4">
+              {coupon.code ? (
+                <div className="flex justify-between items-center text-sm text-green-700">
+                  <span>Coupon <span className="font-mono font-semibold">{coupon.code.toUpperCase()}</span> applied</span>
+                  <button type="button" onClick={() => setCoupon({})} className="text-xs text-red-500 hover:text-red-700">Remove</button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    value={couponInput}
+                    onChange={e => setCouponInput(e.target.value)}
+                    placeholder="Coupon code"
+                    className="flex-1 px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400 text-sm uppercase"
+                  />
+                  <button type="submit" disabled={!couponInput.trim()} className="px-4 py-2 text-sm text-teal-700 border border-teal-200 rounded-lg hover:bg-teal-50 disabled:opacity-50">
+                    Apply
+                  </button>
+                </div>
+              )}
+              {coupon.error && <p className="mt-1 text-xs text-red-600">{coupon.error}</p>}
+            </form>
+
+            {stockMessage && <p className="mb-3 text-sm text-red-600 text-center">{stockMessage}</p>}
             <p className="text-xs text-gray-500 mb-3 text-center uppercase tracking-wider font-semibold">Select Payment Method</p>
             
             <div className="grid grid-cols-2 gap-3">
-              {Object.values(PaymentMethod).map((method) => (
+              {getPaymentMethods(money.currency).map((method) => (
                 <button
                   key={method}
-                  disabled={isProcessing}
-                  onClick={() => handleCheckout(method)}
-                  className="flex flex-col items-center justify-center p-3 border rounded-lg hover:bg-teal-50 hover:border-teal-200 hover:text-teal-700 transition-all text-gray-600"
+                  disabled={isProcessing || !!cash || shortfalls.length > 0 || (method === PaymentMethod.CASH && !cashDrawer) || (method === PaymentMethod.WALLET && !member)}
+                  title={method === PaymentMethod.WALLET && !member ? 'Log in as a member to pay with your wallet' : undefined}
+                  onClick={() => {
+                    if (method === PaymentMethod.CASH) {
+                      if (holdStock()) setCash({ inserted: {} });
+                    }
+                    else if (method === PaymentMethod.WALLET) handleWalletCheckout();
+                    else handleCheckout(method);
+                  }}
+                  className={`flex flex-col items-center justify-center p-3 border rounded-lg hover:bg-teal-50 hover:border-teal-200 hover:text-teal-700 transition-all disabled:opacity-50 ${
+                    payment?.method === method ? 'border-teal-300 text-teal-700' : 'text-gray-600'
+                  }`}
                 >
                   {method === PaymentMethod.CREDIT_CARD && <CreditCard size={20} className="mb-1" />}
                   {method === PaymentMethod.UPI && <Smartphone size={20} className="mb-1" />}
-                  {method === PaymentMethod.WALLET && <Smartphone size={20} className="mb-1" />}
+                  {method === PaymentMethod.WALLET && <Wallet size={20} className="mb-1" />}
                   {method === PaymentMethod.CASH && <Banknote size={20} className="mb-1" />}
                   {method === PaymentMethod.QR_CODE && <QrCode size={20} className="mb-1" />}
                   <span className="text-xs font-medium">{method}</span>
@@ -130,11 +454,65 @@ const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machi
               ))}
             </div>
             
-            {isProcessing && (
+            {cash && (
+              <div className="mt-4 p-3 border border-gray-200 rounded-lg">
+                <div className="flex justify-between text-sm mb-3">
+                  <span className="text-gray-600">Inserted</span>
+                  <span className="font-mono font-semibold text-gray-900">
+                    {formatMoney(fromMinorUnits(getCashValue(cash.inserted), money.currency), money)} of {formatMoney(cartTotal, money)}
+                  </span>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {[...COIN_DENOMINATIONS, ...BILL_DENOMINATIONS].map(cents => (
+                    <button
+                      key={cents}
+                      onClick={() => handleInsertCash(cents)}
+                      className={`py-2 text-sm font-medium border hover:bg-teal-50 hover:border-teal-200 transition-colors ${
+                        COIN_DENOMINATIONS.includes(cents) ? 'rounded-full text-amber-700' : 'rounded-lg text-green-700'
+                      }`}
+                    >
+                      {formatDenomination(cents)}
+                    </button>
+                  ))}
+                </div>
+                {cash.message && <p className="mt-2 text-xs text-red-600 text-center">{cash.message}</p>}
+                <button onClick={() => { setCash(null); releaseStock(); }} className="mt-3 w-full text-xs text-red-500 hover:text-red-700">
+                  {getCashValue(cash.inserted) > 0 ? 'Cancel and return cash' : 'Cancel'}
+                </button>
+              </div>
+            )}
+            {awaitingScan && payment && (
+              <div className="mt-4 flex flex-col items-center text-center">
+                <p className="text-sm font-medium text-gray-800 mb-2">Scan with any UPI app to pay {formatMoney(cartTotal, money)}</p>
+                <div className="p-2 bg-white border border-gray-200 rounded-lg">
+                  <QrCodeImage value={payment.qrPayload as string} size={192} />
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Code expires in {formatCountdown((payment.expiresAt as number) - now)}
+                </p>
+                <button onClick={handleCancelPayment} className="mt-2 text-xs text-red-500 hover:text-red-700">
+                  Cancel payment
+                </button>
+              </div>
+            )}
+            {payment?.status === 'pending' && !awaitingScan && (
               <div className="mt-4 text-center text-sm text-teal-600 animate-pulse">
-                Processing payment securely...
+                Waiting for {payment.method} approval...
               </div>
             )}
+            {payment?.status === 'approved' && isProcessing && (
+              <div className="mt-4 text-center text-sm text-teal-600 animate-pulse">
+                Approved, vending your items...
+              </div>
+            )}
+            {(payment?.status === 'declined' || payment?.status === 'timed_out') && (
+              <div className="mt-4 text-center text-sm text-red-600">
+                {payment.status === 'timed_out' ? 'Payment timed out' : 'Payment declined'}: {payment.message || 'please try another method'}
+              </div>
+            )}
+            {payment?.status === 'cancelled' && (
+              <div className="mt-4 text-center text-sm text-gray-500">Payment cancelled</div>
+            )}
           </div>
         )}
       </div>
@@ -152,6 +530,20 @@ const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machi
          </div>
       </div>
 
+      <KioskMemberPanel
+        member={member}
+        money={money}
+        rewards={rewards}
+        onLogin={onMemberLogin}
+        onLogout={onMemberLogout}
+        onTopUp={onTopUp}
+        onRedeemReward={onRedeemReward}
+      />
+
+      {stockMessage && (
+        <div className="bg-red-50 border border-red-100 text-red-700 text-sm rounded-lg px-4 py-2">{stockMessage}</div>
+      )}
+
       {/* Category Filter */}
       <div className="flex overflow-x-auto space-x-2 pb-2 no-scrollbar">
         {categories.map(cat => (
@@ -176,11 +568,21 @@ const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machi
           <div key={product.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col hover:shadow-md transition-shadow">
             <div className="relative h-40 bg-gray-100">
                <img src={product.image} alt={product.name} className="w-full h-full object-cover" />
+               {slotCodes[product.id] && (
+                 <div className="absolute top-2 left-2 bg-gray-900/80 text-white font-mono text-sm font-bold px-2 py-1 rounded-md">
+                   {slotCodes[product.id][0]}
+                 </div>
+               )}
                {product.quantity === 0 && (
                  <div className="absolute inset-0 bg-black/60 flex items-center justify-center text-white text-sm font-bold">
                    OUT OF STOCK
                  </div>
                )}
+               {hasDeal(product) && (
+                 <div className="absolute bottom-2 left-2 bg-green-600 text-white text-xs font-bold px-2 py-1 rounded-full">
+                   DEAL
+                 </div>
+               )}
                {product.quantity > 0 && product.quantity < 5 && (
                  <div className="absolute top-2 right-2 bg-red-500 text-white text-xs px-2 py-1 rounded-full">
                    Only {product.quantity} left!
@@ -193,7 +595,7 @@ const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machi
                 <p className="text-sm text-gray-500">{product.category}</p>
               </div>
               <div className="mt-4 flex items-center justify-between">
-                <span className="text-lg font-bold text-teal-700">${product.price.toFixed(2)}</span>
+                <span className="text-lg font-bold text-teal-700">{formatMoney(product.price, money)}</span>
                 <button
                   disabled={product.quantity === 0}
                   onClick={() => addToCart(product)}
@@ -223,6 +625,11 @@ const CustomerView: React.FC<CustomerViewProps> = ({ products, onPurchase, machi
   );
 };
 
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
 const PlusIcon = () => (
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <line x1="12" y1="5" x2="12" y2="19"></line>
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Plus, Search, UserCircle, Wallet, Star, X } from 'lucide-react';
+import { Customer, LoyaltyEntry, Transaction, WalletEntry, WalletEntryType } from '../types';
+import { CustomerInput, getMemberQrPayload } from '../services/customerService';
+import { formatMoney } from '../services/money';
+import QrCodeImage from './QrCodeImage';
+
+interface CustomersProps {
+  customers: Customer[];
+  walletEntries: WalletEntry[];
+  loyaltyEntries: LoyaltyEntry[];
+  transactions: Transaction[];
+  onCreateCustomer: (input: CustomerInput) => void;
+  onTopUp: (customerId: string, amount: number, note?: string) => void;
+  onAdjustWallet: (customerId: string, amount: number, note: string) => void;
+}
+
+const WALLET_ENTRY_LABELS: Record<WalletEntryType, string> = {
+  top_up: 'Top-up',
+  purchase: 'Purchase',
+  refund: 'Refund',
+  reward: 'Reward',
+  adjustment: 'Adjustment'
+};
+
+const inputClass = 'px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400 text-sm';
+
+const Customers: React.FC<CustomersProps> = ({
+  customers,
+  walletEntries,
+  loyaltyEntries,
+  transactions,
+  onCreateCustomer,
+  onTopUp,
+  onAdjustWallet
+}) => {
+  const [search, setSearch] = useState('');
+  const [newCustomer, setNewCustomer] = useState<CustomerInput | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [walletForm, setWalletForm] = useState({ mode: 'top_up' as 'top_up' | 'adjustment', amount: '', note: '' });
+
+  const term = search.trim().toLowerCase();
+  const digits = term.replace(/\D/g, '');
+  const visible = customers.filter(c => !term || c.name.toLowerCase().includes(term) || (digits !== '' && c.phone.includes(digits)));
+  const selected = customers.find(c => c.id === selectedId);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCustomer) return;
+    onCreateCustomer(newCustomer);
+    setNewCustomer(null);
+  };
+
+  const handleWallet = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const amount = parseFloat(walletForm.amount);
+    if (walletForm.mode === 'top_up') {
+      onTopUp(selected.id, amount, walletForm.note);
+    } else {
+      onAdjustWallet(selected.id, amount, walletForm.note);
+    }
+    setWalletForm({ ...walletForm, amount: '', note: '' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-800">Customers</h2>
+        <div className="flex gap-2">
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Name or phone" className={`${inputClass} pl-9`} />
+          </div>
+          <button
+            onClick={() => setNewCustomer({ name: '', phone: '' })}
+            className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Plus size={18} />
+            <span>Add Customer</span>
+          </button>
+        </div>
+      </div>
+
+      {newCustomer && (
+        <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 flex flex-wrap gap-3">
+          <input required value={newCustomer.name} onChange={e => setNewCustomer({ ...newCustomer, name: e.target.value })} placeholder="Name" className={`${inputClass} flex-1`} />
+          <input required value={newCustomer.phone} onChange={e => setNewCustomer({ ...newCustomer, phone: e.target.value })} placeholder="Phone number" className={`${inputClass} flex-1`} />
+          <button type="button" onClick={() => setNewCustomer(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
+          <button type="submit" className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium">Save</button>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-6 py-4">Customer</th>
+              <th className="px-6 py-4">Phone</th>
+              <th className="px-6 py-4 text-right">Wallet</th>
+              <th className="px-6 py-4 text-right">Points</th>
+              <th className="px-6 py-4 text-right">Member since</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visible.map(c => (
+              <tr key={c.id} onClick={() => setSelectedId(c.id)} className="hover:bg-gray-50/50 cursor-pointer">
+                <td className="px-6 py-3 font-medium text-gray-900">{c.name}</td>
+                <td className="px-6 py-3 font-mono">{c.phone}</td>
+                <td className="px-6 py-3 text-right font-mono">{formatMoney(c.walletBalance)}</td>
+                <td className="px-6 py-3 text-right font-mono">{c.points}</td>
+                <td className="px-6 py-3 text-right">{new Date(c.createdAt).toLocaleDateString()}</td>
+              </tr>
+            ))}
+            {visible.length === 0 && (
+              <tr><td colSpan={5} className="px-6 py-8 text-center text-gray-400">{customers.length === 0 ? 'No customers yet' : 'No matching customers'}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full p-6 animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-start mb-4">
+              <div className="flex items-center gap-3">
+                <UserCircle size={36} className="text-teal-600" />
+                <div>
+                  <h3 className="text-xl font-bold text-gray-800">{selected.name}</h3>
+                  <p className="text-sm text-gray-500">
+                    {selected.phone} · {formatMoney(selected.walletBalance)} wallet · {selected.points} points ·{' '}
+                    {transactions.filter(t => t.customerId === selected.id).length} purchases
+                  </p>
+                </div>
+              </div>
+              <button onClick={() => setSelectedId(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="flex flex-col items-center text-center">
+                <QrCodeImage value={getMemberQrPayload(selected)} size={160} />
+                <p className="text-xs text-gray-400 mt-2">Member QR for kiosk login</p>
+              </div>
+
+              <form onSubmit={handleWallet} className="md:col-span-2 space-y-3">
+                <div className="flex gap-2">
+                  {(['top_up', 'adjustment'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setWalletForm({ ...walletForm, mode })}
+                      className={`px-3 py-1 rounded-lg border text-sm transition-colors ${
+                        walletForm.mode === mode ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {WALLET_ENTRY_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={walletForm.mode === 'top_up' ? '0.01' : undefined}
+                    required
+                    value={walletForm.amount}
+                    onChange={e => setWalletForm({ ...walletForm, amount: e.target.value })}
+                    placeholder={walletForm.mode === 'top_up' ? 'Amount' : '+/- amount'}
+                    className={`${inputClass} w-32`}
+                  />
+                  <input
+                    required={walletForm.mode === 'adjustment'}
+                    value={walletForm.note}
+                    onChange={e => setWalletForm({ ...walletForm, note: e.target.value })}
+                    placeholder={walletForm.mode === 'top_up' ? 'Note, e.g. cash at counter' : 'Reason'}
+                    className={`${inputClass} flex-1`}
+                  />
+                  <button type="submit" className="flex items-center gap-1 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 text-sm font-medium">
+                    <Wallet size={16} /> Post
+                  </button>
+                </div>
+              </form>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6 pt-4 border-t border-gray-100">
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2"><Wallet size={16} className="text-gray-400" /> Wallet history</h4>
+                <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+                  {walletEntries.filter(w => w.customerId === selected.id).map(w => (
+                    <div key={w.id} className="py-2 flex justify-between text-xs">
+                      <div>
+                        <p className="text-gray-800 font-medium">{WALLET_ENTRY_LABELS[w.type]}{w.note && <span className="font-normal text-gray-500"> · {w.note}</span>}</p>
+                        <p className="text-gray-400">{new Date(w.timestamp).toLocaleString()}</p>
+                      </div>
+                      <div className="text-right font-mono">
+                        <p className={w.amount < 0 ? 'text-red-600' : 'text-green-600'}>{formatMoney(w.amount, undefined, { signed: true })}</p>
+                        <p className="text-gray-400">{formatMoney(w.balance)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2"><Star size={16} className="text-gray-400" /> Points history</h4>
+                <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+                  {loyaltyEntries.filter(l => l.customerId === selected.id).map(l => (
+                    <div key={l.id} className="py-2 flex justify-between text-xs">
+                      <div>
+                        <p className="text-gray-800 font-medium capitalize">{l.type}</p>
+                        <p className="text-gray-400">{new Date(l.timestamp).toLocaleString()}</p>
+                      </div>
+                      <div className="text-right font-mono">
+                        <p className={l.points < 0 ? 'text-red-600' : 'text-green-600'}>{l.points > 0 ? '+' : ''}{l.points}</p>
+                        <p className="text-gray-400">{l.balance}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Customers;
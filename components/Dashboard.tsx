@@ -10,13 +10,19 @@ import {
   LineChart,
   Line
 } from 'recharts';
-import { DollarSign, ShoppingCart, TrendingUp, AlertTriangle } from 'lucide-react';
-import { SaleRecord, Product, Machine } from '../types';
+import { DollarSign, ShoppingCart, TrendingUp, AlertTriangle, Activity, Receipt, ShoppingBasket, Link2 } from 'lucide-react';
+import { SaleRecord, Product, Machine, MachineStatusChange, CatalogItem, Transaction } from '../types';
+import MachineStatusBadge from './MachineStatusBadge';
+import { getAverageTickets, getBasketMetrics, getFrequentPairs } from '../services/transactionService';
+import { formatCurrencyAmounts, formatMoney, getFleetMoneyFormat, getMoneyFormat, sumByCurrency } from '../services/money';
 
 interface DashboardProps {
   sales: SaleRecord[];
+  transactions: Transaction[];
   products: Product[];
+  catalog: CatalogItem[];
   machines: Machine[];
+  statusChanges: MachineStatusChange[];
   selectedMachineId: string;
   onMachineChange: (id: string) => void;
 }
@@ -38,8 +44,11 @@ const StatCard = ({ title, value, subtext, icon: Icon, colorClass }: any) => (
 
 const Dashboard: React.FC<DashboardProps> = ({ 
   sales, 
+  transactions,
   products, 
+  catalog,
   machines, 
+  statusChanges,
   selectedMachineId, 
   onMachineChange 
 }) => {
@@ -51,27 +60,59 @@ const Dashboard: React.FC<DashboardProps> = ({
       : sales.filter(s => s.machineId === selectedMachineId);
   }, [sales, selectedMachineId]);
 
+  const filteredTransactions = useMemo(() => {
+    return selectedMachineId === 'all'
+      ? transactions
+      : transactions.filter(t => t.machineId === selectedMachineId);
+  }, [transactions, selectedMachineId]);
+
   const filteredProducts = useMemo(() => {
     return selectedMachineId === 'all'
       ? products
       : products.filter(p => p.machineId === selectedMachineId);
   }, [products, selectedMachineId]);
 
+  const recentStatusEvents = useMemo(() => {
+    return statusChanges
+      .filter(c => c.from !== null && (selectedMachineId === 'all' || c.machineId === selectedMachineId))
+      .slice(0, 8);
+  }, [statusChanges, selectedMachineId]);
+
   // Metrics Calculation
+  // Amounts are never converted, so with machines pricing in several
+  // currencies the money figures are given per currency
+  const totalBy = (amountOf: (s: SaleRecord) => number) =>
+    sumByCurrency(filteredSales.map(s => ({ machineId: s.machineId, amount: amountOf(s) })), machines);
   const totalRevenue = filteredSales.reduce((sum, s) => sum + s.revenue, 0);
   const totalProfit = filteredSales.reduce((sum, s) => sum + s.profit, 0);
+  const revenueByCurrency = totalBy(s => s.revenue);
+  const profitByCurrency = totalBy(s => s.profit);
+  const discountByCurrency = totalBy(s => s.discount || 0).filter(t => t.amount > 0);
+  const isMixedCurrency = revenueByCurrency.length > 1;
+  const money = selectedMachineId === 'all'
+    ? getFleetMoneyFormat(machines)
+    : getMoneyFormat(machines.find(m => m.id === selectedMachineId));
   const totalItemsSold = filteredSales.reduce((sum, s) => sum + s.quantity, 0);
   const lowStockCount = filteredProducts.filter(p => p.quantity <= p.min_quantity).length;
+  const basket = getBasketMetrics(filteredTransactions);
+  const averageTickets = getAverageTickets(filteredTransactions, machines);
+  const frequentPairs = useMemo(() => getFrequentPairs(filteredTransactions), [filteredTransactions]);
 
   // Chart Data Preparation
+  // Grouped by catalog SKU so the same item sold in several machines is one bar
   const salesByProduct = useMemo(() => {
-    const map = new Map();
+    const map = new Map<string, { name: string; revenue: number; units: number }>();
     filteredSales.forEach(s => {
-      const current = map.get(s.productName) || 0;
-      map.set(s.productName, current + s.revenue);
+      const key = s.skuId || s.productName;
+      const current = map.get(key) || {
+        name: catalog.find(c => c.id === s.skuId)?.name || s.productName,
+        revenue: 0,
+        units: 0
+      };
+      map.set(key, { ...current, revenue: current.revenue + s.revenue, units: current.units + s.quantity });
     });
-    return Array.from(map.entries()).map(([name, revenue]) => ({ name, revenue }));
-  }, [filteredSales]);
+    return Array.from(map.values()).sort((a, b) => isMixedCurrency ? b.units - a.units : b.revenue - a.revenue);
+  }, [filteredSales, catalog, isMixedCurrency]);
 
   return (
     <div className="space-y-6">
@@ -94,15 +135,15 @@ const Dashboard: React.FC<DashboardProps> = ({
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard 
           title="Total Revenue" 
-          value={`$${totalRevenue.toFixed(2)}`} 
-          subtext="+12.5% from last week"
+          value={formatCurrencyAmounts(revenueByCurrency, money)} 
+          subtext={discountByCurrency.length > 0 ? `After ${formatCurrencyAmounts(discountByCurrency, money)} in promotions` : '+12.5% from last week'}
           icon={DollarSign}
           colorClass="text-teal-600 bg-teal-600"
         />
         <StatCard 
           title="Total Profit" 
-          value={`$${totalProfit.toFixed(2)}`} 
-          subtext={`${((totalProfit / totalRevenue) * 100 || 0).toFixed(1)}% margin`}
+          value={formatCurrencyAmounts(profitByCurrency, money)} 
+          subtext={isMixedCurrency ? 'Totalled per currency' : `${((totalProfit / totalRevenue) * 100 || 0).toFixed(1)}% margin`}
           icon={TrendingUp}
           colorClass="text-emerald-600 bg-emerald-600"
         />
@@ -122,21 +163,58 @@ const Dashboard: React.FC<DashboardProps> = ({
         />
       </div>
 
+      {/* Basket Metrics */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <StatCard 
+          title="Average Ticket" 
+          value={formatCurrencyAmounts(averageTickets, money)} 
+          subtext={`${basket.transactions} transactions`}
+          icon={Receipt}
+          colorClass="text-indigo-600 bg-indigo-600"
+        />
+        <StatCard 
+          title="Basket Size" 
+          value={basket.averageItems.toFixed(1)} 
+          subtext={`${(basket.multiItemShare * 100).toFixed(0)}% of baskets have several products`}
+          icon={ShoppingBasket}
+          colorClass="text-purple-600 bg-purple-600"
+        />
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+          <h3 className="text-gray-500 text-sm font-medium mb-3 flex items-center gap-2">
+            <Link2 size={16} className="text-gray-400" /> Bought Together
+          </h3>
+          {frequentPairs.length === 0 ? (
+            <p className="text-sm text-gray-400">No multi-item baskets yet.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {frequentPairs.map(pair => (
+                <li key={pair.names.join('|')} className="flex justify-between gap-2">
+                  <span className="text-gray-700 truncate">{pair.names[0]} + {pair.names[1]}</span>
+                  <span className="text-gray-400 font-mono">{pair.count}×</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-          <h3 className="text-gray-700 font-semibold mb-6">Revenue by Product</h3>
+          <h3 className="text-gray-700 font-semibold mb-6">
+            {isMixedCurrency ? 'Units' : 'Revenue'} by SKU {selectedMachineId === 'all' && <span className="text-xs font-normal text-gray-400">(fleet-wide)</span>}
+          </h3>
           <div className="h-80 w-full">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={salesByProduct}>
                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
                 <XAxis dataKey="name" fontSize={12} tickLine={false} axisLine={false} />
-                <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
+                <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => isMixedCurrency ? value : formatMoney(value, money)} />
                 <Tooltip 
                   cursor={{ fill: '#f0fdfa' }}
                   contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
                 />
-                <Bar dataKey="revenue" fill="#0d9488" radius={[4, 4, 0, 0]} />
+                <Bar dataKey={isMixedCurrency ? 'units' : 'revenue'} fill="#0d9488" radius={[4, 4, 0, 0]} />
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -158,6 +236,33 @@ const Dashboard: React.FC<DashboardProps> = ({
           </div>
         </div>
       </div>
+
+      {/* Machine Status Events */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-gray-700 font-semibold mb-4 flex items-center gap-2">
+          <Activity size={18} className="text-gray-400" /> Machine Status Events
+        </h3>
+        {recentStatusEvents.length === 0 ? (
+          <p className="text-sm text-gray-400">No status changes recorded.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {recentStatusEvents.map(event => (
+              <li key={event.id} className="py-3 flex items-center justify-between gap-4 text-sm">
+                <div className="flex items-center gap-3 min-w-0">
+                  <MachineStatusBadge status={event.to} />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800 truncate">
+                      {machines.find(m => m.id === event.machineId)?.name || event.machineId}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">{event.reason}</p>
+                  </div>
+                </div>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{new Date(event.timestamp).toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 };
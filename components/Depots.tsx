@@ -0,0 +1,369 @@
+import React, { useState } from 'react';
+import { Warehouse, Plus, ArrowRightLeft, X, Save, MapPin } from 'lucide-react';
+import { CatalogItem, Depot, DepotStock, Machine, Product, StockLocationRef, StockTransfer } from '../types';
+import { DepotInput, TransferInput, getDepotQuantity } from '../services/depotService';
+
+interface DepotsProps {
+  depots: Depot[];
+  depotStock: DepotStock[];
+  transfers: StockTransfer[];
+  catalog: CatalogItem[];
+  products: Product[];
+  machines: Machine[];
+  onCreateDepot: (input: DepotInput) => void;
+  onSetDepotQuantity: (depotId: string, skuId: string, quantity: number) => void;
+  onCreateTransfer: (input: TransferInput) => void;
+}
+
+const Depots: React.FC<DepotsProps> = ({
+  depots,
+  depotStock,
+  transfers,
+  catalog,
+  products,
+  machines,
+  onCreateDepot,
+  onSetDepotQuantity,
+  onCreateTransfer
+}) => {
+  const [selectedDepotId, setSelectedDepotId] = useState<string | null>(null);
+  const [isDepotModalOpen, setIsDepotModalOpen] = useState(false);
+  const [depotForm, setDepotForm] = useState<DepotInput>({ name: '', location: '' });
+  const [adjustments, setAdjustments] = useState<Record<string, string>>({});
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [transferFrom, setTransferFrom] = useState<StockLocationRef>({ type: 'depot', id: '' });
+  const [transferTo, setTransferTo] = useState('');
+  const [transferQuantities, setTransferQuantities] = useState<Record<string, number>>({});
+  const [transferNote, setTransferNote] = useState('');
+
+  const selectedDepot = depots.find(d => d.id === selectedDepotId) || depots[0];
+
+  const locationName = (ref: StockLocationRef) => ref.type === 'depot'
+    ? depots.find(d => d.id === ref.id)?.name || ref.id
+    : machines.find(m => m.id === ref.id)?.name || ref.id;
+
+  // Quantity of a SKU at the chosen transfer source
+  const sourceQuantity = (skuId: string) => transferFrom.type === 'depot'
+    ? getDepotQuantity(depotStock, skuId, transferFrom.id)
+    : products.find(p => p.machineId === transferFrom.id && p.skuId === skuId)?.quantity ?? 0;
+
+  const destinationProducts = products.filter(p => p.machineId === transferTo);
+
+  const handleCreateDepot = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreateDepot(depotForm);
+    setDepotForm({ name: '', location: '' });
+    setIsDepotModalOpen(false);
+  };
+
+  const handleAdjust = (skuId: string) => {
+    if (!selectedDepot || adjustments[skuId] === undefined) return;
+    onSetDepotQuantity(selectedDepot.id, skuId, parseInt(adjustments[skuId]));
+    setAdjustments(prev => {
+      const { [skuId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const openTransfer = () => {
+    setTransferFrom(selectedDepot ? { type: 'depot', id: selectedDepot.id } : { type: 'machine', id: machines[0]?.id || '' });
+    setTransferTo(machines[0]?.id || '');
+    setTransferQuantities({});
+    setTransferNote('');
+    setIsTransferOpen(true);
+  };
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreateTransfer({
+      from: transferFrom,
+      toMachineId: transferTo,
+      note: transferNote,
+      lines: Object.entries(transferQuantities).map(([skuId, quantity]) => ({ skuId, quantity }))
+    });
+    setIsTransferOpen(false);
+  };
+
+  const inputClassName = "w-full px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400";
+
+  return (
+    <div className="space-y-6">
+      {/* New Depot Modal */}
+      {isDepotModalOpen && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-gray-800">Add Depot</h3>
+              <button onClick={() => setIsDepotModalOpen(false)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleCreateDepot} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  required
+                  value={depotForm.name}
+                  onChange={e => setDepotForm({ ...depotForm, name: e.target.value })}
+                  className={inputClassName}
+                  placeholder="e.g. North Warehouse"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                <input
+                  required
+                  value={depotForm.location}
+                  onChange={e => setDepotForm({ ...depotForm, location: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => setIsDepotModalOpen(false)}
+                  className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors font-medium">
+                  Add Depot
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Transfer Modal */}
+      {isTransferOpen && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-gray-800">New Transfer</h3>
+              <button onClick={() => setIsTransferOpen(false)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleTransfer} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <select
+                    value={`${transferFrom.type}:${transferFrom.id}`}
+                    onChange={e => {
+                      const [type, id] = e.target.value.split(':');
+                      setTransferFrom({ type: type as StockLocationRef['type'], id });
+                      setTransferQuantities({});
+                    }}
+                    className={inputClassName}
+                  >
+                    <optgroup label="Depots">
+                      {depots.map(d => <option key={d.id} value={`depot:${d.id}`}>{d.name}</option>)}
+                    </optgroup>
+                    <optgroup label="Machines">
+                      {machines.map(m => <option key={m.id} value={`machine:${m.id}`}>{m.name}</option>)}
+                    </optgroup>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To machine</label>
+                  <select
+                    value={transferTo}
+                    onChange={e => {
+                      setTransferTo(e.target.value);
+                      setTransferQuantities({});
+                    }}
+                    className={inputClassName}
+                  >
+                    {machines.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {destinationProducts.map(product => {
+                  const available = sourceQuantity(product.skuId);
+                  return (
+                    <div key={product.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <div>
+                        <p className="font-medium text-gray-800">{product.name}</p>
+                        <p className="text-xs text-gray-400">
+                          {available} available · {product.quantity} in machine
+                        </p>
+                      </div>
+                      <input
+                        type="number"
+                        min="0"
+                        max={available}
+                        value={transferQuantities[product.skuId] ?? ''}
+                        onChange={e => setTransferQuantities({ ...transferQuantities, [product.skuId]: parseInt(e.target.value) || 0 })}
+                        disabled={available === 0}
+                        className="w-20 px-2 py-1 bg-white text-gray-900 border border-gray-300 rounded-lg text-right disabled:bg-gray-50"
+                      />
+                    </div>
+                  );
+                })}
+                {destinationProducts.length === 0 && (
+                  <p className="px-3 py-4 text-center text-sm text-gray-400">The destination machine stocks no products yet.</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+                <input
+                  value={transferNote}
+                  onChange={e => setTransferNote(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Optional"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => setIsTransferOpen(false)}
+                  className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors font-medium flex items-center gap-2"
+                >
+                  <ArrowRightLeft size={18} />
+                  <span>Post Transfer</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-800">Depots</h2>
+        <div className="flex space-x-2">
+          <button
+            onClick={openTransfer}
+            disabled={machines.length === 0}
+            className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <ArrowRightLeft size={18} />
+            <span>New Transfer</span>
+          </button>
+          <button
+            onClick={() => setIsDepotModalOpen(true)}
+            className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Plus size={18} />
+            <span>Add Depot</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {depots.map(depot => (
+          <button
+            key={depot.id}
+            onClick={() => setSelectedDepotId(depot.id)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg border text-sm transition-colors ${
+              selectedDepot?.id === depot.id ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <Warehouse size={16} />
+            <span className="font-medium">{depot.name}</span>
+          </button>
+        ))}
+      </div>
+
+      {selectedDepot ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="p-4 border-b border-gray-100 flex items-center gap-2 text-sm text-gray-500">
+            <MapPin size={14} /> {selectedDepot.location}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-gray-600">
+              <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+                <tr>
+                  <th className="px-6 py-4">SKU</th>
+                  <th className="px-6 py-4">Product</th>
+                  <th className="px-6 py-4 text-center">In Machines</th>
+                  <th className="px-6 py-4 text-center">On Hand</th>
+                  <th className="px-6 py-4 text-right">Adjust</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {catalog.map(item => {
+                  const onHand = getDepotQuantity(depotStock, item.id, selectedDepot.id);
+                  const inMachines = products.filter(p => p.skuId === item.id).reduce((sum, p) => sum + p.quantity, 0);
+                  return (
+                    <tr key={item.id} className="hover:bg-gray-50/50">
+                      <td className="px-6 py-3 font-mono text-xs">{item.sku}</td>
+                      <td className="px-6 py-3 font-medium text-gray-900">{item.name}</td>
+                      <td className="px-6 py-3 text-center font-mono">{inMachines}</td>
+                      <td className={`px-6 py-3 text-center font-mono ${onHand === 0 ? 'text-red-600 font-bold' : ''}`}>{onHand}</td>
+                      <td className="px-6 py-3 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <input
+                            type="number"
+                            min="0"
+                            value={adjustments[item.id] ?? onHand}
+                            onChange={e => setAdjustments({ ...adjustments, [item.id]: e.target.value })}
+                            className="w-20 px-2 py-1 bg-white text-gray-900 border border-gray-300 rounded-lg text-right"
+                          />
+                          <button
+                            onClick={() => handleAdjust(item.id)}
+                            disabled={adjustments[item.id] === undefined}
+                            className="p-1.5 text-gray-500 hover:text-teal-600 hover:bg-teal-50 rounded transition-colors disabled:opacity-30"
+                            title="Save quantity"
+                          >
+                            <Save size={16} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">No depots yet. Add one to track stock outside your machines.</p>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+        <h3 className="text-gray-700 font-semibold mb-3">Recent Transfers</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 uppercase text-xs font-semibold">
+              <tr>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">From</th>
+                <th className="px-4 py-3">To</th>
+                <th className="px-4 py-3">Items</th>
+                <th className="px-4 py-3">Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.slice(0, 20).map(t => (
+                <tr key={t.id} className="border-t border-gray-100">
+                  <td className="px-4 py-3">{new Date(t.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-3">{locationName(t.from)}</td>
+                  <td className="px-4 py-3">{locationName({ type: 'machine', id: t.toMachineId })}</td>
+                  <td className="px-4 py-3 text-xs">{t.lines.map(l => `${l.quantity}× ${l.productName}`).join(', ')}</td>
+                  <td className="px-4 py-3 text-xs text-gray-400">{t.note || '-'}</td>
+                </tr>
+              ))}
+              {transfers.length === 0 && (
+                <tr><td colSpan={5} className="px-4 py-6 text-center text-gray-400">No transfers yet</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Depots;
@@ -1,21 +1,58 @@
-import React, { useState } from 'react';
-import { Product, Machine, SaleRecord } from '../types';
-import { Edit2, Trash2, Plus, Sparkles, X, Loader2, Wand2, AlertTriangle, Save } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Product, Machine, SaleRecord, Planogram, CatalogItem, StockRecord, StockLot, DepotStock, InventoryMovement, StockCount, WriteOffReason, PriceList } from '../types';
+import { Edit2, Trash2, Plus, Sparkles, X, Loader2, Wand2, AlertTriangle, Save, History, ClipboardCheck, PackageX } from 'lucide-react';
+import MovementHistoryDrawer from './MovementHistoryDrawer';
+import StockCountPanel from './StockCountPanel';
 import { generateBusinessInsight, generateProductImage, suggestOptimalPrice } from '../services/geminiService';
+import { getProductCapacity, getProductSlotCodes } from '../services/planogramService';
+import { countMachinesStocking, createCatalogItem, nextSkuCode } from '../services/catalogService';
+import { getActiveLots } from '../services/lotService';
+import { DEFAULT_COVER_DAYS, PickLine, planPickList } from '../services/restockPlanner';
+import { getDepotQuantity } from '../services/depotService';
+import { WRITE_OFF_REASON_LABELS } from '../services/wasteService';
+import { formatMoney, getMoneyFormat } from '../services/money';
+import { forecastProducts, toForecastSummary } from '../services/forecastService';
+import { PRICE_ENTRY_STATUS_LABELS, formatPriceBand, getPriceHistory } from '../services/priceListService';
 
 interface InventoryProps {
   products: Product[];
+  catalog: CatalogItem[];
+  stock: StockRecord[];
   machines: Machine[];
   sales: SaleRecord[];
-  onUpdateProduct: (product: Product) => void;
+  planograms: Planogram[];
+  lots: StockLot[];
+  depotStock: DepotStock[];
+  movements: InventoryMovement[];
+  stockCounts: StockCount[];
+  priceLists: PriceList[];
+  onTestPrice: (product: Product, price: number) => void; // Starts a price experiment
+  onPostStockCount: (machineId: string, counts: Record<string, number>, countedBy: string, threshold: number, notes?: string) => void;
+  onReceiveLot: (productId: string, quantity: number, expiryDate: number, lotNumber?: string) => boolean; // False when refused
+  onWriteOffExpired: (productIds?: string[]) => void;
+  onWriteOff: (productId: string, quantity: number, reason: WriteOffReason, lotId?: string, note?: string) => boolean; // False when refused
+  onUpdateProduct: (product: Product, reason?: string) => void;
   onDeleteProduct: (id: string) => void;
   onAddProduct: (product: Product) => void;
 }
 
 const Inventory: React.FC<InventoryProps> = ({ 
   products, 
+  catalog,
+  stock,
   machines,
   sales,
+  planograms,
+  lots,
+  depotStock,
+  movements,
+  stockCounts,
+  priceLists,
+  onTestPrice,
+  onPostStockCount,
+  onReceiveLot,
+  onWriteOffExpired,
+  onWriteOff,
   onUpdateProduct,
   onDeleteProduct,
   onAddProduct
@@ -23,12 +60,18 @@ const Inventory: React.FC<InventoryProps> = ({
   const [searchTerm, setSearchTerm] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [aiSuggestion, setAiSuggestion] = useState<string | null>(null);
+  const [reorderPlan, setReorderPlan] = useState<PickLine[] | null>(null);
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null);
+  const [isCountOpen, setIsCountOpen] = useState(false);
 
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalMode, setModalMode] = useState<'add' | 'edit'>('add');
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [currentProduct, setCurrentProduct] = useState<Partial<Product>>({
+    skuId: '',
+    sku: '',
+    barcode: '',
     name: '',
     category: 'Snack',
     price: 1.00,
@@ -40,6 +83,18 @@ const Inventory: React.FC<InventoryProps> = ({
     expiryDate: Date.now() + 30 * 86400000 
   });
 
+  // Why the quantity was changed by hand (edit mode); recorded on the ledger
+  const [adjustmentReason, setAdjustmentReason] = useState('');
+
+  // New lot form (edit mode)
+  const [newLot, setNewLot] = useState({ lotNumber: '', quantity: 10, expiryDate: Date.now() + 30 * 86400000 });
+
+  // Lot being pulled from the machine (edit mode)
+  const [lotWriteOff, setLotWriteOff] = useState<{ lotId: string; quantity: number; reason: WriteOffReason; note: string } | null>(null);
+
+  // Prices are in the currency of the machine selling the product
+  const moneyFor = (machineId?: string) => getMoneyFormat(machines.find(m => m.id === machineId));
+
   // Price Suggestion State
   const [priceSuggestion, setPriceSuggestion] = useState<{
     isOpen: boolean;
@@ -55,16 +110,22 @@ const Inventory: React.FC<InventoryProps> = ({
     isLoading: false
   });
 
+  const forecasts = useMemo(() => forecastProducts(products, sales), [products, sales]);
+
   const filteredProducts = products.filter(p => 
     p.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
     p.category.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // The quantities come from the deterministic planner; the AI only comments on them
   const handleSmartRestock = async () => {
+    const plan = planPickList(products, planograms, sales);
+    setReorderPlan(plan);
     setIsAnalyzing(true);
+    const summary = plan.map(line => `${line.product.name} (${line.product.machineId}): load ${line.quantity}, ${line.dailyVelocity.toFixed(1)}/day`).join('\n');
     const insight = await generateBusinessInsight(
-      "Analyze the current inventory levels. Suggest reorder quantities for items below minimum quantity. Format as a bulleted list.",
-      { products, sales: [], machines }
+      `This restock plan was computed from minimum quantities, sales velocity and slot capacity:\n${summary || 'Nothing to restock.'}\nBriefly point out anything notable about it, such as products the demand forecast expects to run out before the plan covers them. Do not change the quantities.`,
+      { products, sales: [], machines, forecasts: products.map(p => toForecastSummary(forecasts[p.id], p)) }
     );
     setAiSuggestion(insight);
     setIsAnalyzing(false);
@@ -84,7 +145,8 @@ const Inventory: React.FC<InventoryProps> = ({
       isLoading: true
     });
 
-    const result = await suggestOptimalPrice(tempProduct, sales);
+    const forecast = product.id ? forecasts[product.id] : undefined;
+    const result = await suggestOptimalPrice(tempProduct, sales, moneyFor(product.machineId), forecast && toForecastSummary(forecast, tempProduct));
 
     if (result) {
       setPriceSuggestion({
@@ -109,6 +171,16 @@ const Inventory: React.FC<InventoryProps> = ({
     }
   };
 
+  // Only a saved product can be tested; the experiment starts from its live price
+  const testedProduct = products.find(p => p.id === priceSuggestion.product?.id);
+
+  const testSuggestedPrice = () => {
+    if (!testedProduct) return;
+    setPriceSuggestion({ ...priceSuggestion, isOpen: false });
+    setIsModalOpen(false);
+    onTestPrice(testedProduct, priceSuggestion.suggestedPrice);
+  };
+
   const handleGenerateImage = async () => {
     if (!currentProduct.name) return;
     setIsGeneratingImage(true);
@@ -122,6 +194,9 @@ const Inventory: React.FC<InventoryProps> = ({
   const openAddModal = () => {
     setModalMode('add');
     setCurrentProduct({
+      skuId: '',
+      sku: '',
+      barcode: '',
       name: '',
       category: 'Snack',
       price: 1.00,
@@ -135,8 +210,19 @@ const Inventory: React.FC<InventoryProps> = ({
     setIsModalOpen(true);
   };
 
+  // Picking an existing SKU pulls its shared catalog fields into the form
+  const handleSelectSku = (skuId: string) => {
+    const item = catalog.find(c => c.id === skuId);
+    setCurrentProduct(prev => item
+      ? { ...prev, skuId: item.id, sku: item.sku, barcode: item.barcode, name: item.name, category: item.category, cost: item.cost, image: item.image }
+      : { ...prev, skuId: '', sku: '', barcode: '', name: '', image: '' });
+  };
+
   const openEditModal = (product: Product) => {
     setModalMode('edit');
+    setNewLot({ lotNumber: '', quantity: 10, expiryDate: Date.now() + 30 * 86400000 });
+    setAdjustmentReason('');
+    setLotWriteOff(null);
     setCurrentProduct({ ...product });
     setIsModalOpen(true);
   };
@@ -148,9 +234,52 @@ const Inventory: React.FC<InventoryProps> = ({
       return;
     }
 
+    // Stock can never exceed what the product's slots physically hold
+    const slotCapacity = currentProduct.id
+      ? getProductCapacity(planograms, currentProduct as Product)
+      : undefined;
+    if (slotCapacity !== undefined && Number(currentProduct.quantity) > slotCapacity) {
+      alert(`Quantity exceeds slot capacity (${slotCapacity}). Add slots in the machine's planogram to stock more.`);
+      return;
+    }
+
+    // SKU codes and barcodes must stay unique across the catalog
+    const otherSkus = catalog.filter(c => c.id !== currentProduct.skuId);
+    if (currentProduct.sku && otherSkus.some(c => c.sku === currentProduct.sku)) {
+      alert(`SKU ${currentProduct.sku} already exists in the catalog`);
+      return;
+    }
+    if (currentProduct.barcode && otherSkus.some(c => c.barcode === currentProduct.barcode)) {
+      alert(`Barcode ${currentProduct.barcode} is already assigned to another SKU`);
+      return;
+    }
+
     if (modalMode === 'add') {
+      let skuId = currentProduct.skuId;
+      let sku = currentProduct.sku || '';
+      if (!skuId) {
+        try {
+          const item = createCatalogItem({
+            sku: currentProduct.sku,
+            barcode: currentProduct.barcode || '',
+            name: currentProduct.name,
+            category: currentProduct.category || 'Snack',
+            cost: Number(currentProduct.cost),
+            image: currentProduct.image || 'https://picsum.photos/200'
+          }, catalog);
+          skuId = item.id;
+          sku = item.sku;
+        } catch (error) {
+          alert((error as Error).message);
+          return;
+        }
+      }
+
       const productToAdd: Product = {
         id: `p-${Date.now()}`,
+        skuId,
+        sku,
+        barcode: currentProduct.barcode || '',
         name: currentProduct.name,
         category: currentProduct.category || 'Snack',
         price: Number(currentProduct.price),
@@ -163,16 +292,75 @@ const Inventory: React.FC<InventoryProps> = ({
       };
       onAddProduct(productToAdd);
     } else {
-      onUpdateProduct(currentProduct as Product);
+      onUpdateProduct(currentProduct as Product, adjustmentReason.trim() || undefined);
     }
 
     setIsModalOpen(false);
   };
 
+  const handleReceiveLot = () => {
+    if (!currentProduct.id) return;
+    const capacity = getProductCapacity(planograms, currentProduct as Product);
+    const onHand = stock.find(s => s.id === currentProduct.id)?.quantity || 0;
+    if (capacity !== undefined && onHand + newLot.quantity > capacity) {
+      alert(`Only ${Math.max(0, capacity - onHand)} more unit(s) fit in this product's slots.`);
+      return;
+    }
+    if (!onReceiveLot(currentProduct.id, newLot.quantity, newLot.expiryDate, newLot.lotNumber)) return;
+    setCurrentProduct(prev => ({ ...prev, quantity: onHand + newLot.quantity }));
+    setNewLot({ lotNumber: '', quantity: 10, expiryDate: Date.now() + 30 * 86400000 });
+  };
+
+  const handleWriteOffLot = () => {
+    if (!currentProduct.id || !lotWriteOff) return;
+    const onHand = stock.find(s => s.id === currentProduct.id)?.quantity || 0;
+    if (!onWriteOff(currentProduct.id, lotWriteOff.quantity, lotWriteOff.reason, lotWriteOff.lotId, lotWriteOff.note)) return;
+    setCurrentProduct(prev => ({ ...prev, quantity: Math.max(0, onHand - lotWriteOff.quantity) }));
+    setLotWriteOff(null);
+  };
+
+  const editingLots = modalMode === 'edit' && currentProduct.id ? getActiveLots(lots, currentProduct.id) : [];
+
+  const sharedMachineCount = currentProduct.skuId ? countMachinesStocking(stock, currentProduct.skuId) : 0;
+
+  const editCapacity = modalMode === 'edit' && currentProduct.id
+    ? getProductCapacity(planograms, currentProduct as Product)
+    : undefined;
+
+  const isQuantityChanged = modalMode === 'edit' &&
+    Number(currentProduct.quantity) !== stock.find(s => s.id === currentProduct.id)?.quantity;
+
+  const historyProduct = products.find(p => p.id === historyProductId);
+
+  const editingMachine = machines.find(m => m.id === currentProduct.machineId);
+  const priceHistory = modalMode === 'edit' && currentProduct.skuId && currentProduct.price !== undefined
+    ? getPriceHistory({ skuId: currentProduct.skuId, price: currentProduct.price }, editingMachine, priceLists)
+    : [];
+  const currentListPrice = priceHistory.find(row => row.status === 'current');
+
   const inputClassName = "w-full px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400";
 
   return (
     <div className="space-y-6 relative">
+      {isCountOpen && (
+        <StockCountPanel
+          machines={machines.filter(m => products.some(p => p.machineId === m.id))}
+          products={products}
+          planograms={planograms}
+          stockCounts={stockCounts}
+          onPostStockCount={onPostStockCount}
+          onClose={() => setIsCountOpen(false)}
+        />
+      )}
+
+      {historyProduct && (
+        <MovementHistoryDrawer
+          product={historyProduct}
+          movements={movements}
+          onClose={() => setHistoryProductId(null)}
+        />
+      )}
+
       {/* Price Suggestion Popup (Nested Modal) */}
       {priceSuggestion.isOpen && (
         <div className="fixed inset-0 bg-black/60 z-[70] flex items-center justify-center p-4">
@@ -200,11 +388,11 @@ const Inventory: React.FC<InventoryProps> = ({
                  <div className="flex items-center justify-between bg-gray-50 p-4 rounded-lg">
                   <div>
                     <p className="text-sm text-gray-500">Current</p>
-                    <p className="text-xl font-bold text-gray-800">${priceSuggestion.product?.price?.toFixed(2)}</p>
+                    <p className="text-xl font-bold text-gray-800">{priceSuggestion.product?.price !== undefined && formatMoney(priceSuggestion.product.price, moneyFor(priceSuggestion.product.machineId))}</p>
                   </div>
                   <div className="text-right">
                     <p className="text-sm text-indigo-600 font-medium">Suggested</p>
-                    <p className="text-2xl font-bold text-indigo-700">${priceSuggestion.suggestedPrice.toFixed(2)}</p>
+                    <p className="text-2xl font-bold text-indigo-700">{formatMoney(priceSuggestion.suggestedPrice, moneyFor(priceSuggestion.product?.machineId))}</p>
                   </div>
                 </div>
                 <div className="bg-indigo-50 p-4 rounded-lg border border-indigo-100 text-sm text-indigo-800 leading-relaxed">
@@ -216,6 +404,14 @@ const Inventory: React.FC<InventoryProps> = ({
                 >
                   Apply Suggestion
                 </button>
+                {testedProduct && testedProduct.price !== priceSuggestion.suggestedPrice && (
+                  <button
+                    onClick={testSuggestedPrice}
+                    className="w-full -mt-3 px-4 py-3 text-indigo-700 border border-indigo-200 rounded-lg hover:bg-indigo-50 font-medium"
+                  >
+                    Test Against the Current Price
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -238,6 +434,52 @@ const Inventory: React.FC<InventoryProps> = ({
             
             <form onSubmit={handleModalSubmit} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+
+                {/* Catalog SKU */}
+                {modalMode === 'add' && (
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Catalog SKU</label>
+                    <select
+                      value={currentProduct.skuId}
+                      onChange={e => handleSelectSku(e.target.value)}
+                      className={inputClassName}
+                    >
+                      <option value="">+ New SKU</option>
+                      {catalog.map(item => (
+                        <option key={item.id} value={item.id}>{item.sku} · {item.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {sharedMachineCount > (modalMode === 'add' ? 0 : 1) && (
+                  <div className="md:col-span-2 text-sm text-indigo-800 bg-indigo-50 border border-indigo-100 rounded-lg p-3">
+                    Name, category, cost, image, SKU and barcode are shared by all {sharedMachineCount} machine(s) stocking this SKU.
+                    Price, quantity and expiry are per machine.
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">SKU Code</label>
+                  <input
+                    type="text"
+                    value={currentProduct.sku}
+                    onChange={e => setCurrentProduct({...currentProduct, sku: e.target.value})}
+                    className={inputClassName}
+                    placeholder={nextSkuCode(catalog)}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Barcode</label>
+                  <input
+                    type="text"
+                    value={currentProduct.barcode}
+                    onChange={e => setCurrentProduct({...currentProduct, barcode: e.target.value})}
+                    className={inputClassName}
+                    placeholder="EAN / UPC"
+                  />
+                </div>
                 
                 {/* Image Section */}
                 <div className="col-span-1 md:col-span-2">
@@ -315,7 +557,7 @@ const Inventory: React.FC<InventoryProps> = ({
 
                 {/* Pricing with AI */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Price ($)</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Shelf Price ({moneyFor(currentProduct.machineId).currency})</label>
                   <div className="flex gap-2">
                     <input 
                       type="number" 
@@ -337,7 +579,7 @@ const Inventory: React.FC<InventoryProps> = ({
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Cost ($)</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cost ({moneyFor(currentProduct.machineId).currency})</label>
                   <input 
                     type="number" 
                     step="0.01"
@@ -349,14 +591,26 @@ const Inventory: React.FC<InventoryProps> = ({
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Quantity{editCapacity !== undefined && <span className="text-gray-400 font-normal"> (max {editCapacity})</span>}
+                  </label>
                   <input 
                     type="number" 
                     min="0"
+                    max={editCapacity}
                     value={currentProduct.quantity}
                     onChange={e => setCurrentProduct({...currentProduct, quantity: parseInt(e.target.value)})}
                     className={inputClassName}
                   />
+                  {isQuantityChanged && (
+                    <input
+                      required
+                      value={adjustmentReason}
+                      onChange={e => setAdjustmentReason(e.target.value)}
+                      placeholder="Reason for the change, e.g. recount"
+                      className={`${inputClassName} mt-2 text-sm`}
+                    />
+                  )}
                 </div>
 
                 <div>
@@ -371,7 +625,9 @@ const Inventory: React.FC<InventoryProps> = ({
                 </div>
 
                  <div className="col-span-1 md:col-span-2">
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Expiry Date</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Expiry Date {modalMode === 'edit' && <span className="text-gray-400 font-normal">(used for stock added via Quantity)</span>}
+                  </label>
                   <input 
                     type="date" 
                     value={currentProduct.expiryDate ? new Date(currentProduct.expiryDate).toISOString().split('T')[0] : ''}
@@ -379,6 +635,173 @@ const Inventory: React.FC<InventoryProps> = ({
                     className={inputClassName}
                   />
                 </div>
+
+                {/* Lots (edit mode) */}
+                {modalMode === 'edit' && (
+                  <div className="col-span-1 md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Lots (first-expired-first-out)</label>
+                    <div className="border border-gray-200 rounded-lg overflow-hidden">
+                      <table className="w-full text-left text-xs text-gray-600">
+                        <thead className="bg-gray-50 uppercase font-semibold text-gray-500">
+                          <tr>
+                            <th className="px-3 py-2">Lot</th>
+                            <th className="px-3 py-2">Received</th>
+                            <th className="px-3 py-2">Expiry</th>
+                            <th className="px-3 py-2 text-right">Qty</th>
+                            <th className="px-3 py-2"></th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {editingLots.map(lot => (
+                            <tr key={lot.id}>
+                              <td className="px-3 py-2 font-mono">{lot.lotNumber}</td>
+                              <td className="px-3 py-2">{new Date(lot.receivedAt).toLocaleDateString()}</td>
+                              <td className={`px-3 py-2 ${lot.expiryDate < Date.now() ? 'text-red-600 font-bold' : ''}`}>
+                                {new Date(lot.expiryDate).toLocaleDateString()}
+                              </td>
+                              <td className="px-3 py-2 text-right font-mono">{lot.quantity}</td>
+                              <td className="px-3 py-2 text-right">
+                                <button
+                                  type="button"
+                                  onClick={() => setLotWriteOff({
+                                    lotId: lot.id,
+                                    quantity: lot.quantity,
+                                    reason: lot.expiryDate < Date.now() ? 'expired' : 'damaged',
+                                    note: ''
+                                  })}
+                                  className="text-red-600 hover:text-red-700 font-medium"
+                                >
+                                  Write off
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                          {editingLots.length === 0 && (
+                            <tr><td colSpan={5} className="px-3 py-3 text-center text-gray-400">No stock on hand</td></tr>
+                          )}
+                        </tbody>
+                      </table>
+                      {lotWriteOff && (
+                        <div className="flex flex-wrap gap-2 items-end p-3 bg-red-50 border-t border-red-100">
+                          <span className="text-xs text-red-700 font-medium self-center">
+                            Write off lot {editingLots.find(l => l.id === lotWriteOff.lotId)?.lotNumber}
+                          </span>
+                          <input
+                            type="number"
+                            min="1"
+                            max={editingLots.find(l => l.id === lotWriteOff.lotId)?.quantity}
+                            value={lotWriteOff.quantity}
+                            onChange={e => setLotWriteOff({ ...lotWriteOff, quantity: parseInt(e.target.value) })}
+                            className={`${inputClassName} text-xs w-20`}
+                          />
+                          <select
+                            value={lotWriteOff.reason}
+                            onChange={e => setLotWriteOff({ ...lotWriteOff, reason: e.target.value as WriteOffReason })}
+                            className={`${inputClassName} text-xs w-32`}
+                          >
+                            {(Object.keys(WRITE_OFF_REASON_LABELS) as WriteOffReason[]).map(reason => (
+                              <option key={reason} value={reason}>{WRITE_OFF_REASON_LABELS[reason]}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={lotWriteOff.note}
+                            onChange={e => setLotWriteOff({ ...lotWriteOff, note: e.target.value })}
+                            placeholder="Note (optional)"
+                            className={`${inputClassName} text-xs flex-1 min-w-[120px]`}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setLotWriteOff(null)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 text-xs font-medium"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            type="button"
+                            onClick={handleWriteOffLot}
+                            className="px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-xs font-medium"
+                          >
+                            Dispose
+                          </button>
+                        </div>
+                      )}
+                      <div className="flex flex-wrap gap-2 items-end p-3 bg-gray-50 border-t border-gray-200">
+                        <input
+                          type="text"
+                          value={newLot.lotNumber}
+                          onChange={e => setNewLot({ ...newLot, lotNumber: e.target.value })}
+                          placeholder="Lot # (optional)"
+                          className={`${inputClassName} text-xs flex-1 min-w-[120px]`}
+                        />
+                        <input
+                          type="number"
+                          min="1"
+                          value={newLot.quantity}
+                          onChange={e => setNewLot({ ...newLot, quantity: parseInt(e.target.value) })}
+                          className={`${inputClassName} text-xs w-20`}
+                        />
+                        <input
+                          type="date"
+                          value={new Date(newLot.expiryDate).toISOString().split('T')[0]}
+                          onChange={e => setNewLot({ ...newLot, expiryDate: new Date(e.target.value).getTime() })}
+                          className={`${inputClassName} text-xs w-36`}
+                        />
+                        <button
+                          type="button"
+                          onClick={handleReceiveLot}
+                          className="px-3 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 text-xs font-medium"
+                        >
+                          Receive Lot
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Price history (edit mode) */}
+                {modalMode === 'edit' && (
+                  <div className="col-span-1 md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Price history</label>
+                    <div className="border border-gray-200 rounded-lg overflow-hidden">
+                      <table className="w-full text-left text-xs text-gray-600">
+                        <thead className="bg-gray-50 uppercase font-semibold text-gray-500">
+                          <tr>
+                            <th className="px-3 py-2">Price list</th>
+                            <th className="px-3 py-2">Effective</th>
+                            <th className="px-3 py-2">Band</th>
+                            <th className="px-3 py-2 text-right">Price</th>
+                            <th className="px-3 py-2">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {priceHistory.map(row => (
+                            <tr key={row.entry.id} className={row.status === 'current' ? 'bg-teal-50/50' : ''}>
+                              <td className="px-3 py-2">{row.priceListName}</td>
+                              <td className="px-3 py-2">
+                                {new Date(row.entry.effectiveFrom).toLocaleString()}
+                                {row.entry.effectiveUntil !== undefined && ` – ${new Date(row.entry.effectiveUntil).toLocaleString()}`}
+                              </td>
+                              <td className="px-3 py-2">{formatPriceBand(row.entry)}</td>
+                              <td className="px-3 py-2 text-right font-mono">{formatMoney(row.entry.price, moneyFor(currentProduct.machineId))}</td>
+                              <td className={`px-3 py-2 ${row.status === 'current' ? 'text-teal-700 font-medium' : 'text-gray-400'}`}>
+                                {PRICE_ENTRY_STATUS_LABELS[row.status]}
+                              </td>
+                            </tr>
+                          ))}
+                          {priceHistory.length === 0 && (
+                            <tr><td colSpan={5} className="px-3 py-3 text-center text-gray-400">No price list prices this product here</td></tr>
+                          )}
+                        </tbody>
+                      </table>
+                      <p className="px-3 py-2 bg-gray-50 border-t border-gray-200 text-xs text-gray-500">
+                        {currentListPrice
+                          ? `Selling at ${formatMoney(currentListPrice.entry.price, moneyFor(currentProduct.machineId))} from ${currentListPrice.priceListName}; the shelf price applies when no list price is in effect.`
+                          : 'Selling at the shelf price.'}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
 
               <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
@@ -405,7 +828,14 @@ const Inventory: React.FC<InventoryProps> = ({
       <div className="flex flex-col sm:flex-row justify-between gap-4">
         <h2 className="text-xl font-bold text-gray-800">Inventory Management</h2>
         <div className="flex space-x-2">
-           <button 
+           <button
+            onClick={() => setIsCountOpen(true)}
+            className="flex items-center space-x-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg transition-colors"
+          >
+            <ClipboardCheck size={18} />
+            <span>Count Stock</span>
+          </button>
+          <button 
             onClick={handleSmartRestock}
             className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-colors"
             disabled={isAnalyzing}
@@ -423,16 +853,48 @@ const Inventory: React.FC<InventoryProps> = ({
         </div>
       </div>
 
-      {aiSuggestion && (
+      {reorderPlan && (
         <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 animate-fade-in">
           <div className="flex items-start space-x-3">
             <BotIcon className="text-indigo-600 mt-1 flex-shrink-0" />
-            <div>
-              <h4 className="font-semibold text-indigo-900">AI Reorder Suggestions</h4>
-              <p className="text-indigo-800 text-sm whitespace-pre-wrap mt-1">{aiSuggestion}</p>
+            <div className="flex-1">
+              <h4 className="font-semibold text-indigo-900">Reorder Plan</h4>
+              {reorderPlan.length === 0 ? (
+                <p className="text-indigo-800 text-sm mt-1">Every product is stocked for the next few days.</p>
+              ) : (
+                <table className="w-full text-left text-sm text-indigo-900 mt-2">
+                  <thead className="text-xs uppercase text-indigo-500">
+                    <tr>
+                      <th className="py-1">Product</th>
+                      <th className="py-1">Machine</th>
+                      <th className="py-1 text-right">On hand</th>
+                      <th className="py-1 text-right">Sells/day</th>
+                      <th className="py-1 text-right">In depots</th>
+                      <th className="py-1 text-right">Load</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reorderPlan.map(line => (
+                      <tr key={line.product.id} className="border-t border-indigo-100">
+                        <td className="py-1">{line.product.name}</td>
+                        <td className="py-1">{machines.find(m => m.id === line.product.machineId)?.name || line.product.machineId}</td>
+                        <td className="py-1 text-right font-mono">{line.product.quantity}</td>
+                        <td className="py-1 text-right font-mono">{line.dailyVelocity.toFixed(1)}</td>
+                        <td className={`py-1 text-right font-mono ${getDepotQuantity(depotStock, line.product.skuId) < line.quantity ? 'text-red-600 font-bold' : ''}`}>
+                          {getDepotQuantity(depotStock, line.product.skuId)}
+                        </td>
+                        <td className="py-1 text-right font-mono font-bold">+{line.quantity}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {isAnalyzing && <p className="text-indigo-500 text-xs mt-2">Asking the AI for commentary...</p>}
+              {aiSuggestion && <p className="text-indigo-800 text-sm whitespace-pre-wrap mt-2">{aiSuggestion}</p>}
+              <p className="text-xs text-indigo-500 mt-2">Plan a route and create driver work orders from the Restock Routes tab.</p>
             </div>
             <button 
-              onClick={() => setAiSuggestion(null)} 
+              onClick={() => { setReorderPlan(null); setAiSuggestion(null); }} 
               className="text-indigo-400 hover:text-indigo-600 ml-auto"
             >
               <X size={18} />
@@ -459,8 +921,12 @@ const Inventory: React.FC<InventoryProps> = ({
                 <th className="px-6 py-4">Product</th>
                 <th className="px-6 py-4">Category</th>
                 <th className="px-6 py-4">Machine</th>
+                <th className="px-6 py-4">Slots</th>
                 <th className="px-6 py-4 text-center">Price</th>
                 <th className="px-6 py-4 text-center">Stock</th>
+                <th className="px-6 py-4 text-center" title="Units of this SKU held in depots">Available</th>
+                <th className="px-6 py-4 text-center" title="Forecast units per day, with weekday patterns">Demand</th>
+                <th className="px-6 py-4 text-center" title="Days until the forecast demand empties the machine">Cover</th>
                 <th className="px-6 py-4 text-center">Expiry</th>
                 <th className="px-6 py-4 text-center">Status</th>
                 <th className="px-6 py-4 text-right">Actions</th>
@@ -470,8 +936,15 @@ const Inventory: React.FC<InventoryProps> = ({
               {filteredProducts.map((product) => {
                 const isLowStock = product.quantity <= product.min_quantity;
                 const machine = machines.find(m => m.id === product.machineId);
-                const isExpired = product.expiryDate && product.expiryDate < Date.now();
+                const productLots = getActiveLots(lots, product.id);
+                const expiredLots = productLots.filter(l => l.expiryDate < Date.now());
+                const isExpired = expiredLots.length > 0;
                 const isNearExpiry = product.expiryDate && product.expiryDate < Date.now() + 7 * 24 * 60 * 60 * 1000 && !isExpired;
+                const slotCodes = getProductSlotCodes(planograms.find(p => p.machineId === product.machineId), product.id);
+                const capacity = getProductCapacity(planograms, product);
+                const depotQuantity = getDepotQuantity(depotStock, product.skuId);
+                const forecast = forecasts[product.id];
+                const isStockOutSoon = forecast.daysOfCover !== null && forecast.daysOfCover <= DEFAULT_COVER_DAYS;
 
                 return (
                   <tr key={product.id} className="hover:bg-gray-50/50">
@@ -481,26 +954,63 @@ const Inventory: React.FC<InventoryProps> = ({
                         alt={product.name} 
                         className="w-10 h-10 rounded-md object-cover bg-gray-200"
                       />
-                      <span>{product.name}</span>
+                      <div>
+                        <span>{product.name}</span>
+                        <p className="text-xs text-gray-400 font-mono font-normal">{product.sku}</p>
+                      </div>
                     </td>
                     <td className="px-6 py-4">{product.category}</td>
                     <td className="px-6 py-4 text-xs text-gray-500">
                       {machine ? machine.location : 'Unknown'}
                     </td>
+                    <td className="px-6 py-4 font-mono text-xs">
+                      {slotCodes.length ? slotCodes.join(', ') : <span className="text-gray-400">Unslotted</span>}
+                    </td>
                     
                     <td className="px-6 py-4 text-center font-medium">
-                      ${product.price.toFixed(2)}
+                      {formatMoney(product.price, moneyFor(product.machineId))}
                     </td>
 
                     <td className="px-6 py-4 text-center font-mono">
                       {product.quantity}
+                      {capacity !== undefined && <span className="text-gray-400 text-xs">/{capacity}</span>}
+                    </td>
+
+                    <td className={`px-6 py-4 text-center font-mono ${isLowStock && depotQuantity === 0 ? 'text-red-600 font-bold' : 'text-gray-500'}`}>
+                      {depotQuantity}
+                    </td>
+
+                    <td
+                      className="px-6 py-4 text-center font-mono text-xs"
+                      title={`Next 7 days: ${forecast.nextDays.map(d => d.toFixed(1)).join(', ')}\nLast 7 days: ${forecast.movingAverage.toFixed(1)}/day\nFitted to ${forecast.historyDays} days of sales`}
+                    >
+                      {forecast.historyDays > 0 ? `${forecast.dailyDemand.toFixed(1)}/day` : <span className="text-gray-400">No history</span>}
+                    </td>
+
+                    <td className={`px-6 py-4 text-center text-xs ${isStockOutSoon ? 'text-red-600 font-bold' : 'text-gray-500'}`}>
+                      {forecast.daysOfCover === null ? '-' : (
+                        <>
+                          <span className="font-mono">{forecast.daysOfCover.toFixed(1)}d</span>
+                          {forecast.stockOutDate !== null && (
+                            <span className="block font-normal">{forecast.daysOfCover === 0 ? 'Out of stock' : `Out ${new Date(forecast.stockOutDate).toLocaleDateString()}`}</span>
+                          )}
+                        </>
+                      )}
                     </td>
                     
                     <td className="px-6 py-4 text-center text-xs">
-                       <span className={`flex items-center justify-center gap-1 ${isExpired ? 'text-red-600 font-bold' : isNearExpiry ? 'text-orange-600 font-medium' : 'text-gray-500'}`}>
-                         {product.expiryDate ? new Date(product.expiryDate).toLocaleDateString() : '-'}
+                       <span
+                         className={`flex items-center justify-center gap-1 ${isExpired ? 'text-red-600 font-bold' : isNearExpiry ? 'text-orange-600 font-medium' : 'text-gray-500'}`}
+                         title={productLots.map(l => `${l.lotNumber}: ${l.quantity} until ${new Date(l.expiryDate).toLocaleDateString()}`).join('\n')}
+                       >
+                         {productLots.length ? new Date(productLots[0].expiryDate).toLocaleDateString() : '-'}
                          {isExpired && <span title="Expired">⚠️</span>}
                        </span>
+                       {productLots.length > 1 && (
+                         <span className="block text-gray-400">
+                           {productLots.length} lots{isExpired && ` · ${expiredLots.reduce((sum, l) => sum + l.quantity, 0)} expired`}
+                         </span>
+                       )}
                     </td>
 
                     <td className="px-6 py-4 text-center">
@@ -516,6 +1026,22 @@ const Inventory: React.FC<InventoryProps> = ({
                     </td>
                     <td className="px-6 py-4 text-right">
                       <div className="flex items-center justify-end space-x-2">
+                        {isExpired && (
+                          <button
+                            onClick={() => onWriteOffExpired([product.id])}
+                            className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+                            title="Dispose Expired Stock"
+                          >
+                            <PackageX size={18} />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setHistoryProductId(product.id)}
+                          className="p-1.5 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                          title="Stock History"
+                        >
+                          <History size={18} />
+                        </button>
                         <button 
                           onClick={() => openEditModal(product)}
                           className="p-1.5 text-gray-500 hover:text-teal-600 hover:bg-teal-50 rounded transition-colors"
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Gift, LogOut, ScanLine, UserCircle, Wallet } from 'lucide-react';
+import { Customer, PaymentMethod, Reward } from '../types';
+import { getPaymentProvider, waitForAuthorization } from '../services/paymentService';
+import { MoneyFormat, formatMoney } from '../services/money';
+import { getRewardLabel } from '../services/loyaltyService';
+
+interface KioskMemberPanelProps {
+  member?: Customer;
+  money: MoneyFormat;
+  rewards: Reward[];
+  onLogin: (input: string) => void; // Throws when no member matches
+  onLogout: () => void;
+  onTopUp: (amount: number, paymentReference: string) => void;
+  onRedeemReward: (rewardId: string) => void;
+}
+
+const TOP_UP_AMOUNTS = [5, 10, 20];
+
+const KioskMemberPanel: React.FC<KioskMemberPanelProps> = ({ member, money, rewards, onLogin, onLogout, onTopUp, onRedeemReward }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [loginInput, setLoginInput] = useState('');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [isToppingUp, setIsToppingUp] = useState(false);
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onLogin(loginInput);
+      setLoginInput('');
+      setMessage(null);
+      setIsOpen(false);
+    } catch (error) {
+      setMessage({ text: (error as Error).message, error: true });
+    }
+  };
+
+  // Top-ups are paid by card and credited once the payment is captured
+  const handleTopUp = async (amount: number) => {
+    const provider = getPaymentProvider(PaymentMethod.CREDIT_CARD);
+    setIsToppingUp(true);
+    setMessage({ text: `Present your card to add ${formatMoney(amount, money)}...` });
+    try {
+      const authorization = await provider.authorize(PaymentMethod.CREDIT_CARD, amount);
+      const result = await waitForAuthorization(provider, authorization.id);
+      if (result.status !== 'approved') {
+        setMessage({ text: result.message || 'Card payment was not approved', error: true });
+        return;
+      }
+      await provider.capture(result.id, amount);
+      onTopUp(amount, result.id);
+      setMessage({ text: `${formatMoney(amount, money)} added to your wallet` });
+    } catch (error) {
+      setMessage({ text: (error as Error).message, error: true });
+    } finally {
+      setIsToppingUp(false);
+    }
+  };
+
+  if (!member) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4">
+        {!isOpen ? (
+          <button onClick={() => setIsOpen(true)} className="flex items-center gap-2 text-teal-700 font-medium">
+            <UserCircle size={20} /> Member? Log in to pay with your wallet and earn points
+          </button>
+        ) : (
+          <form onSubmit={handleLogin} className="space-y-2">
+            <label className="block text-sm text-gray-700">
+              Enter your phone number, or scan your member QR code
+              <div className="mt-1 flex gap-2">
+                <div className="relative flex-1">
+                  <ScanLine size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                  <input
+                    autoFocus
+                    value={loginInput}
+                    onChange={e => setLoginInput(e.target.value)}
+                    placeholder="Phone number"
+                    className="w-full pl-10 pr-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400"
+                  />
+                </div>
+                <button type="submit" disabled={!loginInput.trim()} className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50">
+                  Log in
+                </button>
+                <button type="button" onClick={() => { setIsOpen(false); setMessage(null); }} className="px-3 py-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+                  Cancel
+                </button>
+              </div>
+            </label>
+            {message && <p className={`text-xs ${message.error ? 'text-red-600' : 'text-teal-600'}`}>{message.text}</p>}
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 shadow-sm p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <UserCircle size={32} className="text-teal-600" />
+          <div>
+            <p className="font-semibold text-gray-900">Hi, {member.name}</p>
+            <p className="text-sm text-gray-500">
+              <Wallet size={14} className="inline mr-1" />{formatMoney(member.walletBalance, money)} · {member.points} points
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1 px-3 py-1.5 text-sm text-teal-700 bg-teal-50 rounded-lg hover:bg-teal-100">
+            <Gift size={16} /> Top up & rewards
+          </button>
+          <button onClick={onLogout} className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-500 hover:bg-gray-100 rounded-lg">
+            <LogOut size={16} /> Log out
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-3 border-t border-gray-100">
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 mb-2">Top up by card</p>
+            <div className="flex gap-2">
+              {TOP_UP_AMOUNTS.map(amount => (
+                <button
+                  key={amount}
+                  disabled={isToppingUp}
+                  onClick={() => handleTopUp(amount)}
+                  className="flex-1 py-2 border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-teal-50 hover:border-teal-200 disabled:opacity-50"
+                >
+                  +{formatMoney(amount, money)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 mb-2">Rewards</p>
+            <div className="space-y-1">
+              {rewards.map(reward => (
+                <div key={reward.id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">{getRewardLabel(reward, money)} <span className="text-xs text-gray-400">· {reward.pointsCost} pts</span></span>
+                  <button
+                    disabled={member.points < reward.pointsCost}
+                    onClick={() => onRedeemReward(reward.id)}
+                    className="px-2 py-1 text-xs font-medium text-teal-700 hover:bg-teal-50 rounded disabled:opacity-40 disabled:hover:bg-transparent"
+                  >
+                    Redeem
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+      {message && <p className={`text-xs ${message.error ? 'text-red-600' : 'text-teal-600'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default KioskMemberPanel;
@@ -9,7 +9,18 @@ import {
   X,
   ShoppingBag,
   Store,
-  LogOut
+  LogOut,
+  Server,
+  Truck,
+  Warehouse,
+  ClipboardList,
+  Trash2,
+  Banknote,
+  Users,
+  Tag,
+  Percent,
+  CalendarClock,
+  FlaskConical
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -32,7 +43,18 @@ const Layout: React.FC<LayoutProps> = ({
   const ownerLinks = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'inventory', label: 'Inventory', icon: Package },
+    { id: 'machines', label: 'Machines', icon: Server },
+    { id: 'restock', label: 'Restock Routes', icon: Truck },
+    { id: 'depots', label: 'Depots', icon: Warehouse },
+    { id: 'purchasing', label: 'Purchasing', icon: ClipboardList },
+    { id: 'waste', label: 'Waste Report', icon: Trash2 },
     { id: 'sales', label: 'Sales & Analytics', icon: TrendingUp },
+    { id: 'cash', label: 'Cash Collection', icon: Banknote },
+    { id: 'customers', label: 'Customers', icon: Users },
+    { id: 'promotions', label: 'Promotions', icon: Tag },
+    { id: 'taxes', label: 'Tax Rules', icon: Percent },
+    { id: 'pricing', label: 'Price Lists', icon: CalendarClock },
+    { id: 'experiments', label: 'Price Tests', icon: FlaskConical },
     { id: 'ai-agent', label: 'AI Assistant', icon: Bot },
   ];
 
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { ArrowLeft, MapPin, Clock, Wrench, RotateCcw, Radio } from 'lucide-react';
+import { Machine, MachineStatusChange, MaintenanceTicket, Planogram, Product, SaleRecord } from '../types';
+import { getSlotCodeMap } from '../services/planogramService';
+import { formatMoney, getMoneyFormat } from '../services/money';
+import MachineStatusBadge, { formatMachineStatus } from './MachineStatusBadge';
+import PlanogramEditor from './PlanogramEditor';
+
+interface MachineDetailProps {
+  machine: Machine;
+  products: Product[];
+  sales: SaleRecord[];
+  statusChanges: MachineStatusChange[];
+  tickets: MaintenanceTicket[];
+  planogram?: Planogram;
+  onUpdatePlanogram: (planogram: Planogram) => void;
+  onReleaseStatusOverride: (machineId: string) => void;
+  onOpenTicket: (machineId: string, title: string) => void;
+  onCloseTicket: (ticketId: string) => void;
+  onBack: () => void;
+}
+
+const MachineDetail: React.FC<MachineDetailProps> = ({
+  machine,
+  products,
+  sales,
+  statusChanges,
+  tickets,
+  planogram,
+  onUpdatePlanogram,
+  onReleaseStatusOverride,
+  onOpenTicket,
+  onCloseTicket,
+  onBack
+}) => {
+  const [ticketTitle, setTicketTitle] = useState('');
+
+  const money = getMoneyFormat(machine);
+  const machineProducts = products.filter(p => p.machineId === machine.id);
+  const recentSales = sales.filter(s => s.machineId === machine.id).slice(0, 20);
+  const history = statusChanges.filter(c => c.machineId === machine.id);
+  const machineTickets = tickets
+    .filter(t => t.machineId === machine.id)
+    .sort((a, b) => Number(Boolean(a.closedAt)) - Number(Boolean(b.closedAt)) || b.openedAt - a.openedAt);
+  const isRetired = Boolean(machine.decommissionedAt);
+  const slotCodes = getSlotCodeMap(planogram);
+
+  const handleOpenTicket = (e: React.FormEvent) => {
+    e.preventDefault();
+    onOpenTicket(machine.id, ticketTitle);
+    setTicketTitle('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="flex items-center space-x-2 text-teal-700 hover:text-teal-900 text-sm font-medium">
+        <ArrowLeft size={16} />
+        <span>Back to Fleet</span>
+      </button>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">{machine.name}</h2>
+          <div className="flex items-center text-gray-500 text-sm mt-1">
+            <MapPin size={14} className="mr-1" />
+            <span>{machine.location}</span>
+          </div>
+        </div>
+        <div className="text-right">
+          <MachineStatusBadge status={machine.status} decommissioned={isRetired} />
+          {machine.statusChangedAt && (
+            <p className="text-xs text-gray-400 mt-1">Since {new Date(machine.statusChangedAt).toLocaleString()}</p>
+          )}
+          <p className="text-xs text-gray-400 mt-1 flex items-center justify-end gap-1">
+            <Radio size={12} />
+            {machine.lastHeartbeatAt ? `Last heartbeat ${new Date(machine.lastHeartbeatAt).toLocaleTimeString()}` : 'No telemetry reported'}
+          </p>
+          {machine.statusOverride && !isRetired && (
+            <button
+              onClick={() => onReleaseStatusOverride(machine.id)}
+              className="mt-2 inline-flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              <RotateCcw size={12} /> Manual status · return to automatic
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <h3 className="text-gray-700 font-semibold p-4 border-b border-gray-100">Products ({machineProducts.length})</h3>
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-4 py-3">Product</th>
+                <th className="px-4 py-3">Slots</th>
+                <th className="px-4 py-3 text-center">Price</th>
+                <th className="px-4 py-3 text-center">Stock</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {machineProducts.map(p => (
+                <tr key={p.id}>
+                  <td className="px-4 py-3 font-medium text-gray-900">{p.name}</td>
+                  <td className="px-4 py-3 font-mono text-xs">{slotCodes[p.id]?.join(', ') || '-'}</td>
+                  <td className="px-4 py-3 text-center">{formatMoney(p.price, money)}</td>
+                  <td className={`px-4 py-3 text-center font-mono ${p.quantity <= p.min_quantity ? 'text-red-600 font-bold' : ''}`}>
+                    {p.quantity}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {machineProducts.length === 0 && (
+            <div className="p-6 text-center text-gray-400 text-sm">No products assigned to this machine.</div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <h3 className="text-gray-700 font-semibold p-4 border-b border-gray-100">Recent Sales</h3>
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Product</th>
+                <th className="px-4 py-3">Qty</th>
+                <th className="px-4 py-3 text-right">Revenue</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {recentSales.map(s => (
+                <tr key={s.id}>
+                  <td className="px-4 py-3">{new Date(s.timestamp).toLocaleString()}</td>
+                  <td className="px-4 py-3">{s.productName}</td>
+                  <td className="px-4 py-3">{s.quantity}</td>
+                  <td className="px-4 py-3 text-right text-teal-700 font-medium">{formatMoney(s.revenue, money, { signed: true })}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {recentSales.length === 0 && (
+            <div className="p-6 text-center text-gray-400 text-sm">No sales recorded yet.</div>
+          )}
+        </div>
+      </div>
+
+      {planogram && (
+        <PlanogramEditor
+          planogram={planogram}
+          products={machineProducts}
+          readOnly={isRetired}
+          onChange={onUpdatePlanogram}
+        />
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+        <h3 className="text-gray-700 font-semibold mb-4 flex items-center gap-2">
+          <Wrench size={16} className="text-gray-400" /> Maintenance Tickets
+        </h3>
+        {!isRetired && (
+          <form onSubmit={handleOpenTicket} className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={ticketTitle}
+              onChange={e => setTicketTitle(e.target.value)}
+              placeholder="Describe the issue, e.g. Coil B4 jammed"
+              className="flex-1 px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none placeholder-gray-400 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!ticketTitle.trim()}
+              className="px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 disabled:opacity-50 text-sm font-medium"
+            >
+              Open Ticket
+            </button>
+          </form>
+        )}
+        <ul className="space-y-2">
+          {machineTickets.map(ticket => (
+            <li key={ticket.id} className="flex justify-between items-center text-sm bg-gray-50 rounded-lg p-3">
+              <div>
+                <p className={`font-medium ${ticket.closedAt ? 'text-gray-400 line-through' : 'text-gray-800'}`}>{ticket.title}</p>
+                <p className="text-xs text-gray-400">
+                  Opened {new Date(ticket.openedAt).toLocaleString()}
+                  {ticket.closedAt && ` · closed ${new Date(ticket.closedAt).toLocaleString()}`}
+                </p>
+              </div>
+              {!ticket.closedAt && (
+                <button
+                  onClick={() => onCloseTicket(ticket.id)}
+                  className="text-xs text-teal-700 hover:text-teal-900 font-medium"
+                >
+                  Close
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {machineTickets.length === 0 && <p className="text-sm text-gray-400">No maintenance tickets.</p>}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+        <h3 className="text-gray-700 font-semibold mb-4 flex items-center gap-2">
+          <Clock size={16} className="text-gray-400" /> Status History
+        </h3>
+        <ul className="space-y-3">
+          {history.map(change => (
+            <li key={change.id} className="flex justify-between items-start text-sm border-l-2 border-teal-200 pl-3">
+              <div>
+                <p className="font-medium text-gray-800">
+                  {change.from ? `${formatMachineStatus(change.from)} → ` : ''}{formatMachineStatus(change.to)}
+                </p>
+                <p className="text-gray-500 text-xs">
+                  {change.reason}
+                  {change.source === 'automatic' && <span className="ml-1 text-indigo-500">(auto)</span>}
+                </p>
+              </div>
+              <span className="text-xs text-gray-400 whitespace-nowrap ml-4">{new Date(change.timestamp).toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+        {history.length === 0 && <p className="text-sm text-gray-400">No status changes recorded.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default MachineDetail;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { MachineStatus } from '../types';
+
+const STATUS_STYLES: Record<MachineStatus, string> = {
+  [MachineStatus.ONLINE]: 'bg-green-100 text-green-800',
+  [MachineStatus.OFFLINE]: 'bg-gray-200 text-gray-700',
+  [MachineStatus.MAINTENANCE]: 'bg-yellow-100 text-yellow-800',
+  [MachineStatus.LOW_STOCK]: 'bg-orange-100 text-orange-800'
+};
+
+const STATUS_LABELS: Record<MachineStatus, string> = {
+  [MachineStatus.ONLINE]: 'Online',
+  [MachineStatus.OFFLINE]: 'Offline',
+  [MachineStatus.MAINTENANCE]: 'Maintenance',
+  [MachineStatus.LOW_STOCK]: 'Low Stock'
+};
+
+export const formatMachineStatus = (status: MachineStatus) => STATUS_LABELS[status];
+
+const MachineStatusBadge = ({ status, decommissioned }: { status: MachineStatus; decommissioned?: boolean }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${decommissioned ? 'bg-gray-100 text-gray-500' : STATUS_STYLES[status]}`}>
+    {decommissioned ? 'Decommissioned' : STATUS_LABELS[status]}
+  </span>
+);
+
+export default MachineStatusBadge;
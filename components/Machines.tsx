@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import { Plus, Edit2, Power, Activity, X, Save, MapPin, ChevronRight } from 'lucide-react';
+import { Machine, MachineStatus, MachineStatusChange, MaintenanceTicket, Planogram, Product, SaleRecord } from '../types';
+import { MachineInput, getMachineGroups } from '../services/machineService';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY, DEFAULT_LOCALE } from '../constants';
+import MachineStatusBadge, { formatMachineStatus } from './MachineStatusBadge';
+import MachineDetail from './MachineDetail';
+
+interface MachinesProps {
+  machines: Machine[];
+  products: Product[];
+  sales: SaleRecord[];
+  statusChanges: MachineStatusChange[];
+  tickets: MaintenanceTicket[];
+  planograms: Planogram[];
+  onCreateMachine: (input: MachineInput) => void;
+  onUpdateMachine: (machine: Machine) => void;
+  onChangeStatus: (machineId: string, status: MachineStatus, reason: string) => void;
+  onDecommissionMachine: (machineId: string, reason: string) => void;
+  onReleaseStatusOverride: (machineId: string) => void;
+  onOpenTicket: (machineId: string, title: string) => void;
+  onCloseTicket: (ticketId: string) => void;
+  onUpdatePlanogram: (planogram: Planogram) => void;
+}
+
+type ModalMode = 'create' | 'edit' | 'status' | 'decommission';
+
+const Machines: React.FC<MachinesProps> = ({
+  machines,
+  products,
+  sales,
+  statusChanges,
+  tickets,
+  planograms,
+  onCreateMachine,
+  onUpdateMachine,
+  onChangeStatus,
+  onDecommissionMachine,
+  onReleaseStatusOverride,
+  onOpenTicket,
+  onCloseTicket,
+  onUpdatePlanogram
+}) => {
+  const [selectedMachineId, setSelectedMachineId] = useState<string | null>(null);
+  const [showDecommissioned, setShowDecommissioned] = useState(false);
+
+  // Modal State
+  const [modalMode, setModalMode] = useState<ModalMode | null>(null);
+  const [editingMachine, setEditingMachine] = useState<Machine | null>(null);
+  const [form, setForm] = useState<MachineInput>({ name: '', location: '', status: MachineStatus.ONLINE, currency: DEFAULT_CURRENCY, locale: DEFAULT_LOCALE, group: '' });
+  const [reason, setReason] = useState('');
+
+  const selectedMachine = machines.find(m => m.id === selectedMachineId);
+  const visibleMachines = machines.filter(m => showDecommissioned || !m.decommissionedAt);
+  const machineGroups = getMachineGroups(machines);
+
+  const openModal = (mode: ModalMode, machine: Machine | null = null) => {
+    setModalMode(mode);
+    setEditingMachine(machine);
+    setReason('');
+    setForm(machine
+      ? { name: machine.name, location: machine.location, status: machine.status, currency: machine.currency, locale: machine.locale, group: machine.group || '' }
+      : { name: '', location: '', status: MachineStatus.ONLINE, currency: DEFAULT_CURRENCY, locale: DEFAULT_LOCALE, group: '' });
+  };
+
+  const closeModal = () => {
+    setModalMode(null);
+    setEditingMachine(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (modalMode === 'create') {
+      if (!form.name.trim() || !form.location.trim()) {
+        alert("Please fill in all required fields");
+        return;
+      }
+      onCreateMachine(form);
+    } else if (modalMode === 'edit' && editingMachine) {
+      if (!form.name.trim() || !form.location.trim()) {
+        alert("Please fill in all required fields");
+        return;
+      }
+      onUpdateMachine({ ...editingMachine, name: form.name.trim(), location: form.location.trim(), group: form.group.trim() || undefined });
+    } else if (modalMode === 'status' && editingMachine) {
+      onChangeStatus(editingMachine.id, form.status, reason);
+    } else if (modalMode === 'decommission' && editingMachine) {
+      onDecommissionMachine(editingMachine.id, reason);
+    }
+    closeModal();
+  };
+
+  const inputClassName = "w-full px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400";
+
+  const modalTitles: Record<ModalMode, string> = {
+    create: 'Add Machine',
+    edit: 'Edit Machine',
+    status: 'Change Status',
+    decommission: 'Decommission Machine'
+  };
+
+  const renderModal = () => modalMode && (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-gray-800">{modalTitles[modalMode]}</h3>
+          <button onClick={closeModal} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {(modalMode === 'create' || modalMode === 'edit') && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Machine Name</label>
+                <input
+                  required
+                  type="text"
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                  className={inputClassName}
+                  placeholder="e.g., Airport Gate 12"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                <input
+                  required
+                  type="text"
+                  value={form.location}
+                  onChange={e => setForm({ ...form, location: e.target.value })}
+                  className={inputClassName}
+                  placeholder="e.g., Terminal 2 Departures"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Group (optional)</label>
+                <input
+                  type="text"
+                  list="machine-groups"
+                  value={form.group}
+                  onChange={e => setForm({ ...form, group: e.target.value })}
+                  className={inputClassName}
+                  placeholder="e.g., Tech parks"
+                />
+                <datalist id="machine-groups">
+                  {machineGroups.map(group => <option key={group} value={group} />)}
+                </datalist>
+                <p className="mt-1 text-xs text-gray-500">Price lists can target every machine in a group.</p>
+              </div>
+            </>
+          )}
+
+          {modalMode === 'create' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <select
+                value={form.currency}
+                onChange={e => {
+                  const option = CURRENCY_OPTIONS.find(o => o.currency === e.target.value);
+                  if (option) setForm({ ...form, currency: option.currency, locale: option.locale });
+                }}
+                className={inputClassName}
+              >
+                {CURRENCY_OPTIONS.map(option => (
+                  <option key={option.currency} value={option.currency}>{option.currency} · {option.label}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Prices at the machine are set in this currency, so it can't be changed later.</p>
+            </div>
+          )}
+
+          {(modalMode === 'create' || modalMode === 'status') && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {modalMode === 'create' ? 'Initial Status' : 'New Status'}
+              </label>
+              <select
+                value={form.status}
+                onChange={e => setForm({ ...form, status: e.target.value as MachineStatus })}
+                className={inputClassName}
+              >
+                {Object.values(MachineStatus).map(status => (
+                  <option key={status} value={status} disabled={modalMode === 'status' && status === editingMachine?.status}>
+                    {formatMachineStatus(status)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {(modalMode === 'status' || modalMode === 'decommission') && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <textarea
+                required
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+                className={inputClassName}
+                rows={3}
+                placeholder={modalMode === 'decommission' ? 'e.g., Site lease ended' : 'e.g., Coin mechanism replaced'}
+              />
+            </div>
+          )}
+
+          {modalMode === 'status' && (
+            <p className="text-xs text-gray-500">
+              A manual status stays in place until you return the machine to automatic status from its detail page.
+            </p>
+          )}
+
+          {modalMode === 'decommission' && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg p-3">
+              {editingMachine?.name} will be taken offline permanently. Its sales and status history are kept.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+            <button
+              type="button"
+              onClick={closeModal}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className={`px-6 py-2 text-white rounded-lg transition-colors font-medium flex items-center gap-2 ${modalMode === 'decommission' ? 'bg-red-600 hover:bg-red-700' : 'bg-teal-600 hover:bg-teal-700'}`}
+            >
+              <Save size={18} />
+              <span>{modalMode === 'decommission' ? 'Decommission' : 'Save'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+
+  if (selectedMachine) {
+    return (
+      <MachineDetail
+        machine={selectedMachine}
+        products={products}
+        sales={sales}
+        statusChanges={statusChanges}
+        tickets={tickets}
+        planogram={planograms.find(p => p.machineId === selectedMachine.id)}
+        onUpdatePlanogram={onUpdatePlanogram}
+        onReleaseStatusOverride={onReleaseStatusOverride}
+        onOpenTicket={onOpenTicket}
+        onCloseTicket={onCloseTicket}
+        onBack={() => setSelectedMachineId(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {renderModal()}
+
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-800">Machine Fleet</h2>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showDecommissioned}
+              onChange={e => setShowDecommissioned(e.target.checked)}
+              className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+            />
+            <span>Show decommissioned</span>
+          </label>
+          <button
+            onClick={() => openModal('create')}
+            className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Plus size={18} />
+            <span>Add Machine</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {visibleMachines.map(machine => {
+          const productCount = products.filter(p => p.machineId === machine.id).length;
+          const isRetired = Boolean(machine.decommissionedAt);
+
+          return (
+            <div key={machine.id} className={`bg-white rounded-xl shadow-sm border border-gray-100 p-6 flex flex-col ${isRetired ? 'opacity-60' : ''}`}>
+              <div className="flex justify-between items-start mb-2">
+                <h3 className="font-semibold text-gray-800 text-lg">{machine.name}</h3>
+                <MachineStatusBadge status={machine.status} decommissioned={isRetired} />
+              </div>
+              <div className="flex items-center text-gray-500 text-sm mb-4">
+                <MapPin size={14} className="mr-1" />
+                <span>{machine.location}</span>
+                {machine.group && <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">{machine.group}</span>}
+              </div>
+              <p className="text-xs text-gray-400 mb-4">
+                {productCount} products
+                {machine.statusChangedAt && ` · status since ${new Date(machine.statusChangedAt).toLocaleDateString()}`}
+                {machine.statusOverride && !isRetired && ' · manual'}
+              </p>
+
+              <div className="mt-auto flex items-center justify-between pt-4 border-t border-gray-100">
+                <div className="flex items-center space-x-1">
+                  {!isRetired && (
+                    <>
+                      <button
+                        onClick={() => openModal('edit', machine)}
+                        className="p-1.5 text-gray-500 hover:text-teal-600 hover:bg-teal-50 rounded transition-colors"
+                        title="Edit Machine"
+                      >
+                        <Edit2 size={18} />
+                      </button>
+                      <button
+                        onClick={() => openModal('status', machine)}
+                        className="p-1.5 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                        title="Change Status"
+                      >
+                        <Activity size={18} />
+                      </button>
+                      <button
+                        onClick={() => openModal('decommission', machine)}
+                        className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                        title="Decommission Machine"
+                      >
+                        <Power size={18} />
+                      </button>
+                    </>
+                  )}
+                </div>
+                <button
+                  onClick={() => setSelectedMachineId(machine.id)}
+                  className="flex items-center text-sm text-teal-700 hover:text-teal-900 font-medium"
+                >
+                  <span>Details</span>
+                  <ChevronRight size={16} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {visibleMachines.length === 0 && (
+        <div className="p-8 text-center text-gray-500 bg-white rounded-xl border border-gray-100">
+          No machines in the fleet yet.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Machines;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { InventoryMovement, MovementType, Product } from '../types';
+import { MOVEMENT_LABELS, getProductHistory } from '../services/ledgerService';
+
+interface MovementHistoryDrawerProps {
+  product: Product;
+  movements: InventoryMovement[];
+  onClose: () => void;
+}
+
+const TYPE_STYLES: Record<MovementType, string> = {
+  sale: 'bg-teal-100 text-teal-800',
+  return: 'bg-cyan-100 text-cyan-800',
+  restock: 'bg-blue-100 text-blue-800',
+  write_off: 'bg-red-100 text-red-800',
+  adjustment: 'bg-yellow-100 text-yellow-800',
+  transfer: 'bg-purple-100 text-purple-800'
+};
+
+const MovementHistoryDrawer: React.FC<MovementHistoryDrawerProps> = ({ product, movements, onClose }) => {
+  const history = getProductHistory(movements, product.id);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="relative bg-white w-full max-w-md h-full shadow-xl flex flex-col animate-in slide-in-from-right duration-200">
+        <div className="flex justify-between items-start p-6 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <History size={18} className="text-gray-400" /> Stock History
+            </h3>
+            <p className="text-sm text-gray-500">{product.name} · {product.sku}</p>
+            <p className="text-xs text-gray-400 mt-1">Current balance: <span className="font-mono font-bold text-gray-700">{product.quantity}</span></p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {history.map(({ movement, balance }) => (
+            <div key={movement.id} className="px-6 py-3 text-sm">
+              <div className="flex justify-between items-center">
+                <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${TYPE_STYLES[movement.type]}`}>
+                  {MOVEMENT_LABELS[movement.type]}
+                </span>
+                <span className={`font-mono font-bold ${movement.quantity > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                  {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                </span>
+              </div>
+              <div className="flex justify-between items-center mt-1">
+                <p className="text-gray-700">{movement.reason}</p>
+                <span className="text-xs text-gray-400 font-mono">= {balance}</span>
+              </div>
+              <p className="text-xs text-gray-400 mt-0.5">
+                {new Date(movement.timestamp).toLocaleString()} · {movement.user}
+                {movement.referenceId && <span className="font-mono"> · {movement.referenceId}</span>}
+              </p>
+            </div>
+          ))}
+          {history.length === 0 && (
+            <p className="p-6 text-center text-gray-400 text-sm">No movements recorded yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MovementHistoryDrawer;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Grid3x3, Plus, Minus } from 'lucide-react';
+import { Planogram, Product } from '../types';
+import {
+  addColumn,
+  addTray,
+  getProductCapacity,
+  removeLastColumn,
+  removeLastTray,
+  slotCode,
+  updateSlot
+} from '../services/planogramService';
+
+interface PlanogramEditorProps {
+  planogram: Planogram;
+  products: Product[]; // Products assigned to this machine
+  readOnly?: boolean;
+  onChange: (planogram: Planogram) => void;
+}
+
+const PlanogramEditor: React.FC<PlanogramEditorProps> = ({ planogram, products, readOnly, onChange }) => {
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+
+  const selected = planogram.trays
+    .flatMap(tray => tray.slots.map(slot => ({ code: slotCode(tray, slot), slot })))
+    .find(s => s.code === selectedCode);
+
+  const apply = (update: () => Planogram) => {
+    try {
+      onChange(update());
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-gray-700 font-semibold flex items-center gap-2">
+          <Grid3x3 size={16} className="text-gray-400" /> Planogram
+        </h3>
+        {!readOnly && (
+          <div className="flex items-center space-x-2 text-xs">
+            <button
+              onClick={() => apply(() => addTray(planogram))}
+              className="flex items-center gap-1 px-2 py-1 border border-gray-200 rounded hover:bg-gray-50 text-gray-600"
+            >
+              <Plus size={12} /> Tray
+            </button>
+            <button
+              onClick={() => apply(() => removeLastTray(planogram))}
+              className="flex items-center gap-1 px-2 py-1 border border-gray-200 rounded hover:bg-gray-50 text-gray-600"
+            >
+              <Minus size={12} /> Tray
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <div className="flex-1 overflow-x-auto space-y-2">
+          {planogram.trays.map(tray => (
+            <div key={tray.label} className="flex items-center gap-2">
+              <span className="w-6 text-center font-bold text-gray-400">{tray.label}</span>
+              {tray.slots.map(slot => {
+                const code = slotCode(tray, slot);
+                const product = products.find(p => p.id === slot.productId);
+                return (
+                  <button
+                    key={code}
+                    onClick={() => setSelectedCode(code)}
+                    className={`
+                      w-20 h-20 flex-shrink-0 rounded-lg border text-left p-1.5 flex flex-col justify-between transition-colors
+                      ${selectedCode === code ? 'border-teal-500 ring-2 ring-teal-200' : 'border-gray-200 hover:border-teal-300'}
+                      ${product ? 'bg-teal-50' : 'bg-gray-50'}
+                    `}
+                  >
+                    <span className="text-[10px] font-bold text-gray-500">{code}</span>
+                    <span className="text-[10px] leading-tight text-gray-800 line-clamp-2">{product?.name || 'Empty'}</span>
+                    <span className="text-[10px] text-gray-400">cap {slot.capacity}</span>
+                  </button>
+                );
+              })}
+              {!readOnly && (
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => apply(() => addColumn(planogram, tray.label))}
+                    className="p-1 text-gray-400 hover:text-teal-600"
+                    title={`Add slot to tray ${tray.label}`}
+                  >
+                    <Plus size={14} />
+                  </button>
+                  <button
+                    onClick={() => apply(() => removeLastColumn(planogram, tray.label))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title={`Remove last slot from tray ${tray.label}`}
+                  >
+                    <Minus size={14} />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="lg:w-64 bg-gray-50 rounded-lg p-4 text-sm">
+          {selected ? (
+            <div className="space-y-3">
+              <p className="font-bold text-gray-800">Slot {selected.code}</p>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Product</label>
+                <select
+                  disabled={readOnly}
+                  value={selected.slot.productId || ''}
+                  onChange={e => apply(() => updateSlot(planogram, selected.code, { productId: e.target.value || null }))}
+                  className="w-full px-2 py-1.5 bg-white text-gray-900 border border-gray-300 rounded-lg outline-none"
+                >
+                  <option value="">Empty</option>
+                  {products.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Capacity</label>
+                <input
+                  disabled={readOnly}
+                  type="number"
+                  min="1"
+                  value={selected.slot.capacity}
+                  onChange={e => apply(() => updateSlot(planogram, selected.code, { capacity: parseInt(e.target.value) }))}
+                  className="w-full px-2 py-1.5 bg-white text-gray-900 border border-gray-300 rounded-lg outline-none"
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="text-gray-400">Select a slot to assign a product or change its capacity.</p>
+          )}
+
+          <div className="mt-4 pt-4 border-t border-gray-200 space-y-1">
+            <p className="text-xs font-semibold text-gray-500 uppercase">Capacity by product</p>
+            {products.map(p => {
+              const capacity = getProductCapacity([planogram], p);
+              return (
+                <div key={p.id} className="flex justify-between text-xs">
+                  <span className="text-gray-700 truncate">{p.name}</span>
+                  <span className={capacity === undefined || p.quantity > capacity ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                    {p.quantity} / {capacity ?? 'unslotted'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanogramEditor;
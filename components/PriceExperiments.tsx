@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import { Plus, FlaskConical, Trophy } from 'lucide-react';
+import { CatalogItem, ExperimentAllocation, Machine, PriceExperiment, SaleRecord } from '../types';
+import { EXPERIMENT_ALLOCATION_LABELS, ExperimentInput, SIGNIFICANCE_LEVEL, getExperimentResults } from '../services/experimentService';
+import { formatMoney, getMoneyFormat } from '../services/money';
+
+interface PriceExperimentsProps {
+  experiments: PriceExperiment[];
+  catalog: CatalogItem[];
+  machines: Machine[];
+  sales: SaleRecord[];
+  onCreateExperiment: (input: ExperimentInput) => void;
+  onStopExperiment: (experimentId: string) => void;
+  onPromoteVariant: (experimentId: string, variantId: string) => void;
+}
+
+interface VariantForm {
+  name: string;
+  price: string;
+  machineIds: string[];
+}
+
+interface ExperimentForm {
+  name: string;
+  skuId: string;
+  allocation: ExperimentAllocation;
+  machineIds: string[];
+  windowHours: string;
+  variants: VariantForm[];
+}
+
+const MAX_VARIANTS = 4;
+
+const EMPTY_FORM: ExperimentForm = {
+  name: '',
+  skuId: '',
+  allocation: 'time_windows',
+  machineIds: [],
+  windowHours: '24',
+  variants: [
+    { name: 'Control', price: '', machineIds: [] },
+    { name: '', price: '', machineIds: [] }
+  ]
+};
+
+const STATUS_STYLES: Record<PriceExperiment['status'], string> = {
+  running: 'bg-green-100 text-green-700',
+  stopped: 'bg-gray-100 text-gray-500',
+  promoted: 'bg-indigo-100 text-indigo-700'
+};
+
+const inputClass = 'px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400 text-sm';
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const formatPercent = (value: number | null, signed = false) =>
+  value === null ? '-' : `${signed && value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+const PriceExperiments: React.FC<PriceExperimentsProps> = ({
+  experiments,
+  catalog,
+  machines,
+  sales,
+  onCreateExperiment,
+  onStopExperiment,
+  onPromoteVariant
+}) => {
+  const [form, setForm] = useState<ExperimentForm | null>(null);
+
+  const productName = (skuId: string) => catalog.find(c => c.id === skuId)?.name || skuId;
+  const machineName = (machineId: string) => machines.find(m => m.id === machineId)?.name || machineId;
+
+  const setVariant = (index: number, variant: VariantForm) => {
+    if (!form) return;
+    setForm({ ...form, variants: form.variants.map((v, i) => i === index ? variant : v) });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    onCreateExperiment({
+      name: form.name,
+      skuId: form.skuId,
+      allocation: form.allocation,
+      machineIds: form.machineIds,
+      windowHours: parseInt(form.windowHours),
+      variants: form.variants.map(v => ({ name: v.name, price: parseFloat(v.price), machineIds: v.machineIds }))
+    });
+    setForm(null);
+  };
+
+  const renderMachineToggles = (selected: string[], onToggle: (machineId: string) => void) => (
+    <div className="flex flex-wrap gap-2">
+      {machines.map(machine => (
+        <button
+          key={machine.id}
+          type="button"
+          onClick={() => onToggle(machine.id)}
+          className={`px-2 py-1 rounded-lg border text-xs transition-colors ${
+            selected.includes(machine.id) ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          {machine.name}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800">Price Tests</h2>
+          <p className="text-sm text-gray-500">
+            Sell one product at different prices and compare profit per machine-period. The first variant is the control.
+          </p>
+        </div>
+        <button
+          onClick={() => setForm(EMPTY_FORM)}
+          className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <Plus size={18} />
+          <span>New Price Test</span>
+        </button>
+      </div>
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Name, e.g. Water at 2.75" className={inputClass} />
+            <select required value={form.skuId} onChange={e => setForm({ ...form, skuId: e.target.value })} className={inputClass}>
+              <option value="">Product…</option>
+              {catalog.map(item => <option key={item.id} value={item.id}>{item.name} ({item.sku})</option>)}
+            </select>
+            <select value={form.allocation} onChange={e => setForm({ ...form, allocation: e.target.value as ExperimentAllocation })} className={inputClass}>
+              {(Object.keys(EXPERIMENT_ALLOCATION_LABELS) as ExperimentAllocation[]).map(allocation => (
+                <option key={allocation} value={allocation}>{EXPERIMENT_ALLOCATION_LABELS[allocation]}</option>
+              ))}
+            </select>
+          </div>
+
+          {form.allocation === 'time_windows' && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <span>Each window lasts</span>
+                <input
+                  type="number"
+                  min="1"
+                  required
+                  value={form.windowHours}
+                  onChange={e => setForm({ ...form, windowHours: e.target.value })}
+                  className={`${inputClass} w-20`}
+                />
+                <span>hours; windows are given a variant at random</span>
+              </div>
+              <p className="text-xs font-semibold uppercase text-gray-500">Machines</p>
+              {renderMachineToggles(form.machineIds, machineId => setForm({ ...form, machineIds: toggle(form.machineIds, machineId) }))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <p className="text-xs font-semibold uppercase text-gray-500">Variants</p>
+            {form.variants.map((variant, i) => (
+              <div key={i} className="border border-gray-100 rounded-lg p-3 space-y-2">
+                <div className="flex gap-2 items-center">
+                  <span className="w-6 font-mono text-sm text-gray-500">{String.fromCharCode(65 + i)}</span>
+                  <input
+                    value={variant.name}
+                    onChange={e => setVariant(i, { ...variant, name: e.target.value })}
+                    placeholder={i === 0 ? 'Control' : 'Name (optional)'}
+                    className={`${inputClass} flex-1`}
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    required
+                    value={variant.price}
+                    onChange={e => setVariant(i, { ...variant, price: e.target.value })}
+                    placeholder="Price"
+                    className={`${inputClass} w-28`}
+                  />
+                  {i >= 2 && (
+                    <button
+                      type="button"
+                      onClick={() => setForm({ ...form, variants: form.variants.filter((_, j) => j !== i) })}
+                      className="text-xs text-red-500 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                {form.allocation === 'machines' &&
+                  renderMachineToggles(variant.machineIds, machineId => setVariant(i, { ...variant, machineIds: toggle(variant.machineIds, machineId) }))}
+              </div>
+            ))}
+            {form.variants.length < MAX_VARIANTS && (
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, variants: [...form.variants, { name: '', price: '', machineIds: [] }] })}
+                className="text-sm text-teal-600 hover:text-teal-800 font-medium"
+              >
+                + Add variant
+              </button>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
+            <button type="submit" className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium">Start</button>
+          </div>
+        </form>
+      )}
+
+      {experiments.map(experiment => {
+        const results = getExperimentResults(experiment, sales);
+        const money = getMoneyFormat(machines.find(m => m.currency === experiment.currency));
+        const periodLabel = results.periodHours === 24 ? 'day' : `${results.periodHours}h`;
+        return (
+          <div key={experiment.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="px-6 py-4 flex justify-between items-start border-b border-gray-100">
+              <div>
+                <p className="font-medium text-gray-900 flex items-center gap-2">
+                  <FlaskConical size={14} className="text-gray-400" />{experiment.name}
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[experiment.status]}`}>
+                    {experiment.status === 'running' ? 'Running' : experiment.status === 'promoted' ? 'Promoted' : 'Stopped'}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {productName(experiment.skuId)} · {EXPERIMENT_ALLOCATION_LABELS[experiment.allocation]}
+                  {experiment.allocation === 'time_windows' && ` (${experiment.windowHours}h) at ${experiment.machineIds.map(machineName).join(', ')}`}
+                  {' · '}from {new Date(experiment.startedAt).toLocaleDateString()}
+                  {experiment.endedAt && ` to ${new Date(experiment.endedAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              {experiment.status === 'running' && (
+                <button onClick={() => onStopExperiment(experiment.id)} className="text-gray-500 hover:text-gray-700 text-sm font-medium">
+                  Stop
+                </button>
+              )}
+            </div>
+
+            <table className="w-full text-left text-sm text-gray-600">
+              <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+                <tr>
+                  <th className="px-6 py-3">Variant</th>
+                  <th className="px-6 py-3 text-right">Price</th>
+                  <th className="px-6 py-3 text-right">Units</th>
+                  <th className="px-6 py-3 text-right">Revenue</th>
+                  <th className="px-6 py-3 text-right">Margin</th>
+                  <th className="px-6 py-3 text-right" title={`Average over complete machine-${periodLabel}s`}>Profit / {periodLabel}</th>
+                  <th className="px-6 py-3 text-right">Lift</th>
+                  <th className="px-6 py-3 text-right" title={`Welch's t-test against the control; significant below ${SIGNIFICANCE_LEVEL}`}>p-value</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {results.variants.map(result => {
+                  const isWinner = result.variant.id === results.winnerVariantId;
+                  const isPromoted = result.variant.id === experiment.winnerVariantId;
+                  return (
+                    <tr key={result.variant.id} className={isWinner || isPromoted ? 'bg-indigo-50/50' : ''}>
+                      <td className="px-6 py-3">
+                        <p className="font-medium text-gray-900 flex items-center gap-1">
+                          <span className="font-mono text-gray-400">{result.variant.id}</span> {result.variant.name}
+                          {isWinner && <Trophy size={14} className="text-indigo-600" />}
+                        </p>
+                        {result.variant.machineIds.length > 0 && (
+                          <p className="text-xs text-gray-400">{result.variant.machineIds.map(machineName).join(', ')}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-right font-mono">{formatMoney(result.variant.price, money)}</td>
+                      <td className="px-6 py-3 text-right font-mono">{result.units}</td>
+                      <td className="px-6 py-3 text-right font-mono">{formatMoney(result.revenue, money)}</td>
+                      <td className="px-6 py-3 text-right font-mono">{formatPercent(result.margin)}</td>
+                      <td className="px-6 py-3 text-right font-mono" title={`${result.periods} periods, ${result.unitsPerPeriod.toFixed(2)} units each`}>
+                        {formatMoney(result.profitPerPeriod, money)}
+                      </td>
+                      <td className={`px-6 py-3 text-right font-mono ${result.lift === null ? '' : result.lift > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        {formatPercent(result.lift, true)}
+                      </td>
+                      <td className={`px-6 py-3 text-right font-mono ${result.pValue !== null && result.pValue < SIGNIFICANCE_LEVEL ? 'text-indigo-700 font-bold' : 'text-gray-400'}`}>
+                        {result.pValue === null ? '-' : result.pValue.toFixed(3)}
+                      </td>
+                      <td className="px-6 py-3 text-right">
+                        {experiment.status !== 'promoted' ? (
+                          <button
+                            onClick={() => onPromoteVariant(experiment.id, result.variant.id)}
+                            className="text-teal-600 hover:text-teal-800 text-xs font-medium"
+                            title="Make this the shelf price at every machine in the test"
+                          >
+                            Promote
+                          </button>
+                        ) : isPromoted && <span className="text-xs text-indigo-700 font-medium">Shelf price</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {experiment.status === 'running' && !results.winnerVariantId && (
+              <p className="px-6 py-2 bg-gray-50 border-t border-gray-100 text-xs text-gray-500">
+                No variant beats the control significantly yet; keep the test running for more data.
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {experiments.length === 0 && !form && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 px-6 py-8 text-center text-gray-400">
+          No price tests yet. Start one here, or test an AI price suggestion from the Inventory page.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceExperiments;
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { Plus, CalendarClock, Clock } from 'lucide-react';
+import { CatalogItem, Machine, PriceList } from '../types';
+import { PriceEntryInput, PriceListInput, formatPriceBand } from '../services/priceListService';
+import { getMachineGroups } from '../services/machineService';
+import { formatMoney, getFleetMoneyFormat, getMoneyFormat } from '../services/money';
+
+interface PriceListsProps {
+  priceLists: PriceList[];
+  catalog: CatalogItem[];
+  machines: Machine[];
+  onCreatePriceList: (input: PriceListInput) => void;
+  onAddPriceEntry: (priceListId: string, input: PriceEntryInput) => void;
+  onEndPriceEntry: (priceListId: string, entryId: string) => void;
+  onTogglePriceList: (priceListId: string) => void;
+}
+
+interface EntryForm {
+  skuId: string;
+  price: string;
+  effectiveFrom: string; // datetime-local; blank means now
+  effectiveUntil: string;
+  startTime: string;
+  endTime: string;
+}
+
+const EMPTY_ENTRY: EntryForm = { skuId: '', price: '', effectiveFrom: '', effectiveUntil: '', startTime: '', endTime: '' };
+
+const inputClass = 'px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400 text-sm';
+
+const toMinute = (time: string) => {
+  if (!time) return undefined;
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const PriceLists: React.FC<PriceListsProps> = ({
+  priceLists,
+  catalog,
+  machines,
+  onCreatePriceList,
+  onAddPriceEntry,
+  onEndPriceEntry,
+  onTogglePriceList
+}) => {
+  const [listForm, setListForm] = useState<PriceListInput | null>(null);
+  const [entryForm, setEntryForm] = useState<{ priceListId: string; form: EntryForm } | null>(null);
+  const now = Date.now();
+  const groups = getMachineGroups(machines);
+  const currencies = Array.from(new Set(machines.map(m => m.currency)));
+
+  const productName = (skuId: string) => catalog.find(c => c.id === skuId)?.name || skuId;
+  const machineName = (machineId: string) => machines.find(m => m.id === machineId)?.name || machineId;
+
+  const describeTargets = (list: PriceList) => {
+    const targets = [...list.machineIds.map(machineName), ...list.groups.map(g => `${g} (group)`)];
+    return targets.length ? targets.join(', ') : `All ${list.currency} machines`;
+  };
+
+  const handleCreateList = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!listForm) return;
+    onCreatePriceList(listForm);
+    setListForm(null);
+  };
+
+  const handleAddEntry = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entryForm) return;
+    const { priceListId, form } = entryForm;
+    onAddPriceEntry(priceListId, {
+      skuId: form.skuId,
+      price: parseFloat(form.price),
+      effectiveFrom: form.effectiveFrom ? new Date(form.effectiveFrom).getTime() : Date.now(),
+      effectiveUntil: form.effectiveUntil ? new Date(form.effectiveUntil).getTime() : undefined,
+      startMinute: toMinute(form.startTime),
+      endMinute: toMinute(form.endTime)
+    });
+    setEntryForm(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800">Price Lists</h2>
+          <p className="text-sm text-gray-500">
+            List prices replace the shelf price. A list naming the machine beats its group's, which beats a fleet-wide list.
+          </p>
+        </div>
+        <button
+          onClick={() => setListForm({ name: '', currency: getFleetMoneyFormat(machines).currency, machineIds: [], groups: [] })}
+          className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <Plus size={18} />
+          <span>New Price List</span>
+        </button>
+      </div>
+
+      {listForm && (
+        <form onSubmit={handleCreateList} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input required value={listForm.name} onChange={e => setListForm({ ...listForm, name: e.target.value })} placeholder="Name, e.g. Tech park pricing" className={inputClass} />
+            <select
+              value={listForm.currency}
+              onChange={e => setListForm({ ...listForm, currency: e.target.value, machineIds: [] })}
+              className={inputClass}
+            >
+              {currencies.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 mb-2">Machines</p>
+            <div className="flex flex-wrap gap-2">
+              {machines.filter(m => m.currency === listForm.currency).map(machine => (
+                <button
+                  key={machine.id}
+                  type="button"
+                  onClick={() => setListForm({ ...listForm, machineIds: toggle(listForm.machineIds, machine.id) })}
+                  className={`px-2 py-1 rounded-lg border text-xs transition-colors ${
+                    listForm.machineIds.includes(machine.id) ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {machine.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 mb-2">Machine groups (with no machines or groups the list covers the fleet)</p>
+            <div className="flex flex-wrap gap-2">
+              {groups.map(group => (
+                <button
+                  key={group}
+                  type="button"
+                  onClick={() => setListForm({ ...listForm, groups: toggle(listForm.groups, group) })}
+                  className={`px-2 py-1 rounded-lg border text-xs transition-colors ${
+                    listForm.groups.includes(group) ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {group}
+                </button>
+              ))}
+              {groups.length === 0 && <span className="text-xs text-gray-400">No groups yet; set a machine's group from the Machines page</span>}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setListForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
+            <button type="submit" className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium">Create</button>
+          </div>
+        </form>
+      )}
+
+      {priceLists.map(list => {
+        const money = getMoneyFormat(machines.find(m => m.currency === list.currency));
+        const entries = [...list.entries].sort((a, b) => b.effectiveFrom - a.effectiveFrom || b.createdAt - a.createdAt);
+        const form = entryForm?.priceListId === list.id ? entryForm.form : null;
+        return (
+          <div key={list.id} className={`bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden ${list.active ? '' : 'opacity-60'}`}>
+            <div className="px-6 py-4 flex justify-between items-start border-b border-gray-100">
+              <div>
+                <p className="font-medium text-gray-900 flex items-center gap-2">
+                  <CalendarClock size={14} className="text-gray-400" />{list.name}
+                  {!list.active && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-500">Paused</span>}
+                </p>
+                <p className="text-xs text-gray-500">{describeTargets(list)}</p>
+              </div>
+              <div className="flex gap-4">
+                <button
+                  onClick={() => setEntryForm({ priceListId: list.id, form: EMPTY_ENTRY })}
+                  className="text-teal-600 hover:text-teal-800 text-sm font-medium"
+                >
+                  Schedule price
+                </button>
+                <button onClick={() => onTogglePriceList(list.id)} className="text-gray-500 hover:text-gray-700 text-sm font-medium">
+                  {list.active ? 'Pause' : 'Resume'}
+                </button>
+              </div>
+            </div>
+
+            {form && (
+              <form onSubmit={handleAddEntry} className="px-6 py-4 bg-gray-50 border-b border-gray-100 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <select required value={form.skuId} onChange={e => setEntryForm({ priceListId: list.id, form: { ...form, skuId: e.target.value } })} className={inputClass}>
+                    <option value="">Product…</option>
+                    {catalog.map(item => <option key={item.id} value={item.id}>{item.name} ({item.sku})</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    required
+                    value={form.price}
+                    onChange={e => setEntryForm({ priceListId: list.id, form: { ...form, price: e.target.value } })}
+                    placeholder={`Price (${list.currency})`}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2 items-center text-sm text-gray-500">
+                  <span>Effective</span>
+                  <input type="datetime-local" value={form.effectiveFrom} onChange={e => setEntryForm({ priceListId: list.id, form: { ...form, effectiveFrom: e.target.value } })} className={inputClass} />
+                  <span>until</span>
+                  <input type="datetime-local" value={form.effectiveUntil} onChange={e => setEntryForm({ priceListId: list.id, form: { ...form, effectiveUntil: e.target.value } })} className={inputClass} />
+                </div>
+                <div className="flex flex-wrap gap-2 items-center text-sm text-gray-500">
+                  <span>Daily band (optional)</span>
+                  <input type="time" value={form.startTime} onChange={e => setEntryForm({ priceListId: list.id, form: { ...form, startTime: e.target.value } })} className={inputClass} />
+                  <span>to</span>
+                  <input type="time" value={form.endTime} onChange={e => setEntryForm({ priceListId: list.id, form: { ...form, endTime: e.target.value } })} className={inputClass} />
+                </div>
+                <p className="text-xs text-gray-400">Leave the start blank to apply now. Prices can't be backdated.</p>
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={() => setEntryForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
+                  <button type="submit" className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium">Schedule</button>
+                </div>
+              </form>
+            )}
+
+            <table className="w-full text-left text-sm text-gray-600">
+              <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+                <tr>
+                  <th className="px-6 py-3">Product</th>
+                  <th className="px-6 py-3">Effective</th>
+                  <th className="px-6 py-3">Band</th>
+                  <th className="px-6 py-3 text-right">Price</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {entries.map(entry => {
+                  const hasEnded = entry.effectiveUntil !== undefined && entry.effectiveUntil <= now;
+                  return (
+                    <tr key={entry.id} className={hasEnded ? 'text-gray-400' : ''}>
+                      <td className="px-6 py-3">{productName(entry.skuId)}</td>
+                      <td className="px-6 py-3 text-xs">
+                        {entry.effectiveFrom > now && <span className="mr-1 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-700 font-medium">Scheduled</span>}
+                        {new Date(entry.effectiveFrom).toLocaleString()}
+                        {entry.effectiveUntil !== undefined && ` – ${new Date(entry.effectiveUntil).toLocaleString()}`}
+                      </td>
+                      <td className="px-6 py-3 text-xs">
+                        <span className="flex items-center gap-1"><Clock size={12} className="text-gray-400" />{formatPriceBand(entry)}</span>
+                      </td>
+                      <td className="px-6 py-3 text-right font-mono">{formatMoney(entry.price, money)}</td>
+                      <td className="px-6 py-3 text-right">
+                        {!hasEnded && (
+                          <button onClick={() => onEndPriceEntry(list.id, entry.id)} className="text-red-500 hover:text-red-700 text-xs font-medium">
+                            {entry.effectiveFrom > now ? 'Cancel' : 'End now'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {entries.length === 0 && (
+                  <tr><td colSpan={5} className="px-6 py-6 text-center text-gray-400">No prices scheduled</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+
+      {priceLists.length === 0 && !listForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 px-6 py-8 text-center text-gray-400">
+          No price lists yet, so every machine sells at its shelf prices
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceLists;
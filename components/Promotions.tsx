@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { Plus, Tag, Ticket, Clock } from 'lucide-react';
+import { CatalogItem, Machine, Promotion, PromotionType } from '../types';
+import { PROMOTION_TYPE_LABELS, PromotionInput, isPromotionLive } from '../services/promotionService';
+import { MoneyFormat, formatMoney, getMoneyFormats } from '../services/money';
+
+interface PromotionsProps {
+  promotions: Promotion[];
+  catalog: CatalogItem[];
+  machines: Machine[];
+  onCreatePromotion: (input: PromotionInput) => void;
+  onTogglePromotion: (promotionId: string) => void;
+}
+
+interface PromotionForm {
+  name: string;
+  type: PromotionType;
+  value: string;
+  buyQuantity: string;
+  getQuantity: string;
+  skuIds: string[];
+  machineIds: string[];
+  startsAt: string;
+  endsAt: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  couponCode: string;
+}
+
+const EMPTY_FORM: PromotionForm = {
+  name: '',
+  type: 'percent_off',
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  skuIds: [],
+  machineIds: [],
+  startsAt: '',
+  endsAt: '',
+  daysOfWeek: [],
+  startTime: '',
+  endTime: '',
+  couponCode: ''
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const VALUE_LABELS: Record<PromotionType, string> = {
+  percent_off: '% off',
+  amount_off: 'Amount off each',
+  multi_buy: 'Bundle price',
+  combo: 'Combo price',
+  bogo: '% off the free units'
+};
+
+const inputClass = 'px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400 text-sm';
+
+const toMinute = (time: string) => {
+  if (!time) return undefined;
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatMinute = (minute: number) =>
+  `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+// Amounts apply in each machine's own currency, so a deal over machines
+// pricing in several currencies is shown in each of them
+const describeDeal = (promotion: Promotion, formats: MoneyFormat[]) => {
+  const amount = formats.map(format => formatMoney(promotion.value, format)).join(' / ');
+  switch (promotion.type) {
+    case 'percent_off': return `${promotion.value}% off`;
+    case 'amount_off': return `${amount} off each`;
+    case 'multi_buy': return `${promotion.buyQuantity} for ${amount}`;
+    case 'combo': return `Combo for ${amount}`;
+    case 'bogo': return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${promotion.value === 100 ? 'free' : `${promotion.value}% off`}`;
+  }
+};
+
+const Promotions: React.FC<PromotionsProps> = ({ promotions, catalog, machines, onCreatePromotion, onTogglePromotion }) => {
+  const [form, setForm] = useState<PromotionForm | null>(null);
+  const now = Date.now();
+  const formatsFor = (promotion: Promotion) => getMoneyFormats(
+    promotion.machineIds.length ? machines.filter(m => promotion.machineIds.includes(m.id)) : machines
+  );
+
+  const productName = (skuId: string) => catalog.find(c => c.id === skuId)?.name || skuId;
+  const machineName = (machineId: string) => machines.find(m => m.id === machineId)?.name || machineId;
+
+  const describeSchedule = (promotion: Promotion) => {
+    const parts: string[] = [];
+    if (promotion.startsAt !== undefined) parts.push(`from ${new Date(promotion.startsAt).toLocaleDateString()}`);
+    if (promotion.endsAt !== undefined) parts.push(`until ${new Date(promotion.endsAt).toLocaleDateString()}`);
+    if (promotion.daysOfWeek?.length) parts.push(promotion.daysOfWeek.map(d => DAY_LABELS[d]).join(', '));
+    if (promotion.startMinute !== undefined && promotion.endMinute !== undefined) {
+      parts.push(`${formatMinute(promotion.startMinute)}–${formatMinute(promotion.endMinute)}`);
+    }
+    return parts.length ? parts.join(' · ') : 'Always';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    const hasQuantities = form.type === 'multi_buy' || form.type === 'bogo';
+    onCreatePromotion({
+      name: form.name,
+      type: form.type,
+      value: parseFloat(form.value),
+      buyQuantity: hasQuantities ? parseInt(form.buyQuantity) : undefined,
+      getQuantity: form.type === 'bogo' ? parseInt(form.getQuantity) : undefined,
+      skuIds: form.skuIds,
+      machineIds: form.machineIds,
+      startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00`).getTime() : undefined,
+      // The end date is inclusive, so the promotion runs to midnight after it
+      endsAt: form.endsAt ? new Date(`${form.endsAt}T00:00`).getTime() + 24 * 60 * 60 * 1000 : undefined,
+      daysOfWeek: form.daysOfWeek.length ? [...form.daysOfWeek].sort() : undefined,
+      startMinute: toMinute(form.startTime),
+      endMinute: toMinute(form.endTime),
+      couponCode: form.couponCode || undefined
+    });
+    setForm(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">Promotions</h2>
+        <button
+          onClick={() => setForm(EMPTY_FORM)}
+          className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <Plus size={18} />
+          <span>New Promotion</span>
+        </button>
+      </div>
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Name, e.g. Happy hour" className={inputClass} />
+            <select value={form.type} onChange={e => setForm({ ...form, type: e.target.value as PromotionType })} className={inputClass}>
+              {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(type => (
+                <option key={type} value={type}>{PROMOTION_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              required
+              value={form.value}
+              onChange={e => setForm({ ...form, value: e.target.value })}
+              placeholder={VALUE_LABELS[form.type]}
+              className={inputClass}
+            />
+            {(form.type === 'multi_buy' || form.type === 'bogo') && (
+              <input
+                type="number"
+                min={form.type === 'multi_buy' ? '2' : '1'}
+                required
+                value={form.buyQuantity}
+                onChange={e => setForm({ ...form, buyQuantity: e.target.value })}
+                placeholder={form.type === 'multi_buy' ? 'Units in bundle' : 'Units to buy'}
+                className={inputClass}
+              />
+            )}
+            {form.type === 'bogo' && (
+              <input
+                type="number"
+                min="1"
+                required
+                value={form.getQuantity}
+                onChange={e => setForm({ ...form, getQuantity: e.target.value })}
+                placeholder="Units discounted"
+                className={inputClass}
+              />
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 mb-2">
+              Products {form.type === 'combo' ? '(one of each makes the combo)' : '(none selected means all)'}
+            </p>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {catalog.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => setForm({ ...form, skuIds: toggle(form.skuIds, item.id) })}
+                  className={`px-2 py-1 rounded-lg border text-xs transition-colors ${
+                    form.skuIds.includes(item.id) ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {item.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 mb-2">Machines (none selected means all)</p>
+            <div className="flex flex-wrap gap-2">
+              {machines.map(machine => (
+                <button
+                  key={machine.id}
+                  type="button"
+                  onClick={() => setForm({ ...form, machineIds: toggle(form.machineIds, machine.id) })}
+                  className={`px-2 py-1 rounded-lg border text-xs transition-colors ${
+                    form.machineIds.includes(machine.id) ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {machine.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase text-gray-500">Schedule</p>
+              <div className="flex gap-2 items-center text-sm text-gray-500">
+                <input type="date" value={form.startsAt} onChange={e => setForm({ ...form, startsAt: e.target.value })} className={inputClass} />
+                <span>to</span>
+                <input type="date" value={form.endsAt} onChange={e => setForm({ ...form, endsAt: e.target.value })} className={inputClass} />
+              </div>
+              <div className="flex gap-1">
+                {DAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => setForm({ ...form, daysOfWeek: toggle(form.daysOfWeek, day) })}
+                    className={`w-10 py-1 rounded border text-xs transition-colors ${
+                      form.daysOfWeek.includes(day) ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2 items-center text-sm text-gray-500">
+                <input type="time" value={form.startTime} onChange={e => setForm({ ...form, startTime: e.target.value })} className={inputClass} />
+                <span>to</span>
+                <input type="time" value={form.endTime} onChange={e => setForm({ ...form, endTime: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase text-gray-500">Coupon code (optional)</p>
+              <input
+                value={form.couponCode}
+                onChange={e => setForm({ ...form, couponCode: e.target.value })}
+                placeholder="Only applies when entered at checkout"
+                className={`${inputClass} w-full uppercase`}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
+            <button type="submit" className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium">Create</button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-6 py-4">Promotion</th>
+              <th className="px-6 py-4">Applies to</th>
+              <th className="px-6 py-4">Schedule</th>
+              <th className="px-6 py-4">Status</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {promotions.map(promotion => {
+              const isLive = isPromotionLive(promotion, promotion.machineIds[0] || '', now);
+              return (
+                <tr key={promotion.id} className={`hover:bg-gray-50/50 ${promotion.active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-3">
+                    <p className="font-medium text-gray-900 flex items-center gap-2">
+                      <Tag size={14} className="text-gray-400" />{promotion.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {PROMOTION_TYPE_LABELS[promotion.type]} · {describeDeal(promotion, formatsFor(promotion))}
+                      {promotion.couponCode && (
+                        <span className="ml-2 inline-flex items-center gap-1 font-mono text-teal-700"><Ticket size={12} />{promotion.couponCode}</span>
+                      )}
+                    </p>
+                  </td>
+                  <td className="px-6 py-3 text-xs">
+                    <p>{promotion.skuIds.length ? promotion.skuIds.map(productName).join(', ') : 'All products'}</p>
+                    <p className="text-gray-400">{promotion.machineIds.length ? promotion.machineIds.map(machineName).join(', ') : 'All machines'}</p>
+                  </td>
+                  <td className="px-6 py-3 text-xs">
+                    <span className="flex items-center gap-1"><Clock size={12} className="text-gray-400" />{describeSchedule(promotion)}</span>
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      !promotion.active ? 'bg-gray-100 text-gray-500' : isLive ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                    }`}>
+                      {!promotion.active ? 'Paused' : isLive ? 'Live' : 'Scheduled'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button onClick={() => onTogglePromotion(promotion.id)} className="text-teal-600 hover:text-teal-800 text-sm font-medium">
+                      {promotion.active ? 'Pause' : 'Resume'}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {promotions.length === 0 && (
+              <tr><td colSpan={5} className="px-6 py-8 text-center text-gray-400">No promotions yet</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Promotions;
@@ -0,0 +1,484 @@
+import React, { useState } from 'react';
+import { ClipboardList, Plus, PackageCheck, XCircle, X, Trash2, Truck } from 'lucide-react';
+import { CatalogItem, CostingMethod, Depot, PurchaseOrder, Supplier } from '../types';
+import {
+  PurchaseOrderInput,
+  SupplierInput,
+  getLandedUnitCost,
+  getOrderValue,
+  getOutstanding
+} from '../services/purchasingService';
+import { DEFAULT_MONEY_FORMAT, formatMoney } from '../services/money';
+
+interface PurchasingProps {
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  catalog: CatalogItem[];
+  depots: Depot[];
+  onCreateSupplier: (input: SupplierInput) => void;
+  onCreatePurchaseOrder: (input: PurchaseOrderInput) => void;
+  onReceivePurchaseOrder: (orderId: string, quantities: Record<string, number>, method: CostingMethod) => void;
+  onCancelPurchaseOrder: (orderId: string) => void;
+}
+
+const STATUS_STYLES: Record<PurchaseOrder['status'], string> = {
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+const emptySupplier: SupplierInput = { name: '', contactEmail: '', phone: '', leadTimeDays: undefined };
+
+const Purchasing: React.FC<PurchasingProps> = ({
+  suppliers,
+  purchaseOrders,
+  catalog,
+  depots,
+  onCreateSupplier,
+  onCreatePurchaseOrder,
+  onReceivePurchaseOrder,
+  onCancelPurchaseOrder
+}) => {
+  const [isSupplierModalOpen, setIsSupplierModalOpen] = useState(false);
+  const [supplierForm, setSupplierForm] = useState<SupplierInput>(emptySupplier);
+  const [isOrderModalOpen, setIsOrderModalOpen] = useState(false);
+  const [orderForm, setOrderForm] = useState<PurchaseOrderInput>({ supplierId: '', depotId: '', lines: [] });
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [receiptQuantities, setReceiptQuantities] = useState<Record<string, number>>({});
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>('weighted_average');
+
+  const supplierName = (id: string) => suppliers.find(s => s.id === id)?.name || 'Unknown supplier';
+  const depotName = (id: string) => depots.find(d => d.id === id)?.name || 'Unknown depot';
+
+  const handleCreateSupplier = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreateSupplier(supplierForm);
+    setSupplierForm(emptySupplier);
+    setIsSupplierModalOpen(false);
+  };
+
+  const openOrderModal = () => {
+    setOrderForm({
+      supplierId: suppliers[0]?.id || '',
+      depotId: depots[0]?.id || '',
+      freightCost: 0,
+      notes: '',
+      lines: catalog[0] ? [{ skuId: catalog[0].id, quantity: 24, unitCost: catalog[0].cost }] : []
+    });
+    setIsOrderModalOpen(true);
+  };
+
+  const updateOrderLine = (index: number, changes: Partial<PurchaseOrderInput['lines'][number]>) => {
+    setOrderForm({ ...orderForm, lines: orderForm.lines.map((line, i) => i === index ? { ...line, ...changes } : line) });
+  };
+
+  const handleCreateOrder = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreatePurchaseOrder(orderForm);
+    setIsOrderModalOpen(false);
+  };
+
+  const openReceiveModal = (order: PurchaseOrder) => {
+    const defaults: Record<string, number> = {};
+    order.lines.forEach(line => { defaults[line.skuId] = getOutstanding(line); });
+    setReceiptQuantities(defaults);
+    setCostingMethod('weighted_average');
+    setReceivingOrder(order);
+  };
+
+  const handleReceive = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receivingOrder) return;
+    onReceivePurchaseOrder(receivingOrder.id, receiptQuantities, costingMethod);
+    setReceivingOrder(null);
+  };
+
+  const inputClassName = "w-full px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400";
+
+  return (
+    <div className="space-y-6">
+      {/* Supplier Modal */}
+      {isSupplierModalOpen && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-gray-800">Add Supplier</h3>
+              <button onClick={() => setIsSupplierModalOpen(false)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleCreateSupplier} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  required
+                  value={supplierForm.name}
+                  onChange={e => setSupplierForm({ ...supplierForm, name: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    value={supplierForm.contactEmail}
+                    onChange={e => setSupplierForm({ ...supplierForm, contactEmail: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                  <input
+                    value={supplierForm.phone}
+                    onChange={e => setSupplierForm({ ...supplierForm, phone: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Lead time (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={supplierForm.leadTimeDays ?? ''}
+                  onChange={e => setSupplierForm({ ...supplierForm, leadTimeDays: e.target.value ? parseInt(e.target.value) : undefined })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => setIsSupplierModalOpen(false)}
+                  className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors font-medium">
+                  Add Supplier
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase Order Modal */}
+      {isOrderModalOpen && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-gray-800">New Purchase Order</h3>
+              <button onClick={() => setIsOrderModalOpen(false)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleCreateOrder} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+                  <select
+                    required
+                    value={orderForm.supplierId}
+                    onChange={e => setOrderForm({ ...orderForm, supplierId: e.target.value })}
+                    className={inputClassName}
+                  >
+                    {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Deliver to</label>
+                  <select
+                    required
+                    value={orderForm.depotId}
+                    onChange={e => setOrderForm({ ...orderForm, depotId: e.target.value })}
+                    className={inputClassName}
+                  >
+                    {depots.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs font-semibold text-gray-500 uppercase">
+                  <span className="col-span-6">Product</span>
+                  <span className="col-span-2">Qty</span>
+                  <span className="col-span-3">Unit cost</span>
+                </div>
+                {orderForm.lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      value={line.skuId}
+                      onChange={e => updateOrderLine(index, {
+                        skuId: e.target.value,
+                        unitCost: catalog.find(c => c.id === e.target.value)?.cost ?? line.unitCost
+                      })}
+                      className={`${inputClassName} col-span-6`}
+                    >
+                      {catalog.map(item => <option key={item.id} value={item.id}>{item.sku} · {item.name}</option>)}
+                    </select>
+                    <input
+                      type="number"
+                      min="1"
+                      value={line.quantity}
+                      onChange={e => updateOrderLine(index, { quantity: parseInt(e.target.value) || 0 })}
+                      className={`${inputClassName} col-span-2`}
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={line.unitCost}
+                      onChange={e => updateOrderLine(index, { unitCost: parseFloat(e.target.value) })}
+                      className={`${inputClassName} col-span-3`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setOrderForm({ ...orderForm, lines: orderForm.lines.filter((_, i) => i !== index) })}
+                      className="col-span-1 p-1.5 text-gray-400 hover:text-red-600"
+                      title="Remove line"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => catalog[0] && setOrderForm({
+                    ...orderForm,
+                    lines: [...orderForm.lines, { skuId: catalog[0].id, quantity: 24, unitCost: catalog[0].cost }]
+                  })}
+                  className="text-sm text-teal-600 hover:text-teal-800 flex items-center gap-1"
+                >
+                  <Plus size={14} /> Add line
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Freight ({DEFAULT_MONEY_FORMAT.currency})</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={orderForm.freightCost ?? 0}
+                    onChange={e => setOrderForm({ ...orderForm, freightCost: parseFloat(e.target.value) || 0 })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <input
+                    value={orderForm.notes}
+                    onChange={e => setOrderForm({ ...orderForm, notes: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Order value {formatMoney(orderForm.lines.reduce((sum, l) => sum + l.quantity * (l.unitCost || 0), 0))}.
+                Freight is spread across the lines by value to give each unit's landed cost.
+              </p>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => setIsOrderModalOpen(false)}
+                  className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors font-medium">
+                  Place Order
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Receive Modal */}
+      {receivingOrder && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-gray-800">Receive {receivingOrder.poNumber}</h3>
+              <button onClick={() => setReceivingOrder(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleReceive} className="space-y-4">
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {receivingOrder.lines.map(line => {
+                  const outstanding = getOutstanding(line);
+                  const item = catalog.find(c => c.id === line.skuId);
+                  return (
+                    <div key={line.skuId} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <div>
+                        <p className="font-medium text-gray-800">{line.productName}</p>
+                        <p className="text-xs text-gray-400">
+                          {outstanding} outstanding · landed {formatMoney(getLandedUnitCost(receivingOrder, line))} (now {item ? formatMoney(item.cost) : '-'})
+                        </p>
+                      </div>
+                      <input
+                        type="number"
+                        min="0"
+                        max={outstanding}
+                        disabled={outstanding === 0}
+                        value={receiptQuantities[line.skuId] ?? 0}
+                        onChange={e => setReceiptQuantities({ ...receiptQuantities, [line.skuId]: parseInt(e.target.value) || 0 })}
+                        className="w-20 px-2 py-1 bg-white text-gray-900 border border-gray-300 rounded-lg text-right disabled:bg-gray-50"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Update product cost using</label>
+                <select
+                  value={costingMethod}
+                  onChange={e => setCostingMethod(e.target.value as CostingMethod)}
+                  className={inputClassName}
+                >
+                  <option value="weighted_average">Weighted average of stock on hand</option>
+                  <option value="last_cost">Last landed cost</option>
+                </select>
+              </div>
+              <p className="text-xs text-gray-500">Goods are booked into {depotName(receivingOrder.depotId)}.</p>
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => setReceivingOrder(null)}
+                  className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors font-medium flex items-center gap-2"
+                >
+                  <PackageCheck size={18} />
+                  <span>Receive</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-800">Purchasing</h2>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setIsSupplierModalOpen(true)}
+            className="flex items-center space-x-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg transition-colors"
+          >
+            <Truck size={18} />
+            <span>Add Supplier</span>
+          </button>
+          <button
+            onClick={openOrderModal}
+            disabled={suppliers.length === 0 || depots.length === 0}
+            className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Plus size={18} />
+            <span>New Purchase Order</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-4">PO</th>
+                <th className="px-6 py-4">Supplier</th>
+                <th className="px-6 py-4">Depot</th>
+                <th className="px-6 py-4">Items</th>
+                <th className="px-6 py-4 text-right">Value</th>
+                <th className="px-6 py-4 text-center">Status</th>
+                <th className="px-6 py-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {purchaseOrders.map(order => (
+                <tr key={order.id} className="hover:bg-gray-50/50">
+                  <td className="px-6 py-4">
+                    <p className="font-mono font-medium text-gray-900">{order.poNumber}</p>
+                    <p className="text-xs text-gray-400">{new Date(order.createdAt).toLocaleDateString()}</p>
+                  </td>
+                  <td className="px-6 py-4">{supplierName(order.supplierId)}</td>
+                  <td className="px-6 py-4 text-xs">{depotName(order.depotId)}</td>
+                  <td className="px-6 py-4 text-xs">
+                    {order.lines.map(l => (
+                      <p key={l.skuId}>{l.productName}: {l.receivedQuantity}/{l.orderedQuantity}</p>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 text-right font-mono">
+                    {formatMoney(getOrderValue(order) + order.freightCost)}
+                  </td>
+                  <td className="px-6 py-4 text-center">
+                    <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${STATUS_STYLES[order.status]}`}>
+                      {order.status.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    {(order.status === 'ordered' || order.status === 'partially_received') && (
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={() => openReceiveModal(order)}
+                          className="p-1.5 text-gray-500 hover:text-teal-600 hover:bg-teal-50 rounded transition-colors"
+                          title="Receive goods"
+                        >
+                          <PackageCheck size={18} />
+                        </button>
+                        {order.status === 'ordered' && (
+                          <button
+                            onClick={() => onCancelPurchaseOrder(order.id)}
+                            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                            title="Cancel order"
+                          >
+                            <XCircle size={18} />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {purchaseOrders.length === 0 && (
+                <tr><td colSpan={7} className="px-6 py-8 text-center text-gray-400">No purchase orders yet</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+        <h3 className="text-gray-700 font-semibold mb-3 flex items-center gap-2">
+          <ClipboardList size={16} className="text-gray-400" /> Suppliers
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {suppliers.map(supplier => {
+            const openOrders = purchaseOrders.filter(o => o.supplierId === supplier.id && (o.status === 'ordered' || o.status === 'partially_received'));
+            return (
+              <div key={supplier.id} className="border border-gray-100 rounded-lg p-3 text-sm">
+                <p className="font-semibold text-gray-800">{supplier.name}</p>
+                {supplier.contactEmail && <p className="text-xs text-gray-500">{supplier.contactEmail}</p>}
+                {supplier.phone && <p className="text-xs text-gray-500">{supplier.phone}</p>}
+                <p className="text-xs text-gray-400 mt-1">
+                  {supplier.leadTimeDays !== undefined ? `${supplier.leadTimeDays} day lead time · ` : ''}{openOrders.length} open order(s)
+                </p>
+              </div>
+            );
+          })}
+        </div>
+        {suppliers.length === 0 && <p className="text-sm text-gray-400">No suppliers yet.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default Purchasing;
@@ -0,0 +1,30 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../services/qrCode';
+
+interface QrCodeImageProps {
+  value: string;
+  size?: number;
+}
+
+const QUIET_ZONE = 4;
+
+const QrCodeImage: React.FC<QrCodeImageProps> = ({ value, size = 200 }) => {
+  // One path for all dark modules keeps the SVG small
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const commands: string[] = [];
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) commands.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+    }));
+    return { path: commands.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${dimension} ${dimension}`} shapeRendering="crispEdges" role="img" aria-label="Payment QR code">
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCodeImage;
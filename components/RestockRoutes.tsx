@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { Truck, Printer, CheckCircle2, XCircle, MapPin, Route, X, Save } from 'lucide-react';
+import { Machine, Planogram, Product, SaleRecord, WorkOrder } from '../types';
+import { DEFAULT_COVER_DAYS, RouteStop, createWorkOrders, planPickList, planRoute } from '../services/restockPlanner';
+
+interface RestockRoutesProps {
+  products: Product[];
+  machines: Machine[];
+  planograms: Planogram[];
+  sales: SaleRecord[];
+  workOrders: WorkOrder[];
+  onCreateWorkOrders: (orders: WorkOrder[]) => void;
+  onCompleteWorkOrder: (orderId: string, deliveries: Record<string, { quantity: number; expiryDate: number }>) => void;
+  onCancelWorkOrder: (orderId: string) => void;
+}
+
+const DEFAULT_SHELF_LIFE_MS = 30 * 86400000;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+// Opens a plain, printer-friendly copy of a work order for the driver
+const printWorkOrder = (order: WorkOrder, machine?: Machine) => {
+  const win = window.open('', '_blank', 'width=800,height=600');
+  if (!win) {
+    alert("Please allow pop-ups to print work orders.");
+    return;
+  }
+  const rows = order.lines.map(line => `
+    <tr>
+      <td>${escapeHtml(line.slotCodes.join(', ') || '-')}</td>
+      <td>${escapeHtml(line.productName)}</td>
+      <td style="text-align:right">${line.plannedQuantity}</td>
+      <td style="width:80px;border-bottom:1px solid #999"></td>
+    </tr>`).join('');
+  win.document.write(`
+    <html><head><title>Work Order ${escapeHtml(order.id)}</title>
+    <style>body{font-family:sans-serif;padding:24px}table{width:100%;border-collapse:collapse}td,th{padding:6px;border-bottom:1px solid #ddd;text-align:left}</style>
+    </head><body>
+    <h2>Restock Work Order · Stop ${order.stopNumber}</h2>
+    <p><strong>${escapeHtml(machine?.name || order.machineId)}</strong><br/>${escapeHtml(machine?.location || '')}</p>
+    <p>Created ${new Date(order.createdAt).toLocaleString()}</p>
+    <table><thead><tr><th>Slot</th><th>Product</th><th style="text-align:right">Load</th><th>Loaded</th></tr></thead>
+    <tbody>${rows}</tbody></table>
+    <p style="margin-top:32px">Driver signature: ______________________</p>
+    </body></html>`);
+  win.document.close();
+  win.print();
+};
+
+const RestockRoutes: React.FC<RestockRoutesProps> = ({
+  products,
+  machines,
+  planograms,
+  sales,
+  workOrders,
+  onCreateWorkOrders,
+  onCompleteWorkOrder,
+  onCancelWorkOrder
+}) => {
+  const [coverDays, setCoverDays] = useState(DEFAULT_COVER_DAYS);
+  const [plannedRoute, setPlannedRoute] = useState<RouteStop[] | null>(null);
+  const [completingOrder, setCompletingOrder] = useState<WorkOrder | null>(null);
+  const [deliveries, setDeliveries] = useState<Record<string, { quantity: number; expiryDate: number }>>({});
+
+  const openOrders = workOrders.filter(o => o.status === 'open');
+  const closedOrders = workOrders.filter(o => o.status !== 'open').slice(0, 10);
+  const machineFor = (id: string) => machines.find(m => m.id === id);
+
+  const handlePlan = () => {
+    const activeIds = new Set(machines.map(m => m.id));
+    const lines = planPickList(products.filter(p => activeIds.has(p.machineId)), planograms, sales, coverDays);
+    setPlannedRoute(planRoute(machines, lines));
+  };
+
+  const handleCreateOrders = () => {
+    if (!plannedRoute || plannedRoute.length === 0) return;
+    onCreateWorkOrders(createWorkOrders(plannedRoute));
+    setPlannedRoute(null);
+  };
+
+  const openCompleteModal = (order: WorkOrder) => {
+    const defaults: Record<string, { quantity: number; expiryDate: number }> = {};
+    order.lines.forEach(line => {
+      defaults[line.productId] = { quantity: line.plannedQuantity, expiryDate: Date.now() + DEFAULT_SHELF_LIFE_MS };
+    });
+    setDeliveries(defaults);
+    setCompletingOrder(order);
+  };
+
+  const handleComplete = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!completingOrder) return;
+    onCompleteWorkOrder(completingOrder.id, deliveries);
+    setCompletingOrder(null);
+  };
+
+  const inputClassName = "w-full px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400";
+
+  const renderOrder = (order: WorkOrder) => {
+    const machine = machineFor(order.machineId);
+    const units = order.lines.reduce((sum, l) => sum + (order.status === 'completed' ? l.deliveredQuantity || 0 : l.plannedQuantity), 0);
+    return (
+      <div key={order.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+        <div className="flex justify-between items-start mb-3">
+          <div>
+            <p className="text-xs font-semibold text-teal-600 uppercase">Stop {order.stopNumber}</p>
+            <h4 className="font-semibold text-gray-800">{machine?.name || order.machineId}</h4>
+            <p className="text-xs text-gray-500">{machine?.location}</p>
+          </div>
+          <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${
+            order.status === 'open' ? 'bg-blue-100 text-blue-800' : order.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'
+          }`}>
+            {order.status}
+          </span>
+        </div>
+        <table className="w-full text-left text-xs text-gray-600 mb-3">
+          <tbody className="divide-y divide-gray-100">
+            {order.lines.map(line => (
+              <tr key={line.productId}>
+                <td className="py-1.5 font-mono w-16">{line.slotCodes.join(', ') || '-'}</td>
+                <td className="py-1.5">{line.productName}</td>
+                <td className="py-1.5 text-right font-mono">
+                  {order.status === 'completed' ? `${line.deliveredQuantity ?? 0}/${line.plannedQuantity}` : `+${line.plannedQuantity}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex items-center justify-between pt-3 border-t border-gray-100">
+          <span className="text-xs text-gray-400">{units} units · {new Date(order.completedAt || order.createdAt).toLocaleString()}</span>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => printWorkOrder(order, machine)}
+              className="p-1.5 text-gray-500 hover:text-teal-600 hover:bg-teal-50 rounded transition-colors"
+              title="Print Work Order"
+            >
+              <Printer size={18} />
+            </button>
+            {order.status === 'open' && (
+              <>
+                <button
+                  onClick={() => openCompleteModal(order)}
+                  className="p-1.5 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded transition-colors"
+                  title="Mark Complete"
+                >
+                  <CheckCircle2 size={18} />
+                </button>
+                <button
+                  onClick={() => onCancelWorkOrder(order.id)}
+                  className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                  title="Cancel Work Order"
+                >
+                  <XCircle size={18} />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Completion Modal */}
+      {completingOrder && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-gray-800">Complete Stop {completingOrder.stopNumber}</h3>
+              <button onClick={() => setCompletingOrder(null)} className="text-gray-400 hover:text-gray-600 transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleComplete} className="space-y-4">
+              {completingOrder.lines.map(line => (
+                <div key={line.productId} className="grid grid-cols-3 gap-3 items-end">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-800">{line.productName}</p>
+                    <p className="text-xs text-gray-400">Planned {line.plannedQuantity}</p>
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    max={line.plannedQuantity}
+                    value={deliveries[line.productId]?.quantity ?? 0}
+                    onChange={e => setDeliveries({
+                      ...deliveries,
+                      [line.productId]: { ...deliveries[line.productId], quantity: parseInt(e.target.value) || 0 }
+                    })}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="date"
+                    value={new Date(deliveries[line.productId]?.expiryDate || Date.now()).toISOString().split('T')[0]}
+                    onChange={e => setDeliveries({
+                      ...deliveries,
+                      [line.productId]: { ...deliveries[line.productId], expiryDate: new Date(e.target.value).getTime() }
+                    })}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">Delivered units are added to the machine's stock as new lots with the expiry shown.</p>
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={() => setCompletingOrder(null)}
+                  className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors font-medium flex items-center gap-2"
+                >
+                  <Save size={18} />
+                  <span>Post to Inventory</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-800">Restock Routes</h2>
+        <div className="flex items-center space-x-2">
+          <label className="text-sm text-gray-600">Cover</label>
+          <input
+            type="number"
+            min="1"
+            value={coverDays}
+            onChange={e => setCoverDays(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-16 px-2 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg text-sm"
+          />
+          <span className="text-sm text-gray-600">days</span>
+          <button
+            onClick={handlePlan}
+            className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Route size={18} />
+            <span>Plan Route</span>
+          </button>
+        </div>
+      </div>
+
+      {plannedRoute && (
+        <div className="bg-indigo-50 border border-indigo-200 rounded-xl p-4 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-indigo-900">Proposed Route</h3>
+            <div className="flex items-center space-x-2">
+              <button onClick={() => setPlannedRoute(null)} className="text-sm text-indigo-500 hover:text-indigo-700">Discard</button>
+              <button
+                onClick={handleCreateOrders}
+                disabled={plannedRoute.length === 0}
+                className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg text-sm"
+              >
+                <Truck size={16} />
+                <span>Create Work Orders</span>
+              </button>
+            </div>
+          </div>
+          {plannedRoute.length === 0 && <p className="text-sm text-indigo-800">Every machine is stocked for the cover period.</p>}
+          {plannedRoute.map(stop => (
+            <div key={stop.location} className="bg-white rounded-lg p-4">
+              <p className="font-semibold text-gray-800 flex items-center gap-2 mb-2">
+                <span className="w-6 h-6 rounded-full bg-indigo-600 text-white text-xs flex items-center justify-center">{stop.stopNumber}</span>
+                <MapPin size={14} className="text-gray-400" /> {stop.location}
+              </p>
+              {stop.machines.map(({ machine, lines }) => (
+                <div key={machine.id} className="mb-2">
+                  <p className="text-sm font-medium text-gray-700">{machine.name}</p>
+                  <table className="w-full text-left text-xs text-gray-600">
+                    <thead className="text-gray-400 uppercase">
+                      <tr>
+                        <th className="py-1">Slot</th>
+                        <th className="py-1">Product</th>
+                        <th className="py-1 text-right">On hand</th>
+                        <th className="py-1 text-right">Sells/day</th>
+                        <th className="py-1 text-right">Load</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lines.map(line => (
+                        <tr key={line.product.id} className="border-t border-gray-100">
+                          <td className="py-1 font-mono">{line.slotCodes.join(', ') || '-'}</td>
+                          <td className="py-1">{line.product.name}</td>
+                          <td className="py-1 text-right font-mono">{line.product.quantity}</td>
+                          <td className="py-1 text-right font-mono">{line.dailyVelocity.toFixed(1)}</td>
+                          <td className="py-1 text-right font-mono font-bold text-teal-700">+{line.quantity}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-gray-700 font-semibold mb-3">Open Work Orders ({openOrders.length})</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {openOrders.map(renderOrder)}
+        </div>
+        {openOrders.length === 0 && <p className="text-sm text-gray-400">No open work orders. Plan a route to create some.</p>}
+      </div>
+
+      {closedOrders.length > 0 && (
+        <div>
+          <h3 className="text-gray-700 font-semibold mb-3">Recently Closed</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {closedOrders.map(renderOrder)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RestockRoutes;
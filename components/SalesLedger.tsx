@@ -0,0 +1,276 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowUp, ArrowDown, FilterX, AlertTriangle } from 'lucide-react';
+import { CatalogItem, Machine, PaymentMethod, SaleRecord, Transaction } from '../types';
+import { SalesFilter, SalesSort, SalesSortKey, filterSales, getSalesTotals, sortSales } from '../services/salesLedgerService';
+import { RefundOptions, getAverageTickets, getBasketMetrics, getFailedVendRates } from '../services/transactionService';
+import { formatCurrencyAmounts, formatMoney, getFleetMoneyFormat, getMoneyFormat, sumByCurrency } from '../services/money';
+import TransactionDetail from './TransactionDetail';
+
+interface SalesLedgerProps {
+  sales: SaleRecord[];
+  transactions: Transaction[];
+  catalog: CatalogItem[];
+  machines: Machine[];
+  onRefundTransaction: (transactionId: string, quantities: Record<string, number>, options: RefundOptions) => void;
+}
+
+// Rows have a fixed height so only the visible window needs to be rendered
+const ROW_HEIGHT = 44;
+const VIEWPORT_HEIGHT = 528;
+const OVERSCAN = 8;
+
+const COLUMNS: { key: SalesSortKey; label: string; align?: string }[] = [
+  { key: 'timestamp', label: 'Date' },
+  { key: 'productName', label: 'Product' },
+  { key: 'quantity', label: 'Qty', align: 'text-right' },
+  { key: 'revenue', label: 'Revenue', align: 'text-right' },
+  { key: 'profit', label: 'Profit', align: 'text-right' }
+];
+
+// Date inputs work in local days, so format without converting to UTC
+const toDateInput = (timestamp?: number) => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const SalesLedger: React.FC<SalesLedgerProps> = ({ sales, transactions, catalog, machines, onRefundTransaction }) => {
+  const [filter, setFilter] = useState<SalesFilter>({});
+  const [sort, setSort] = useState<SalesSort>({ key: 'timestamp', direction: 'desc' });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selectedTransactionId, setSelectedTransactionId] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(() => sortSales(filterSales(sales, filter, catalog), sort), [sales, filter, catalog, sort]);
+  const totals = useMemo(() => getSalesTotals(rows), [rows]);
+  // Baskets with at least one line matching the filters
+  const baskets = useMemo(() => {
+    const ids = new Set(rows.map(s => s.transactionId));
+    return transactions.filter(t => ids.has(t.id));
+  }, [rows, transactions]);
+  const basket = getBasketMetrics(baskets);
+  const averageTickets = getAverageTickets(baskets, machines);
+  const failedVends = useMemo(() => getFailedVendRates(transactions), [transactions]);
+  const categories = useMemo(() => Array.from(new Set(catalog.map(c => c.category))).sort(), [catalog]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(first, last);
+  const shownFrom = Math.min(rows.length, Math.floor(scrollTop / ROW_HEIGHT) + 1);
+  const shownTo = Math.min(rows.length, Math.floor((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT));
+
+  const machineName = (id: string) => machines.find(m => m.id === id)?.name || id;
+  const moneyFor = (id: string) => getMoneyFormat(machines.find(m => m.id === id));
+  const money = filter.machineId ? moneyFor(filter.machineId) : getFleetMoneyFormat(machines);
+  // Amounts are never converted, so the totals are given per currency
+  const totalBy = (amountOf: (s: SaleRecord) => number) =>
+    formatCurrencyAmounts(sumByCurrency(rows.map(s => ({ machineId: s.machineId, amount: amountOf(s) })), machines), money);
+
+  const updateFilter = (changes: Partial<SalesFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  };
+
+  const toggleSort = (key: SalesSortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'productName' ? 'asc' : 'desc' });
+  };
+
+  const selectedTransaction = transactions.find(t => t.id === selectedTransactionId);
+
+  const inputClassName = "w-full px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none text-sm";
+
+  return (
+    <div className="space-y-6">
+      {selectedTransaction && (
+        <TransactionDetail
+          transaction={selectedTransaction}
+          machineName={machineName(selectedTransaction.machineId)}
+          money={moneyFor(selectedTransaction.machineId)}
+          onRefund={onRefundTransaction}
+          onClose={() => setSelectedTransactionId(null)}
+        />
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-800">Sales Ledger</h2>
+        <div className="flex flex-wrap gap-4 text-sm text-gray-500">
+          <span><strong className="text-gray-800 font-mono">{totals.count}</strong> lines</span>
+          <span><strong className="text-gray-800 font-mono">{totals.units}</strong> units</span>
+          <span>Revenue <strong className="text-teal-700 font-mono">{totalBy(s => s.revenue)}</strong></span>
+          <span>Tax <strong className="text-gray-800 font-mono">{totalBy(s => s.tax?.amount || 0)}</strong></span>
+          <span>Profit <strong className="text-gray-800 font-mono">{totalBy(s => s.profit)}</strong></span>
+          <span>Avg ticket <strong className="text-gray-800 font-mono">{formatCurrencyAmounts(averageTickets, money)}</strong></span>
+          <span>Basket <strong className="text-gray-800 font-mono">{basket.averageItems.toFixed(1)}</strong> items</span>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 grid grid-cols-2 md:grid-cols-7 gap-3 items-end">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <input
+            type="date"
+            value={toDateInput(filter.from)}
+            onChange={e => updateFilter({ from: e.target.value ? new Date(`${e.target.value}T00:00:00`).getTime() : undefined })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <input
+            type="date"
+            value={toDateInput(filter.to)}
+            onChange={e => updateFilter({ to: e.target.value ? new Date(`${e.target.value}T23:59:59.999`).getTime() : undefined })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Machine</label>
+          <select value={filter.machineId || ''} onChange={e => updateFilter({ machineId: e.target.value || undefined })} className={inputClassName}>
+            <option value="">All machines</option>
+            {machines.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Product</label>
+          <select value={filter.skuId || ''} onChange={e => updateFilter({ skuId: e.target.value || undefined })} className={inputClassName}>
+            <option value="">All products</option>
+            {catalog.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Category</label>
+          <select value={filter.category || ''} onChange={e => updateFilter({ category: e.target.value || undefined })} className={inputClassName}>
+            <option value="">All categories</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Payment</label>
+          <select
+            value={filter.paymentMethod || ''}
+            onChange={e => updateFilter({ paymentMethod: (e.target.value || undefined) as PaymentMethod | undefined })}
+            className={inputClassName}
+          >
+            <option value="">All methods</option>
+            {Object.values(PaymentMethod).map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </div>
+        <button
+          onClick={() => updateFilter({ from: undefined, to: undefined, machineId: undefined, skuId: undefined, category: undefined, paymentMethod: undefined })}
+          className="flex items-center justify-center gap-2 px-3 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 text-sm"
+        >
+          <FilterX size={16} /> Clear
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div
+          ref={viewportRef}
+          className="overflow-auto"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 uppercase text-xs font-semibold text-gray-500 sticky top-0 z-10">
+              <tr>
+                {COLUMNS.slice(0, 2).map(col => (
+                  <th key={col.key} className="px-4 py-3 cursor-pointer select-none" onClick={() => toggleSort(col.key)}>
+                    <span className="inline-flex items-center gap-1">
+                      {col.label}
+                      {sort.key === col.key && (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                    </span>
+                  </th>
+                ))}
+                <th className="px-4 py-3">Machine</th>
+                <th className="px-4 py-3">Method</th>
+                {COLUMNS.slice(2).map(col => (
+                  <th key={col.key} className={`px-4 py-3 cursor-pointer select-none ${col.align}`} onClick={() => toggleSort(col.key)}>
+                    <span className="inline-flex items-center gap-1">
+                      {col.label}
+                      {sort.key === col.key && (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                    </span>
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right">Tax</th>
+              </tr>
+            </thead>
+            <tbody>
+              {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+              {visibleRows.map(s => (
+                <tr
+                  key={s.id}
+                  style={{ height: ROW_HEIGHT }}
+                  onClick={() => s.transactionId && setSelectedTransactionId(s.transactionId)}
+                  className="border-t border-gray-100 hover:bg-gray-50/50 cursor-pointer"
+                >
+                  <td className="px-4 whitespace-nowrap">{new Date(s.timestamp).toLocaleDateString()} {new Date(s.timestamp).toLocaleTimeString()}</td>
+                  <td className="px-4 font-medium text-gray-800">{s.productName}</td>
+                  <td className="px-4 text-xs text-gray-500">{machineName(s.machineId)}</td>
+                  <td className="px-4">{s.refundId ? <span className="text-orange-600">Refund</span> : s.paymentMethod}</td>
+                  <td className="px-4 text-right font-mono">{s.quantity}</td>
+                  <td className={`px-4 text-right font-medium ${s.refundId ? 'text-orange-600' : 'text-teal-700'}`}>
+                    {formatMoney(s.revenue, moneyFor(s.machineId), { signed: true })}
+                  </td>
+                  <td className="px-4 text-right font-mono text-gray-500">{formatMoney(s.profit, moneyFor(s.machineId))}</td>
+                  <td className="px-4 text-right font-mono text-gray-500" title={s.tax ? `${s.tax.name}${s.tax.inclusive ? ', included in price' : ''}` : undefined}>
+                    {s.tax ? formatMoney(s.tax.amount, moneyFor(s.machineId)) : '-'}
+                  </td>
+                </tr>
+              ))}
+              {last < rows.length && <tr style={{ height: (rows.length - last) * ROW_HEIGHT }} />}
+            </tbody>
+          </table>
+          {rows.length === 0 && (
+            <div className="p-8 text-center text-gray-400">No sales match these filters</div>
+          )}
+        </div>
+        <div className="px-4 py-2 border-t border-gray-100 text-xs text-gray-400">
+          {rows.length > 0
+            ? `Showing ${shownFrom}–${shownTo} of ${rows.length}`
+            : 'No rows'}
+        </div>
+      </div>
+
+      {/* Failed Vends */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="text-gray-700 font-semibold mb-4 flex items-center gap-2">
+          <AlertTriangle size={18} className="text-gray-400" /> Failed Vends
+        </h3>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {[
+            { title: 'By machine', rows: failedVends.machines },
+            { title: 'By slot', rows: failedVends.slots.filter(r => r.failed > 0) }
+          ].map(section => (
+            <div key={section.title}>
+              <h4 className="text-xs uppercase font-semibold text-gray-500 mb-2">{section.title}</h4>
+              <table className="w-full text-left text-sm text-gray-600">
+                <tbody className="divide-y divide-gray-100">
+                  {section.rows.map(row => (
+                    <tr key={`${row.machineId}-${row.slotCode || ''}`}>
+                      <td className="py-2">
+                        {machineName(row.machineId)}
+                        {row.slotCode && <span className="font-mono text-xs text-gray-500"> · {row.slotCode}</span>}
+                      </td>
+                      <td className="py-2 text-right font-mono text-xs text-gray-400">{row.failed}/{row.attempted} units</td>
+                      <td className={`py-2 text-right font-mono ${row.rate > 0.02 ? 'text-red-600 font-bold' : 'text-gray-500'}`}>
+                        {(row.rate * 100).toFixed(1)}%
+                      </td>
+                    </tr>
+                  ))}
+                  {section.rows.length === 0 && (
+                    <tr><td className="py-2 text-gray-400">No failed vends recorded</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SalesLedger;
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, X, AlertTriangle } from 'lucide-react';
+import { Machine, Planogram, Product, StockCount } from '../types';
+import { getProductSlotCodes } from '../services/planogramService';
+import { DEFAULT_SHRINKAGE_THRESHOLD, getCountSummary, getVariance, isShrinkage } from '../services/stockCountService';
+import { formatMoney, getMoneyFormat } from '../services/money';
+
+interface StockCountPanelProps {
+  machines: Machine[];
+  products: Product[];
+  planograms: Planogram[];
+  stockCounts: StockCount[];
+  onPostStockCount: (machineId: string, counts: Record<string, number>, countedBy: string, threshold: number, notes?: string) => void;
+  onClose: () => void;
+}
+
+const formatVariance = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const StockCountPanel: React.FC<StockCountPanelProps> = ({
+  machines,
+  products,
+  planograms,
+  stockCounts,
+  onPostStockCount,
+  onClose
+}) => {
+  const [machineId, setMachineId] = useState(machines[0]?.id || '');
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [countedBy, setCountedBy] = useState('');
+  const [thresholdPercent, setThresholdPercent] = useState(DEFAULT_SHRINKAGE_THRESHOLD * 100);
+  const [notes, setNotes] = useState('');
+
+  const planogram = planograms.find(p => p.machineId === machineId);
+  const money = getMoneyFormat(machines.find(m => m.id === machineId));
+  const rows = products
+    .filter(p => p.machineId === machineId)
+    .map(product => ({ product, slotCodes: getProductSlotCodes(planogram, product.id) }))
+    .sort((a, b) => (a.slotCodes[0] || '~').localeCompare(b.slotCodes[0] || '~') || a.product.name.localeCompare(b.product.name));
+
+  const threshold = thresholdPercent / 100;
+  const draftLines = rows.map(({ product }) => ({
+    expectedQuantity: product.quantity,
+    countedQuantity: counts[product.id] ?? product.quantity,
+    unitCost: product.cost,
+    flagged: isShrinkage(product.quantity, counts[product.id] ?? product.quantity, threshold)
+  }));
+  const summary = getCountSummary({ lines: draftLines });
+  const recentCounts = stockCounts.filter(c => c.machineId === machineId).slice(0, 5);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onPostStockCount(machineId, counts, countedBy, threshold, notes);
+    setCounts({});
+    setNotes('');
+  };
+
+  const inputClassName = "w-full px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <ClipboardCheck size={22} className="text-teal-600" /> Stock Count
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Machine</label>
+              <select
+                value={machineId}
+                onChange={e => {
+                  setMachineId(e.target.value);
+                  setCounts({});
+                }}
+                className={inputClassName}
+              >
+                {machines.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Counted by</label>
+              <input
+                required
+                value={countedBy}
+                onChange={e => setCountedBy(e.target.value)}
+                className={inputClassName}
+                placeholder="Driver name"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Flag shrinkage above (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={thresholdPercent}
+                onChange={e => setThresholdPercent(parseFloat(e.target.value) || 0)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full text-left text-sm text-gray-600">
+              <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+                <tr>
+                  <th className="px-4 py-2">Slot</th>
+                  <th className="px-4 py-2">Product</th>
+                  <th className="px-4 py-2 text-right">Expected</th>
+                  <th className="px-4 py-2 text-right">Counted</th>
+                  <th className="px-4 py-2 text-right">Variance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map(({ product, slotCodes }, index) => {
+                  const line = draftLines[index];
+                  const variance = getVariance(line);
+                  return (
+                    <tr key={product.id} className={line.flagged ? 'bg-red-50' : ''}>
+                      <td className="px-4 py-2 font-mono text-xs">{slotCodes.join(', ') || '-'}</td>
+                      <td className="px-4 py-2 font-medium text-gray-800">{product.name}</td>
+                      <td className="px-4 py-2 text-right font-mono">{product.quantity}</td>
+                      <td className="px-4 py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          value={counts[product.id] ?? ''}
+                          placeholder={String(product.quantity)}
+                          onChange={e => {
+                            const { [product.id]: _, ...rest } = counts;
+                            setCounts(e.target.value === '' ? rest : { ...rest, [product.id]: parseInt(e.target.value) });
+                          }}
+                          className="w-20 px-2 py-1 bg-white text-gray-900 border border-gray-300 rounded-lg text-right"
+                        />
+                      </td>
+                      <td className={`px-4 py-2 text-right font-mono ${variance < 0 ? 'text-red-600' : variance > 0 ? 'text-green-700' : 'text-gray-400'}`}>
+                        <span className="inline-flex items-center gap-1">
+                          {line.flagged && <AlertTriangle size={12} />}
+                          {formatVariance(variance)}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {rows.length === 0 && (
+                  <tr><td colSpan={5} className="px-4 py-6 text-center text-gray-400">This machine has no products</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span>Net variance: <strong className="font-mono">{formatVariance(summary.units)}</strong> units</span>
+            <span>Value: <strong className="font-mono">{formatMoney(summary.value, money)}</strong></span>
+            {summary.flagged > 0 && (
+              <span className="text-red-600 font-medium">{summary.flagged} product(s) over the shrinkage threshold</span>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              className={inputClassName}
+              placeholder="Optional, e.g. coil jammed in B3"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors font-medium"
+            >
+              Close
+            </button>
+            <button
+              type="submit"
+              disabled={rows.length === 0}
+              className="px-6 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 transition-colors font-medium"
+            >
+              Post Count
+            </button>
+          </div>
+        </form>
+
+        {recentCounts.length > 0 && (
+          <div className="mt-6 pt-4 border-t border-gray-100">
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Recent counts</h4>
+            <div className="space-y-1">
+              {recentCounts.map(count => {
+                const countSummary = getCountSummary(count);
+                return (
+                  <div key={count.id} className="flex justify-between text-xs text-gray-600">
+                    <span>{new Date(count.postedAt).toLocaleString()} · {count.countedBy}</span>
+                    <span className={countSummary.flagged ? 'text-red-600 font-medium' : ''}>
+                      {formatVariance(countSummary.units)} units · {formatMoney(countSummary.value, money)}
+                      {countSummary.flagged > 0 && ` · ${countSummary.flagged} flagged`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockCountPanel;
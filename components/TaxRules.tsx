@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Plus, Percent } from 'lucide-react';
+import { CatalogItem, Machine, TaxRule } from '../types';
+import { TaxRuleInput } from '../services/taxService';
+
+interface TaxRulesProps {
+  taxRules: TaxRule[];
+  catalog: CatalogItem[];
+  machines: Machine[];
+  onCreateTaxRule: (input: TaxRuleInput) => void;
+  onToggleTaxRule: (ruleId: string) => void;
+}
+
+interface TaxRuleForm {
+  name: string;
+  rate: string; // Percent
+  inclusive: boolean;
+  categories: string[];
+  machineIds: string[];
+}
+
+const EMPTY_FORM: TaxRuleForm = {
+  name: '',
+  rate: '',
+  inclusive: true,
+  categories: [],
+  machineIds: []
+};
+
+const inputClass = 'px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400 text-sm';
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const formatRate = (rate: number) => `${parseFloat((rate * 100).toFixed(3))}%`;
+
+const TaxRules: React.FC<TaxRulesProps> = ({ taxRules, catalog, machines, onCreateTaxRule, onToggleTaxRule }) => {
+  const [form, setForm] = useState<TaxRuleForm | null>(null);
+  const categories = Array.from(new Set(catalog.map(c => c.category))).sort();
+
+  const machineName = (machineId: string) => machines.find(m => m.id === machineId)?.name || machineId;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    onCreateTaxRule({
+      name: form.name,
+      rate: parseFloat(form.rate) / 100,
+      inclusive: form.inclusive,
+      categories: form.categories,
+      machineIds: form.machineIds
+    });
+    setForm(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800">Tax Rules</h2>
+          <p className="text-sm text-gray-500">Each sale line takes the most specific active rule: machine first, then category.</p>
+        </div>
+        <button
+          onClick={() => setForm(EMPTY_FORM)}
+          className="flex items-center space-x-2 bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <Plus size={18} />
+          <span>New Tax Rule</span>
+        </button>
+      </div>
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Name, e.g. GST 18%" className={inputClass} />
+            <input
+              type="number"
+              step="0.001"
+              min="0"
+              max="99.999"
+              required
+              value={form.rate}
+              onChange={e => setForm({ ...form, rate: e.target.value })}
+              placeholder="Rate %"
+              className={inputClass}
+            />
+            <select
+              value={form.inclusive ? 'inclusive' : 'exclusive'}
+              onChange={e => setForm({ ...form, inclusive: e.target.value === 'inclusive' })}
+              className={inputClass}
+            >
+              <option value="inclusive">Included in shelf price</option>
+              <option value="exclusive">Added at checkout</option>
+            </select>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 mb-2">Categories (none selected means all)</p>
+            <div className="flex flex-wrap gap-2">
+              {categories.map(category => (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => setForm({ ...form, categories: toggle(form.categories, category) })}
+                  className={`px-2 py-1 rounded-lg border text-xs transition-colors ${
+                    form.categories.includes(category) ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {category}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 mb-2">Machines (none selected means all)</p>
+            <div className="flex flex-wrap gap-2">
+              {machines.map(machine => (
+                <button
+                  key={machine.id}
+                  type="button"
+                  onClick={() => setForm({ ...form, machineIds: toggle(form.machineIds, machine.id) })}
+                  className={`px-2 py-1 rounded-lg border text-xs transition-colors ${
+                    form.machineIds.includes(machine.id) ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {machine.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setForm(null)} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
+            <button type="submit" className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-medium">Create</button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-6 py-4">Rule</th>
+              <th className="px-6 py-4">Rate</th>
+              <th className="px-6 py-4">Applies to</th>
+              <th className="px-6 py-4">Status</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {taxRules.map(rule => (
+              <tr key={rule.id} className={`hover:bg-gray-50/50 ${rule.active ? '' : 'opacity-60'}`}>
+                <td className="px-6 py-3">
+                  <p className="font-medium text-gray-900 flex items-center gap-2">
+                    <Percent size={14} className="text-gray-400" />{rule.name}
+                  </p>
+                </td>
+                <td className="px-6 py-3">
+                  <p className="font-mono">{formatRate(rule.rate)}</p>
+                  <p className="text-xs text-gray-400">{rule.inclusive ? 'Included in price' : 'Added at checkout'}</p>
+                </td>
+                <td className="px-6 py-3 text-xs">
+                  <p>{rule.categories.length ? rule.categories.join(', ') : 'All categories'}</p>
+                  <p className="text-gray-400">{rule.machineIds.length ? rule.machineIds.map(machineName).join(', ') : 'All machines'}</p>
+                </td>
+                <td className="px-6 py-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${rule.active ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+                    {rule.active ? 'Active' : 'Off'}
+                  </span>
+                </td>
+                <td className="px-6 py-3 text-right">
+                  <button onClick={() => onToggleTaxRule(rule.id)} className="text-teal-600 hover:text-teal-800 text-sm font-medium">
+                    {rule.active ? 'Turn off' : 'Turn on'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {taxRules.length === 0 && (
+              <tr><td colSpan={5} className="px-6 py-8 text-center text-gray-400">No tax rules yet, so sales carry no tax</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TaxRules;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Receipt, X, Undo2 } from 'lucide-react';
+import { Transaction, TransactionStatus } from '../types';
+import { RefundOptions, getNetUnitPrice, getRefundableQuantity } from '../services/transactionService';
+import { MoneyFormat, formatMoney } from '../services/money';
+
+interface TransactionDetailProps {
+  transaction: Transaction;
+  machineName: string;
+  money: MoneyFormat;
+  onRefund: (transactionId: string, quantities: Record<string, number>, options: RefundOptions) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  authorized: 'bg-yellow-100 text-yellow-800',
+  vended: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  refunded: 'bg-gray-100 text-gray-700',
+  partially_refunded: 'bg-orange-100 text-orange-800'
+};
+
+const TransactionDetail: React.FC<TransactionDetailProps> = ({ transaction, machineName, money, onRefund, onClose }) => {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [restock, setRestock] = useState(false);
+  const [failedVend, setFailedVend] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const canRefund = transaction.status !== 'authorized' && transaction.status !== 'failed' &&
+    transaction.lines.some(l => getRefundableQuantity(l) > 0);
+  const refundAmount = transaction.lines.reduce((sum, l) => sum + (quantities[l.saleId] || 0) * getNetUnitPrice(l), 0);
+
+  const handleRefund = (e: React.FormEvent) => {
+    e.preventDefault();
+    onRefund(transaction.id, quantities, { restock, failedVend, reason });
+    setQuantities({});
+    setReason('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <Receipt size={20} className="text-teal-600" /> Transaction
+              <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${STATUS_STYLES[transaction.status]}`}>
+                {transaction.status.replace('_', ' ')}
+              </span>
+            </h3>
+            <p className="text-sm text-gray-500">
+              {new Date(transaction.timestamp).toLocaleString()} · {machineName} · {transaction.paymentMethod}
+            </p>
+            <p className="text-xs text-gray-400 font-mono mt-1">{transaction.id}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleRefund}>
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 text-right">Qty</th>
+                <th className="px-3 py-2 text-right">Price</th>
+                <th className="px-3 py-2 text-right">Total</th>
+                {canRefund && <th className="px-3 py-2 text-right">Refund</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {transaction.lines.map(line => (
+                <tr key={line.saleId}>
+                  <td className="px-3 py-2">
+                    <span className="font-medium text-gray-800">{line.productName}</span>
+                    {line.slotCode && <span className="text-xs text-gray-400 font-mono"> · {line.slotCode}</span>}
+                    {line.discount > 0 && <p className="text-xs text-teal-600">{formatMoney(-line.discount, money)} promotion</p>}
+                    {line.tax && (
+                      <p className="text-xs text-gray-400">
+                        {line.tax.name} {formatMoney(line.tax.amount, money)}{line.tax.inclusive ? ' included' : ''}
+                      </p>
+                    )}
+                    {line.failedQuantity > 0 && <p className="text-xs text-red-600">{line.failedQuantity} failed to vend, not charged</p>}
+                    {line.refundedQuantity > 0 && <p className="text-xs text-orange-600">{line.refundedQuantity} refunded</p>}
+                  </td>
+                  <td className="px-3 py-2 text-right font-mono">{line.quantity}</td>
+                  <td className="px-3 py-2 text-right font-mono">{formatMoney(line.unitPrice, money)}</td>
+                  <td className="px-3 py-2 text-right font-mono">{formatMoney(line.total, money)}</td>
+                  {canRefund && (
+                    <td className="px-3 py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max={getRefundableQuantity(line)}
+                        disabled={getRefundableQuantity(line) === 0}
+                        value={quantities[line.saleId] ?? ''}
+                        placeholder="0"
+                        onChange={e => setQuantities({ ...quantities, [line.saleId]: parseInt(e.target.value) || 0 })}
+                        className="w-16 px-2 py-1 bg-white text-gray-900 border border-gray-300 rounded-lg text-right disabled:opacity-40"
+                      />
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t border-gray-200 text-gray-800">
+              <tr>
+                <td colSpan={3} className="px-3 pt-2 text-right text-gray-500">Subtotal</td>
+                <td className="px-3 pt-2 text-right font-mono">{formatMoney(transaction.subtotal, money)}</td>
+              </tr>
+              <tr>
+                <td colSpan={3} className="px-3 text-right text-gray-500">Tax</td>
+                <td className="px-3 text-right font-mono">{formatMoney(transaction.tax, money)}</td>
+              </tr>
+              <tr className="font-semibold">
+                <td colSpan={3} className="px-3 text-right">Total</td>
+                <td className="px-3 text-right font-mono text-teal-700">{formatMoney(transaction.total, money)}</td>
+              </tr>
+              {transaction.discount > 0 && (
+                <tr>
+                  <td colSpan={3} className="px-3 text-right text-teal-600">
+                    Saved{transaction.promotions?.length ? ` (${transaction.promotions.map(p => p.name).join(', ')})` : ''}
+                    {transaction.couponCode && <span className="font-mono"> · {transaction.couponCode}</span>}
+                  </td>
+                  <td className="px-3 text-right font-mono text-teal-600">{formatMoney(transaction.discount, money)}</td>
+                </tr>
+              )}
+              {transaction.refundedAmount > 0 && (
+                <tr>
+                  <td colSpan={3} className="px-3 pb-2 text-right text-orange-600">Refunded</td>
+                  <td className="px-3 pb-2 text-right font-mono text-orange-600">{formatMoney(-transaction.refundedAmount, money)}</td>
+                </tr>
+              )}
+            </tfoot>
+          </table>
+
+          {canRefund && (
+            <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+              <input
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+                placeholder="Reason, e.g. coil jammed in B3"
+                className="w-full px-3 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none placeholder-gray-400 text-sm"
+              />
+              <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={failedVend} onChange={e => setFailedVend(e.target.checked)} />
+                  Machine failed to vend (item still in the machine)
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={restock || failedVend} disabled={failedVend} onChange={e => setRestock(e.target.checked)} />
+                  Return to stock
+                </label>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={refundAmount === 0}
+                  className="flex items-center gap-2 px-6 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 transition-colors font-medium"
+                >
+                  <Undo2 size={18} />
+                  <span>Refund {formatMoney(refundAmount, money)}</span>
+                </button>
+              </div>
+            </div>
+          )}
+        </form>
+
+        {transaction.refunds.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Refunds</h4>
+            <div className="space-y-1">
+              {transaction.refunds.map(refund => (
+                <div key={refund.id} className="flex justify-between text-xs text-gray-600">
+                  <span>
+                    {new Date(refund.timestamp).toLocaleString()} · {refund.user} · {refund.reason}
+                    {refund.failedVend ? ' · failed vend' : refund.restocked ? ' · restocked' : ''}
+                    {refund.manualRefundRequired && <span className="text-red-600 font-medium"> · manual refund required</span>}
+                  </span>
+                  <span className="font-mono text-orange-600">{formatMoney(-refund.amount, money)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransactionDetail;
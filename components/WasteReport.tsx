@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Trash2, PackageX, AlertTriangle } from 'lucide-react';
+import { Machine, Product, StockLot, WriteOff } from '../types';
+import { getExpiryAlerts } from '../services/lotService';
+import { WRITE_OFF_REASON_LABELS, WasteGrouping, WasteReportRow, getWasteReport, getWriteOffValue } from '../services/wasteService';
+import { formatCurrencyAmounts, formatMoney, getFleetMoneyFormat, getMoneyFormat, sumByCurrency } from '../services/money';
+
+interface WasteReportProps {
+  writeOffs: WriteOff[];
+  products: Product[];
+  machines: Machine[];
+  lots: StockLot[];
+  onWriteOffExpired: () => void;
+}
+
+const GROUPINGS: { id: WasteGrouping; label: string }[] = [
+  { id: 'product', label: 'Product' },
+  { id: 'machine', label: 'Machine' },
+  { id: 'month', label: 'Month' }
+];
+
+const WasteReport: React.FC<WasteReportProps> = ({ writeOffs, products, machines, lots, onWriteOffExpired }) => {
+  const [grouping, setGrouping] = useState<WasteGrouping>('product');
+  const money = getFleetMoneyFormat(machines);
+  const moneyFor = (machineId: string) => getMoneyFormat(machines.find(m => m.id === machineId));
+
+  // Losses are at cost in each machine's currency and totalled per currency
+  const rows = getWasteReport(writeOffs, grouping, machines);
+  const totalUnits = rows.reduce((sum, r) => sum + r.units, 0);
+  const totalValues = sumByCurrency(writeOffs.map(w => ({ machineId: w.machineId, amount: getWriteOffValue(w) })), machines);
+  const currencyTotal = (row: WasteReportRow) => totalValues.find(t => t.format.currency === row.money.currency)?.amount || 0;
+
+  const { expired } = getExpiryAlerts(lots, products);
+  const expiredUnits = expired.reduce((sum, a) => sum + a.lot.quantity, 0);
+  const expiredValues = sumByCurrency(expired.map(a => ({ machineId: a.product.machineId, amount: a.lot.quantity * a.product.cost })), machines);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-800">Waste Report</h2>
+        <button
+          onClick={onWriteOffExpired}
+          disabled={expired.length === 0}
+          className="flex items-center space-x-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <PackageX size={18} />
+          <span>Dispose All Expired</span>
+        </button>
+      </div>
+
+      {expired.length > 0 && (
+        <div className="bg-red-50 border border-red-100 rounded-xl p-4 text-sm text-red-800">
+          <p className="font-semibold flex items-center gap-2">
+            <AlertTriangle size={16} /> {expiredUnits} expired unit(s) blocked from sale ({formatCurrencyAmounts(expiredValues, money)} at cost)
+          </p>
+          <ul className="mt-2 space-y-1 text-xs">
+            {expired.map(({ lot, product }) => (
+              <li key={lot.id}>
+                {product.name} · {machines.find(m => m.id === product.machineId)?.name || product.machineId} · lot <span className="font-mono">{lot.lotNumber}</span> · {lot.quantity} expired {new Date(lot.expiryDate).toLocaleDateString()}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <p className="text-sm text-gray-500">Units written off</p>
+          <p className="text-2xl font-bold text-gray-800">{totalUnits}</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <p className="text-sm text-gray-500">Loss at cost</p>
+          <p className="text-2xl font-bold text-red-600">{formatCurrencyAmounts(totalValues, money)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+          <p className="text-sm text-gray-500">Write-offs</p>
+          <p className="text-2xl font-bold text-gray-800">{writeOffs.length}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 flex items-center gap-2">
+          <span className="text-sm text-gray-500">Group by</span>
+          {GROUPINGS.map(g => (
+            <button
+              key={g.id}
+              onClick={() => setGrouping(g.id)}
+              className={`px-3 py-1 rounded-lg border text-sm transition-colors ${
+                grouping === g.id ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+        <table className="w-full text-left text-sm text-gray-600">
+          <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+            <tr>
+              <th className="px-6 py-4">{GROUPINGS.find(g => g.id === grouping)?.label}</th>
+              <th className="px-6 py-4 text-right">Units</th>
+              <th className="px-6 py-4 text-right">Loss</th>
+              <th className="px-6 py-4 text-right">Share</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map(row => (
+              <tr key={row.key} className="hover:bg-gray-50/50">
+                <td className="px-6 py-3 font-medium text-gray-900">{row.label}</td>
+                <td className="px-6 py-3 text-right font-mono">{row.units}</td>
+                <td className="px-6 py-3 text-right font-mono text-red-600">{formatMoney(row.value, row.money)}</td>
+                <td className="px-6 py-3 text-right font-mono text-gray-500">
+                  {currencyTotal(row) > 0 ? `${((row.value / currencyTotal(row)) * 100).toFixed(1)}%` : '-'}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr><td colSpan={4} className="px-6 py-8 text-center text-gray-400">Nothing has been written off yet</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {writeOffs.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+            <Trash2 size={16} className="text-gray-400" /> Recent write-offs
+          </h3>
+          <div className="divide-y divide-gray-100">
+            {writeOffs.slice(0, 10).map(w => (
+              <div key={w.id} className="py-2 flex justify-between text-sm">
+                <div>
+                  <p className="font-medium text-gray-800">
+                    {w.productName} <span className="text-xs font-normal text-gray-400">· {WRITE_OFF_REASON_LABELS[w.reason]}{w.lotNumber && ` · lot ${w.lotNumber}`}</span>
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {new Date(w.timestamp).toLocaleString()} · {machines.find(m => m.id === w.machineId)?.name || w.machineId} · {w.user}
+                    {w.note && ` · ${w.note}`}
+                  </p>
+                </div>
+                <div className="text-right font-mono">
+                  <p className="text-gray-800">-{w.quantity}</p>
+                  <p className="text-xs text-red-600">{formatMoney(getWriteOffValue(w), moneyFor(w.machineId))}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WasteReport;
@@ -1,9 +1,53 @@
-import { Machine, MachineStatus, Product, SaleRecord, PaymentMethod } from './types';
+import { Depot, Machine, Supplier, MachineStatus, Product, SaleRecord, PaymentMethod, Reward } from './types';
+
+export const DEFAULT_CURRENCY = 'USD';
+export const DEFAULT_LOCALE = 'en-US';
+
+// Currencies a machine can be commissioned in, with the locale its amounts are shown in
+export const CURRENCY_OPTIONS = [
+  { currency: 'USD', locale: 'en-US', label: 'US dollar' },
+  { currency: 'INR', locale: 'en-IN', label: 'Indian rupee' },
+  { currency: 'EUR', locale: 'de-DE', label: 'Euro' },
+  { currency: 'GBP', locale: 'en-GB', label: 'Pound sterling' }
+];
 
 export const MACHINES: Machine[] = [
-  { id: 'm1', name: 'Nexus Prime', location: 'Downtown Metro Station', status: MachineStatus.ONLINE },
-  { id: 'm2', name: 'Corp Tower A', location: 'Tech Park Lobby', status: MachineStatus.LOW_STOCK },
-  { id: 'm3', name: 'Uni Campus West', location: 'Student Union Building', status: MachineStatus.MAINTENANCE },
+  { id: 'm1', name: 'Nexus Prime', location: 'Downtown Metro Station', status: MachineStatus.ONLINE, currency: DEFAULT_CURRENCY, locale: DEFAULT_LOCALE },
+  { id: 'm2', name: 'Corp Tower A', location: 'Tech Park Lobby', status: MachineStatus.LOW_STOCK, currency: DEFAULT_CURRENCY, locale: DEFAULT_LOCALE },
+  { id: 'm3', name: 'Uni Campus West', location: 'Student Union Building', status: MachineStatus.MAINTENANCE, currency: DEFAULT_CURRENCY, locale: DEFAULT_LOCALE },
+];
+
+export const DEPOTS: Depot[] = [
+  { id: 'd1', name: 'Central Depot', location: 'Riverside Industrial Estate' },
+];
+
+export const SUPPLIERS: Supplier[] = [
+  { id: 's1', name: 'FreshFlow Beverages', contactEmail: 'orders@freshflow.example', leadTimeDays: 3 },
+  { id: 's2', name: 'SnackHub Wholesale', contactEmail: 'sales@snackhub.example', leadTimeDays: 5 },
+];
+
+// Units of each demo SKU held at the central depot
+export const INITIAL_DEPOT_QUANTITY = 48;
+
+// Receiving account for UPI and QR code payments
+export const UPI_PAYEE = { vpa: 'vendnexus@upi', name: 'VendNexus' };
+
+// Cash the machines accept, in cents. Coins feed the change tubes. The
+// acceptors only take this currency, so machines pricing in another have none.
+export const CASH_CURRENCY = DEFAULT_CURRENCY;
+export const COIN_DENOMINATIONS = [5, 10, 25];
+export const BILL_DENOMINATIONS = [100, 500, 1000, 2000];
+export const COIN_TUBE_CAPACITY = 80;
+export const COIN_TUBE_FLOAT = 40; // Coins per tube after a refill
+
+// Points per whole unit of the machine's currency
+export const LOYALTY_POINTS_PER_UNIT = 10;
+
+// Credits are in the currency of the machine the reward is redeemed at
+export const LOYALTY_REWARDS: Reward[] = [
+  { id: 'rw-credit-1', pointsCost: 100, walletCredit: 1 },
+  { id: 'rw-credit-5', pointsCost: 450, walletCredit: 5 },
+  { id: 'rw-credit-10', pointsCost: 850, walletCredit: 10 }
 ];
 
 const NOW = Date.now();
@@ -11,18 +55,18 @@ const DAY = 86400000;
 
 export const INITIAL_PRODUCTS: Product[] = [
   // Machine 1
-  { id: 'p1', machineId: 'm1', name: 'Sparkle Water', category: 'Beverage', price: 2.50, cost: 0.80, quantity: 45, min_quantity: 10, image: 'https://picsum.photos/id/400/200/200', expiryDate: NOW + 30 * DAY },
-  { id: 'p2', machineId: 'm1', name: 'Energy Blast', category: 'Beverage', price: 3.50, cost: 1.20, quantity: 8, min_quantity: 15, image: 'https://picsum.photos/id/401/200/200', expiryDate: NOW + 60 * DAY },
-  { id: 'p3', machineId: 'm1', name: 'Protein Bar', category: 'Snack', price: 4.00, cost: 2.00, quantity: 20, min_quantity: 10, image: 'https://picsum.photos/id/402/200/200', expiryDate: NOW + 120 * DAY },
-  { id: 'p4', machineId: 'm1', name: 'Cheese Crisps', category: 'Snack', price: 1.75, cost: 0.50, quantity: 30, min_quantity: 10, image: 'https://picsum.photos/id/403/200/200', expiryDate: NOW - 2 * DAY }, // Expired
+  { id: 'p1', machineId: 'm1', skuId: 'sku1', sku: 'SKU-0001', barcode: '8901234500017', name: 'Sparkle Water', category: 'Beverage', price: 2.50, cost: 0.80, quantity: 45, min_quantity: 10, image: 'https://picsum.photos/id/400/200/200', expiryDate: NOW + 30 * DAY },
+  { id: 'p2', machineId: 'm1', skuId: 'sku2', sku: 'SKU-0002', barcode: '8901234500024', name: 'Energy Blast', category: 'Beverage', price: 3.50, cost: 1.20, quantity: 8, min_quantity: 15, image: 'https://picsum.photos/id/401/200/200', expiryDate: NOW + 60 * DAY },
+  { id: 'p3', machineId: 'm1', skuId: 'sku3', sku: 'SKU-0003', barcode: '8901234500031', name: 'Protein Bar', category: 'Snack', price: 4.00, cost: 2.00, quantity: 20, min_quantity: 10, image: 'https://picsum.photos/id/402/200/200', expiryDate: NOW + 120 * DAY },
+  { id: 'p4', machineId: 'm1', skuId: 'sku4', sku: 'SKU-0004', barcode: '8901234500048', name: 'Cheese Crisps', category: 'Snack', price: 1.75, cost: 0.50, quantity: 30, min_quantity: 10, image: 'https://picsum.photos/id/403/200/200', expiryDate: NOW - 2 * DAY }, // Expired
   
   // Machine 2
-  { id: 'p5', machineId: 'm2', name: 'Sparkle Water', category: 'Beverage', price: 2.75, cost: 0.80, quantity: 5, min_quantity: 10, image: 'https://picsum.photos/id/400/200/200', expiryDate: NOW + 25 * DAY }, // Higher price at Tech Park
-  { id: 'p6', machineId: 'm2', name: 'Cold Brew Coffee', category: 'Beverage', price: 5.00, cost: 2.50, quantity: 12, min_quantity: 8, image: 'https://picsum.photos/id/404/200/200', expiryDate: NOW + 4 * DAY }, // Near Expiry
-  { id: 'p7', machineId: 'm2', name: 'Vegan Cookie', category: 'Snack', price: 3.50, cost: 1.50, quantity: 15, min_quantity: 5, image: 'https://picsum.photos/id/405/200/200', expiryDate: NOW + 15 * DAY },
+  { id: 'p5', machineId: 'm2', skuId: 'sku1', sku: 'SKU-0001', barcode: '8901234500017', name: 'Sparkle Water', category: 'Beverage', price: 2.75, cost: 0.80, quantity: 5, min_quantity: 10, image: 'https://picsum.photos/id/400/200/200', expiryDate: NOW + 25 * DAY }, // Higher price at Tech Park
+  { id: 'p6', machineId: 'm2', skuId: 'sku5', sku: 'SKU-0005', barcode: '8901234500055', name: 'Cold Brew Coffee', category: 'Beverage', price: 5.00, cost: 2.50, quantity: 12, min_quantity: 8, image: 'https://picsum.photos/id/404/200/200', expiryDate: NOW + 4 * DAY }, // Near Expiry
+  { id: 'p7', machineId: 'm2', skuId: 'sku6', sku: 'SKU-0006', barcode: '8901234500062', name: 'Vegan Cookie', category: 'Snack', price: 3.50, cost: 1.50, quantity: 15, min_quantity: 5, image: 'https://picsum.photos/id/405/200/200', expiryDate: NOW + 15 * DAY },
 
   // Machine 3
-  { id: 'p8', machineId: 'm3', name: 'Cola Classic', category: 'Beverage', price: 1.50, cost: 0.60, quantity: 0, min_quantity: 20, image: 'https://picsum.photos/id/406/200/200', expiryDate: NOW + 90 * DAY },
+  { id: 'p8', machineId: 'm3', skuId: 'sku7', sku: 'SKU-0007', barcode: '8901234500079', name: 'Cola Classic', category: 'Beverage', price: 1.50, cost: 0.60, quantity: 0, min_quantity: 20, image: 'https://picsum.photos/id/406/200/200', expiryDate: NOW + 90 * DAY },
 ];
 
 const generateMockSales = (): SaleRecord[] => {
@@ -37,6 +81,7 @@ const generateMockSales = (): SaleRecord[] => {
     sales.push({
       id: `s-${i}`,
       productId: randomProduct.id,
+      skuId: randomProduct.skuId,
       productName: randomProduct.name,
       machineId: randomProduct.machineId,
       quantity: qty,
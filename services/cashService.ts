@@ -0,0 +1,190 @@
+import { CashCollection, CashCounts, CashDrawer, PaymentMethod, SaleRecord } from '../types';
+import { BILL_DENOMINATIONS, CASH_CURRENCY, COIN_DENOMINATIONS, COIN_TUBE_CAPACITY, COIN_TUBE_FLOAT } from '../constants';
+import { formatMoney, fromMinorUnits, toMinorUnits } from './money';
+import { getSaleTotal } from './taxService';
+
+// Denominations and counts are kept in cents; drawer and collection amounts
+// are in dollars like every other amount in the app. The acceptors take
+// CASH_CURRENCY only.
+export const acceptsCash = (currency: string) => currency === CASH_CURRENCY;
+
+export const toCents = (amount: number) => toMinorUnits(amount);
+const toDollars = (cents: number) => fromMinorUnits(cents);
+
+export const formatDenomination = (cents: number) => cents < 100 ? `${cents}¢` : formatMoney(toDollars(cents));
+
+export const getCashValue = (counts: CashCounts): number =>
+  Object.entries(counts).reduce((sum, [denomination, count]) => sum + Number(denomination) * count, 0);
+
+export const isAcceptedDenomination = (cents: number) =>
+  COIN_DENOMINATIONS.includes(cents) || BILL_DENOMINATIONS.includes(cents);
+
+const addCounts = (counts: CashCounts, cents: number, count: number): CashCounts =>
+  count === 0 ? counts : { ...counts, [cents]: (counts[cents] || 0) + count };
+
+const getTubeValue = (drawer: CashDrawer) => toDollars(getCashValue(drawer.tubes));
+
+export const createCashDrawer = (machineId: string, timestamp = Date.now()): CashDrawer => {
+  const tubes: CashCounts = Object.fromEntries(COIN_DENOMINATIONS.map(d => [d, COIN_TUBE_FLOAT]));
+  return {
+    id: machineId,
+    machineId,
+    tubes,
+    cashBox: {},
+    floatAmount: toDollars(getCashValue(tubes)),
+    changeOwed: 0,
+    lastCollectedAt: timestamp,
+    updatedAt: timestamp
+  };
+};
+
+// Banks inserted cash: coins top up their tube and overflow to the cash box
+export const acceptCash = (drawer: CashDrawer, inserted: CashCounts): CashDrawer => {
+  let tubes = drawer.tubes;
+  let cashBox = drawer.cashBox;
+  Object.entries(inserted).forEach(([key, count]) => {
+    const cents = Number(key);
+    if (!isAcceptedDenomination(cents)) {
+      throw new Error(`${formatDenomination(cents)} is not accepted`);
+    }
+    const toTube = COIN_DENOMINATIONS.includes(cents)
+      ? Math.min(count, Math.max(0, COIN_TUBE_CAPACITY - (tubes[cents] || 0)))
+      : 0;
+    tubes = addCounts(tubes, cents, toTube);
+    cashBox = addCounts(cashBox, cents, count - toTube);
+  });
+  return { ...drawer, tubes, cashBox };
+};
+
+// Picks coins for the amount, largest first, backing off when a greedy choice
+// leaves a remainder the smaller tubes cannot cover. Null when impossible.
+export const makeChange = (tubes: CashCounts, amount: number): CashCounts | null => {
+  const denominations = Object.keys(tubes).map(Number).filter(d => tubes[d] > 0).sort((a, b) => b - a);
+  const pick = (index: number, remaining: number): CashCounts | null => {
+    if (remaining === 0) return {};
+    if (index >= denominations.length) return null;
+    const cents = denominations[index];
+    for (let count = Math.min(tubes[cents], Math.floor(remaining / cents)); count >= 0; count--) {
+      const rest = pick(index + 1, remaining - count * cents);
+      if (rest) return count > 0 ? { ...rest, [cents]: count } : rest;
+    }
+    return null;
+  };
+  return pick(0, amount);
+};
+
+// Whether the machine could return change if this cash were inserted for a
+// purchase of the given price. The kiosk refuses cash that fails this check.
+export const canMakeChange = (drawer: CashDrawer, inserted: CashCounts, price: number): boolean => {
+  const due = getCashValue(inserted) - toCents(price);
+  return due <= 0 || makeChange(acceptCash(drawer, inserted).tubes, due) !== null;
+};
+
+// Settles a cash checkout once the machine has vended. Inserted cash is held
+// in escrow, so if nothing was charged it is handed back as inserted.
+// Otherwise it is banked and change paid from the tubes; change the tubes
+// cannot cover (after failed vends) is recorded as owed to the customer.
+export const settleCashSale = (
+  drawer: CashDrawer,
+  inserted: CashCounts,
+  charged: number,
+  timestamp = Date.now()
+): { drawer: CashDrawer; change: CashCounts; changeOwed: number } => {
+  const chargedCents = toCents(charged);
+  if (chargedCents === 0) {
+    return { drawer, change: inserted, changeOwed: 0 };
+  }
+  const due = getCashValue(inserted) - chargedCents;
+  if (due < 0) {
+    throw new Error('Not enough cash inserted');
+  }
+
+  const banked = acceptCash(drawer, inserted);
+  const step = Math.min(...COIN_DENOMINATIONS);
+  let payable = due;
+  let change = makeChange(banked.tubes, payable);
+  while (!change) {
+    payable -= step;
+    change = payable <= 0 ? {} : makeChange(banked.tubes, payable);
+  }
+  const paid = change;
+  const tubes = Object.fromEntries(
+    Object.entries(banked.tubes).map(([cents, count]) => [cents, count - (paid[Number(cents)] || 0)])
+  );
+  const changeOwed = toDollars(due - getCashValue(paid));
+  return {
+    drawer: { ...banked, tubes, changeOwed: drawer.changeOwed + changeOwed, updatedAt: timestamp },
+    change: paid,
+    changeOwed
+  };
+};
+
+// Cash the machine took in for sales since its last collection. Refunds are
+// paid out by the owner, not the machine, so they are left out.
+export const getRecordedCashSales = (sales: SaleRecord[], machineId: string, from: number, to = Date.now()) =>
+  sales
+    .filter(s => s.machineId === machineId && s.paymentMethod === PaymentMethod.CASH && !s.refundId)
+    .filter(s => s.timestamp > from && s.timestamp <= to)
+    .reduce((sum, s) => sum + getSaleTotal(s), 0);
+
+export interface CashPosition {
+  cashBoxValue: number;
+  tubeValue: number;
+  tubeChange: number;
+  recordedSales: number;
+  changeOwed: number;
+}
+
+export const getCashPosition = (drawer: CashDrawer, sales: SaleRecord[], timestamp = Date.now()): CashPosition => {
+  const tubeValue = getTubeValue(drawer);
+  return {
+    cashBoxValue: toDollars(getCashValue(drawer.cashBox)),
+    tubeValue,
+    tubeChange: tubeValue - drawer.floatAmount,
+    recordedSales: getRecordedCashSales(sales, drawer.machineId, drawer.lastCollectedAt, timestamp),
+    changeOwed: drawer.changeOwed
+  };
+};
+
+// Empties the cash box and reconciles the counted cash against the recorded
+// sales: everything customers paid is either in the box or the tubes, less
+// change the machine still owes. Optionally tops the tubes back up to the float.
+export const collectCash = (
+  drawer: CashDrawer,
+  sales: SaleRecord[],
+  countedAmount: number,
+  options: { refillTubes: boolean; user: string; note?: string },
+  timestamp = Date.now()
+): { drawer: CashDrawer; collection: CashCollection } => {
+  if (!Number.isFinite(countedAmount) || countedAmount < 0) {
+    throw new Error('Enter the amount of cash counted');
+  }
+  const position = getCashPosition(drawer, sales, timestamp);
+  const variance = toDollars(
+    toCents(countedAmount) + toCents(position.tubeChange) - toCents(position.recordedSales) - toCents(position.changeOwed)
+  );
+
+  const tubes = options.refillTubes
+    ? Object.fromEntries(COIN_DENOMINATIONS.map(d => [d, Math.max(drawer.tubes[d] || 0, COIN_TUBE_FLOAT)]))
+    : drawer.tubes;
+  const floatAmount = toDollars(getCashValue(tubes));
+
+  return {
+    drawer: { ...drawer, tubes, cashBox: {}, floatAmount, changeOwed: 0, lastCollectedAt: timestamp, updatedAt: timestamp },
+    collection: {
+      id: `cc-${drawer.machineId}-${timestamp}`,
+      machineId: drawer.machineId,
+      periodStart: drawer.lastCollectedAt,
+      collectedAt: timestamp,
+      expectedAmount: position.cashBoxValue,
+      countedAmount,
+      tubeChange: position.tubeChange,
+      recordedSales: position.recordedSales,
+      changeOwed: position.changeOwed,
+      variance,
+      floatAdded: floatAmount - position.tubeValue,
+      user: options.user,
+      note: options.note?.trim() || undefined
+    }
+  };
+};
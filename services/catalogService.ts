@@ -0,0 +1,67 @@
+import { CatalogItem, Product, StockRecord } from '../types';
+
+export type CatalogInput = Omit<CatalogItem, 'id' | 'sku'> & { sku?: string };
+
+// Joins per-machine stock with the catalog. Stock pointing at a missing SKU is
+// still shown, with placeholder catalog fields, so it can be fixed or removed.
+export const resolveProducts = (stock: StockRecord[], catalog: CatalogItem[]): Product[] => {
+  const byId = new Map(catalog.map(item => [item.id, item]));
+  return stock.map(record => {
+    const item = byId.get(record.skuId);
+    return {
+      ...record,
+      sku: item?.sku || 'UNKNOWN',
+      barcode: item?.barcode || '',
+      name: item?.name || 'Unknown SKU',
+      category: item?.category || 'Other',
+      cost: item?.cost ?? 0,
+      image: item?.image || ''
+    };
+  });
+};
+
+export const toStockRecord = (product: Product): StockRecord => ({
+  id: product.id,
+  skuId: product.skuId,
+  machineId: product.machineId,
+  price: product.price,
+  quantity: product.quantity,
+  min_quantity: product.min_quantity,
+  expiryDate: product.expiryDate
+});
+
+export const toCatalogItem = (product: Product): CatalogItem => ({
+  id: product.skuId,
+  sku: product.sku,
+  barcode: product.barcode,
+  name: product.name,
+  category: product.category,
+  cost: product.cost,
+  image: product.image
+});
+
+export const nextSkuCode = (catalog: CatalogItem[]) => {
+  const highest = catalog.reduce((max, item) => {
+    const match = /^SKU-(\d+)$/.exec(item.sku);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  return `SKU-${String(highest + 1).padStart(4, '0')}`;
+};
+
+export const createCatalogItem = (
+  input: CatalogInput,
+  catalog: CatalogItem[],
+  timestamp = Date.now()
+): CatalogItem => {
+  const sku = input.sku?.trim() || nextSkuCode(catalog);
+  if (catalog.some(item => item.sku === sku)) {
+    throw new Error(`SKU ${sku} already exists in the catalog`);
+  }
+  if (input.barcode && catalog.some(item => item.barcode === input.barcode)) {
+    throw new Error(`Barcode ${input.barcode} is already assigned to another SKU`);
+  }
+  return { ...input, id: `sku-${timestamp}`, sku, name: input.name.trim() };
+};
+
+export const countMachinesStocking = (stock: StockRecord[], skuId: string) =>
+  new Set(stock.filter(s => s.skuId === skuId).map(s => s.machineId)).size;
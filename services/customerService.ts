@@ -0,0 +1,77 @@
+import { Customer, WalletEntry, WalletEntryType } from '../types';
+
+// Member QR codes carry this prefix followed by the customer id
+const MEMBER_QR_PREFIX = 'vendnexus:member:';
+
+export interface CustomerInput {
+  name: string;
+  phone: string;
+}
+
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '');
+
+export const getMemberQrPayload = (customer: Customer) => `${MEMBER_QR_PREFIX}${customer.id}`;
+
+export const createCustomer = (input: CustomerInput, existing: Customer[], timestamp = Date.now()): Customer => {
+  const name = input.name.trim();
+  const phone = normalizePhone(input.phone);
+  if (!name) {
+    throw new Error('Enter the customer name');
+  }
+  if (phone.length < 7) {
+    throw new Error('Enter a valid phone number');
+  }
+  if (existing.some(c => c.phone === phone)) {
+    throw new Error('A customer with this phone number already exists');
+  }
+  return { id: `cust-${timestamp}`, name, phone, walletBalance: 0, points: 0, createdAt: timestamp };
+};
+
+// Kiosk login: accepts a scanned member QR payload or a phone number
+export const findCustomerByLogin = (customers: Customer[], input: string): Customer => {
+  const value = input.trim();
+  const customer = value.startsWith(MEMBER_QR_PREFIX)
+    ? customers.find(c => c.id === value.slice(MEMBER_QR_PREFIX.length))
+    : customers.find(c => normalizePhone(value) !== '' && c.phone === normalizePhone(value));
+  if (!customer) {
+    throw new Error(value.startsWith(MEMBER_QR_PREFIX) ? 'Member code not recognised' : 'No member found with this phone number');
+  }
+  return customer;
+};
+
+// Posts a signed amount to the wallet. Debits may not overdraw it.
+export const postWalletEntry = (
+  customer: Customer,
+  type: WalletEntryType,
+  amount: number,
+  options: { reference?: string; note?: string } = {},
+  timestamp = Date.now()
+): { customer: Customer; entry: WalletEntry } => {
+  if (!Number.isFinite(amount) || amount === 0) {
+    throw new Error('Enter a non-zero amount');
+  }
+  const balance = Math.round((customer.walletBalance + amount) * 100) / 100;
+  if (balance < 0) {
+    throw new Error('Insufficient wallet balance');
+  }
+  return {
+    customer: { ...customer, walletBalance: balance },
+    entry: {
+      id: `we-${customer.id}-${timestamp}`,
+      customerId: customer.id,
+      type,
+      amount,
+      balance,
+      reference: options.reference,
+      note: options.note?.trim() || undefined,
+      timestamp
+    }
+  };
+};
+
+export const topUpWallet = (customer: Customer, amount: number, reference?: string, note?: string, timestamp = Date.now()) => {
+  if (!(amount > 0)) {
+    throw new Error('Top-up amount must be positive');
+  }
+  return postWalletEntry(customer, 'top_up', amount, { reference, note }, timestamp);
+};
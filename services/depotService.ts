@@ -0,0 +1,122 @@
+import { CatalogItem, Depot, DepotStock, StockLocationRef, StockLot, StockRecord, StockTransfer } from '../types';
+import { createLot, depleteFefo, getActiveLots } from './lotService';
+import { MovementInput, depotMovement, machineMovement } from './ledgerService';
+
+export type DepotInput = Omit<Depot, 'id'>;
+
+export interface TransferInput {
+  from: StockLocationRef;
+  toMachineId: string;
+  lines: { skuId: string; quantity: number }[];
+  note?: string;
+}
+
+// Ledger entries and lot changes that post a transfer
+export interface TransferChanges {
+  movements: MovementInput[];
+  lots: StockLot[];
+}
+
+export const createDepot = (input: DepotInput, depots: Depot[], timestamp = Date.now()): Depot => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Depot name is required');
+  }
+  if (depots.some(d => d.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A depot named ${name} already exists`);
+  }
+  return { id: `depot-${timestamp}`, name, location: input.location.trim() };
+};
+
+// Units of a SKU on hand at one depot, or across all depots when none is given
+export const getDepotQuantity = (depotStock: DepotStock[], skuId: string, depotId?: string) =>
+  depotStock
+    .filter(d => d.skuId === skuId && (!depotId || d.depotId === depotId))
+    .reduce((sum, d) => sum + d.quantity, 0);
+
+const findMachineStock = (stock: StockRecord[], machineId: string, skuId: string) =>
+  stock.find(s => s.machineId === machineId && s.skuId === skuId);
+
+// Validates a transfer against current stock and turns it into a document.
+// The destination machine must already stock every SKU being moved.
+export const createTransfer = (
+  input: TransferInput,
+  context: { catalog: CatalogItem[]; stock: StockRecord[]; depotStock: DepotStock[] },
+  timestamp = Date.now()
+): StockTransfer => {
+  if (input.from.type === 'machine' && input.from.id === input.toMachineId) {
+    throw new Error('Source and destination machine must differ');
+  }
+  const lines = input.lines.filter(l => l.quantity !== 0);
+  if (lines.length === 0) {
+    throw new Error('A transfer needs at least one line');
+  }
+  if (new Set(lines.map(l => l.skuId)).size !== lines.length) {
+    throw new Error('Each SKU may appear only once per transfer');
+  }
+
+  return {
+    id: `trf-${timestamp}`,
+    from: input.from,
+    toMachineId: input.toMachineId,
+    note: input.note?.trim() || undefined,
+    createdAt: timestamp,
+    lines: lines.map(line => {
+      const item = context.catalog.find(c => c.id === line.skuId);
+      const name = item?.name || line.skuId;
+      if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+        throw new Error(`Invalid quantity for ${name}`);
+      }
+      if (!findMachineStock(context.stock, input.toMachineId, line.skuId)) {
+        throw new Error(`${name} is not stocked in the destination machine; add it there first`);
+      }
+      const available = input.from.type === 'depot'
+        ? getDepotQuantity(context.depotStock, line.skuId, input.from.id)
+        : findMachineStock(context.stock, input.from.id, line.skuId)?.quantity ?? 0;
+      if (line.quantity > available) {
+        throw new Error(`Only ${available} of ${name} available at the source`);
+      }
+      return { skuId: line.skuId, productName: name, quantity: line.quantity };
+    })
+  };
+};
+
+// Posts a transfer. Stock from a depot arrives as a new lot using the
+// destination's default expiry; stock from a machine leaves first-expired-first-out
+// and keeps its original expiry dates at the destination.
+export const applyTransfer = (
+  transfer: StockTransfer,
+  context: { stock: StockRecord[]; lots: StockLot[] }
+): TransferChanges => {
+  const changes: TransferChanges = { movements: [], lots: [] };
+  const lotNumber = transfer.id.toUpperCase();
+  const reason = transfer.note || 'Stock transfer';
+
+  transfer.lines.forEach((line, index) => {
+    const target = findMachineStock(context.stock, transfer.toMachineId, line.skuId) as StockRecord;
+    changes.movements.push(machineMovement(target, 'transfer', line.quantity, reason, transfer.id));
+
+    if (transfer.from.type === 'depot') {
+      changes.movements.push(depotMovement(transfer.from.id, line.skuId, 'transfer', -line.quantity, reason, transfer.id));
+      const lot = createLot(target.id, line.quantity, target.expiryDate, lotNumber, transfer.createdAt);
+      changes.lots.push({ ...lot, id: `${lot.id}-${index}` });
+      return;
+    }
+
+    const source = findMachineStock(context.stock, transfer.from.id, line.skuId) as StockRecord;
+    changes.movements.push(machineMovement(source, 'transfer', -line.quantity, reason, transfer.id));
+    const { changed } = depleteFefo(context.lots, source.id, line.quantity);
+    const before = new Map(getActiveLots(context.lots, source.id).map(l => [l.id, l.quantity]));
+    changes.lots.push(...changed);
+    changed.forEach((lot, lotIndex) => {
+      const moved = (before.get(lot.id) ?? 0) - lot.quantity;
+      if (moved <= 0) return;
+      changes.lots.push({
+        ...createLot(target.id, moved, lot.expiryDate, lot.lotNumber, transfer.createdAt),
+        id: `lot-${target.id}-${transfer.createdAt}-${index}-${lotIndex}`
+      });
+    });
+  });
+
+  return changes;
+};
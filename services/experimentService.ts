@@ -0,0 +1,327 @@
+import { ExperimentAllocation, ExperimentAssignment, ExperimentVariant, Machine, PriceExperiment, Product, SaleRecord } from '../types';
+import { roundMoney } from './money';
+
+const HOUR_MS = 3600000;
+const DAY_HOURS = 24;
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+const MIN_PERIODS = 3; // Per variant, before a difference is tested
+
+export const EXPERIMENT_ALLOCATION_LABELS: Record<ExperimentAllocation, string> = {
+  machines: 'Split by machine',
+  time_windows: 'Rotate by time window'
+};
+
+export interface ExperimentInput {
+  name: string;
+  skuId: string;
+  allocation: ExperimentAllocation;
+  machineIds: string[]; // Time split only; a machine split takes the variants' machines
+  windowHours?: number;
+  variants: { name: string; price: number; machineIds: string[] }[];
+}
+
+export interface VariantResult {
+  variant: ExperimentVariant;
+  units: number;
+  revenue: number;
+  profit: number;
+  margin: number | null; // Profit over revenue
+  periods: number; // Complete machine-days (machine split) or machine-windows (time split)
+  unitsPerPeriod: number;
+  profitPerPeriod: number;
+  lift: number | null; // Profit per period against the control, e.g. 0.12 for +12%
+  pValue: number | null; // Against the control; null for the control or too few periods
+}
+
+export interface ExperimentResults {
+  periodHours: number;
+  variants: VariantResult[];
+  winnerVariantId?: string; // Best variant that beats the control significantly
+}
+
+type PricedItem = Pick<Product, 'skuId' | 'price'>;
+
+export const createExperiment = (
+  input: ExperimentInput,
+  machines: Machine[],
+  experiments: PriceExperiment[],
+  timestamp = Date.now()
+): PriceExperiment => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Enter a name for the experiment');
+  }
+  if (!input.skuId) {
+    throw new Error('Choose the product to test');
+  }
+  if (input.variants.length < 2) {
+    throw new Error('An experiment needs at least two prices');
+  }
+  if (input.variants.some(v => !(v.price > 0))) {
+    throw new Error('Every variant needs a positive price');
+  }
+  if (new Set(input.variants.map(v => v.price)).size < input.variants.length) {
+    throw new Error('Each variant must test a different price');
+  }
+  const isMachineSplit = input.allocation === 'machines';
+  const machineIds = isMachineSplit ? input.variants.flatMap(v => v.machineIds) : input.machineIds;
+  if (isMachineSplit && input.variants.some(v => v.machineIds.length === 0)) {
+    throw new Error('Give every variant at least one machine');
+  }
+  if (machineIds.length === 0) {
+    throw new Error('Choose the machines to test at');
+  }
+  if (new Set(machineIds).size < machineIds.length) {
+    throw new Error('A machine can only sell one variant');
+  }
+  if (!isMachineSplit && !((input.windowHours || 0) >= 1)) {
+    throw new Error('Time windows must last at least an hour');
+  }
+  const currencies = new Set(machineIds.map(id => machines.find(m => m.id === id)?.currency));
+  if (currencies.size > 1) {
+    throw new Error('All machines in an experiment must price in the same currency');
+  }
+  const clash = experiments.find(e =>
+    e.status === 'running' && e.skuId === input.skuId && e.machineIds.some(id => machineIds.includes(id)));
+  if (clash) {
+    throw new Error(`${clash.name} is already testing this product at one of these machines`);
+  }
+  const currency = [...currencies][0] as string;
+  return {
+    id: `exp-${timestamp}`,
+    name,
+    skuId: input.skuId,
+    currency,
+    allocation: input.allocation,
+    machineIds,
+    windowHours: isMachineSplit ? undefined : input.windowHours,
+    variants: input.variants.map((v, i) => ({
+      id: String.fromCharCode(65 + i),
+      name: v.name.trim() || `Variant ${String.fromCharCode(65 + i)}`,
+      price: roundMoney(v.price, currency),
+      machineIds: isMachineSplit ? v.machineIds : []
+    })),
+    status: 'running',
+    startedAt: timestamp,
+    createdAt: timestamp
+  };
+};
+
+export const stopExperiment = (experiment: PriceExperiment, timestamp = Date.now()): PriceExperiment => {
+  if (experiment.status !== 'running') {
+    throw new Error(`${experiment.name} has already ended`);
+  }
+  return { ...experiment, status: 'stopped', endedAt: timestamp };
+};
+
+// Ends the experiment with the variant chosen; the caller makes its price the
+// shelf price at the experiment's machines
+export const promoteVariant = (
+  experiment: PriceExperiment,
+  variantId: string,
+  timestamp = Date.now()
+): { experiment: PriceExperiment; variant: ExperimentVariant } => {
+  if (experiment.status === 'promoted') {
+    throw new Error(`${experiment.name} has already been promoted`);
+  }
+  const variant = experiment.variants.find(v => v.id === variantId);
+  if (!variant) {
+    throw new Error('Variant not found');
+  }
+  return {
+    experiment: { ...experiment, status: 'promoted', endedAt: experiment.endedAt ?? timestamp, winnerVariantId: variantId },
+    variant
+  };
+};
+
+const getPeriodMs = (experiment: PriceExperiment) =>
+  (experiment.allocation === 'time_windows' ? experiment.windowHours || DAY_HOURS : DAY_HOURS) * HOUR_MS;
+
+// FNV-1a, so a window's variant is the same on every device
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Time windows are given variants at random rather than in turn, so that a
+// variant can't line up with a time of day or a weekday
+const getWindowVariant = (experiment: PriceExperiment, windowIndex: number) =>
+  experiment.variants[hash(`${experiment.id}:${windowIndex}`) % experiment.variants.length];
+
+// The variant a machine sells at a time, whether or not the experiment is still running
+const assignVariant = (experiment: PriceExperiment, machineId: string, timestamp: number): ExperimentVariant | undefined => {
+  if (!experiment.machineIds.includes(machineId) || timestamp < experiment.startedAt) return undefined;
+  return experiment.allocation === 'machines'
+    ? experiment.variants.find(v => v.machineIds.includes(machineId))
+    : getWindowVariant(experiment, Math.floor((timestamp - experiment.startedAt) / getPeriodMs(experiment)));
+};
+
+const findRunningExperiment = (experiments: PriceExperiment[], skuId: string, machineId: string) =>
+  experiments.find(e => e.status === 'running' && e.skuId === skuId && e.machineIds.includes(machineId));
+
+export const getActiveVariant = (
+  experiments: PriceExperiment[],
+  skuId: string,
+  machineId: string,
+  timestamp = Date.now()
+): ExperimentVariant | undefined => {
+  const experiment = findRunningExperiment(experiments, skuId, machineId);
+  return experiment && assignVariant(experiment, machineId, timestamp);
+};
+
+// A running experiment sets the price of its SKU, overriding shelf and price
+// list prices. Each item records the variant that priced it, or none.
+export const withExperimentPrices = <T extends PricedItem & { experiment?: ExperimentAssignment }>(
+  items: T[],
+  machineId: string,
+  experiments: PriceExperiment[],
+  timestamp = Date.now()
+): T[] => items.map(item => {
+  const experiment = findRunningExperiment(experiments, item.skuId, machineId);
+  const variant = experiment && assignVariant(experiment, machineId, timestamp);
+  return experiment && variant
+    ? { ...item, price: variant.price, experiment: { experimentId: experiment.id, variantId: variant.id } }
+    : { ...item, experiment: undefined };
+});
+
+// Lanczos approximation of ln Γ(x)
+const logGamma = (x: number) => {
+  const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  let series = 1.000000000190015;
+  coefficients.forEach(c => { series += c / ++y; });
+  const t = x + 5.5;
+  return (x + 0.5) * Math.log(t) - t + Math.log(2.5066282746310005 * series / x);
+};
+
+// Continued fraction for the incomplete beta function (Lentz's method)
+const betaContinuedFraction = (a: number, b: number, x: number) => {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const even = m * (b - m) * x / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 + even * d;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = 1 + even / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    h *= d * c;
+    const odd = -(a + m) * (a + b + m) * x / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 + odd * d;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = 1 + odd / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+  return h;
+};
+
+const regularizedBeta = (x: number, a: number, b: number) => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+const describe = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, variance, n: values.length };
+};
+
+// Two-sided p-value of Welch's t-test, which doesn't assume the variants
+// vary alike
+const welchPValue = (a: number[], b: number[]) => {
+  const x = describe(a);
+  const y = describe(b);
+  const se2 = x.variance / x.n + y.variance / y.n;
+  if (se2 === 0) return x.mean === y.mean ? 1 : 0;
+  const t = (x.mean - y.mean) / Math.sqrt(se2);
+  const df = se2 ** 2 / ((x.variance / x.n) ** 2 / (x.n - 1) + (y.variance / y.n) ** 2 / (y.n - 1));
+  return regularizedBeta(df / (df + t * t), df / 2, 0.5);
+};
+
+// Reads the experiment back from the sales. Totals count every sale so far
+// against the variant that priced it; the comparison uses complete periods
+// only, each machine-day or machine-window being one observation of units and
+// profit, zeros included. A sale authorized just before its window turned
+// over counts in the totals but not in the next window's observation.
+export const getExperimentResults = (
+  experiment: PriceExperiment,
+  sales: SaleRecord[],
+  now = Date.now()
+): ExperimentResults => {
+  const periodMs = getPeriodMs(experiment);
+  const end = Math.min(experiment.endedAt ?? now, now);
+  const completePeriods = Math.max(0, Math.floor((end - experiment.startedAt) / periodMs));
+  const key = (machineId: string, period: number) => `${machineId}:${period}`;
+
+  const totals = new Map(experiment.variants.map(v => [v.id, { units: 0, revenue: 0, profit: 0 }]));
+  const observed = new Map<string, { units: number; profit: number }>();
+  sales.forEach(s => {
+    if (s.skuId !== experiment.skuId || s.timestamp < experiment.startedAt || s.timestamp >= end) return;
+    if (s.experiment && s.experiment.experimentId !== experiment.id) return;
+    const scheduled = assignVariant(experiment, s.machineId, s.timestamp);
+    // Sales recorded before variants were stored on them go by the schedule
+    const variant = s.experiment ? experiment.variants.find(v => v.id === s.experiment?.variantId) : scheduled;
+    if (!variant) return;
+    const total = totals.get(variant.id) as { units: number; revenue: number; profit: number };
+    total.units += s.quantity;
+    total.revenue += s.revenue;
+    total.profit += s.profit;
+    const period = Math.floor((s.timestamp - experiment.startedAt) / periodMs);
+    if (period >= completePeriods || variant.id !== scheduled?.id) return;
+    const cell = observed.get(key(s.machineId, period)) || { units: 0, profit: 0 };
+    observed.set(key(s.machineId, period), { units: cell.units + s.quantity, profit: cell.profit + s.profit });
+  });
+
+  // Every complete period at every machine is an observation of whichever variant sold there
+  const observations = new Map<string, { units: number; profit: number }[]>(experiment.variants.map(v => [v.id, []]));
+  for (let period = 0; period < completePeriods; period++) {
+    const periodStart = experiment.startedAt + period * periodMs;
+    experiment.machineIds.forEach(machineId => {
+      const variant = assignVariant(experiment, machineId, periodStart);
+      if (!variant) return;
+      observations.get(variant.id)?.push(observed.get(key(machineId, period)) || { units: 0, profit: 0 });
+    });
+  }
+
+  const mean = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  const controlProfits = (observations.get(experiment.variants[0].id) || []).map(o => o.profit);
+  const controlProfit = mean(controlProfits);
+  const variants = experiment.variants.map((variant, i): VariantResult => {
+    const total = totals.get(variant.id) as { units: number; revenue: number; profit: number };
+    const periods = observations.get(variant.id) || [];
+    const profits = periods.map(o => o.profit);
+    const profitPerPeriod = mean(profits);
+    const canTest = i > 0 && profits.length >= MIN_PERIODS && controlProfits.length >= MIN_PERIODS;
+    return {
+      variant,
+      units: total.units,
+      revenue: roundMoney(total.revenue, experiment.currency),
+      profit: roundMoney(total.profit, experiment.currency),
+      margin: total.revenue > 0 ? total.profit / total.revenue : null,
+      periods: periods.length,
+      unitsPerPeriod: mean(periods.map(o => o.units)),
+      profitPerPeriod,
+      lift: i > 0 && controlProfit !== 0 ? (profitPerPeriod - controlProfit) / Math.abs(controlProfit) : null,
+      pValue: canTest ? welchPValue(profits, controlProfits) : null
+    };
+  });
+
+  const winner = variants
+    .filter(r => r.pValue !== null && r.pValue < SIGNIFICANCE_LEVEL && r.profitPerPeriod > controlProfit)
+    .sort((a, b) => b.profitPerPeriod - a.profitPerPeriod)[0];
+  return { periodHours: periodMs / HOUR_MS, variants, winnerVariantId: winner?.variant.id };
+};
@@ -0,0 +1,171 @@
+import { Product, SaleRecord } from '../types';
+
+const DAY_MS = 86400000;
+
+// Eight weeks, so every weekday is seen several times
+export const FORECAST_HISTORY_DAYS = 56;
+const FORECAST_HORIZON_DAYS = 7;
+const MOVING_AVERAGE_DAYS = 7;
+const SMOOTHING_FACTOR = 0.3; // Weight of the latest day in the smoothed level
+const MIN_SEASONAL_DAYS = 14; // Weekday effects need two of each weekday
+const MAX_COVER_DAYS = 365;
+
+// Demand for one product at one machine, fitted to its daily sales. The
+// level is an exponentially smoothed daily rate with the weekday pattern
+// taken out; forecasts put the pattern back in.
+export interface DemandForecast {
+  productId: string;
+  machineId: string;
+  historyDays: number; // Complete days of sales the forecast is fitted to
+  movingAverage: number; // Units per day over the last week
+  dailyDemand: number; // Smoothed level, units per day
+  weekdayFactors: number[]; // 0 = Sunday; demand on that weekday relative to the level
+  nextDays: number[]; // Units expected today and on each following day
+  daysOfCover: number | null; // From now; null when the stock is not projected to run out
+  stockOutDate: number | null;
+}
+
+// A forecast in the shape given to the AI prompts, rounded for reading
+export interface ForecastSummary {
+  product: string;
+  machineId: string;
+  onHand: number;
+  dailyDemand: number;
+  lastWeekAverage: number;
+  next7Days: number[];
+  daysOfCover: number | null;
+  stockOutDate: string | null; // Local date, YYYY-MM-DD
+}
+
+const startOfDay = (timestamp: number) => new Date(timestamp).setHours(0, 0, 0, 0);
+
+// Local midnight `days` days after the given midnight; DST days are not 24h long
+const addDays = (dayStart: number, days: number) => {
+  const date = new Date(dayStart);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days).getTime();
+};
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Net units sold per complete day, oldest first, from the product's first
+// sale (or the start of the history window) up to yesterday. Refunds reduce
+// the day they were made, never below zero.
+const getDailyUnits = (sales: SaleRecord[], now: number): number[] => {
+  const today = startOfDay(now);
+  const firstSale = sales.reduce((first, s) => Math.min(first, s.timestamp), Infinity);
+  if (firstSale >= today) return [];
+  const windowStart = Math.max(startOfDay(firstSale), addDays(today, -FORECAST_HISTORY_DAYS));
+  const days = Math.round((today - windowStart) / DAY_MS);
+  const units = new Array<number>(days).fill(0);
+  sales.forEach(s => {
+    if (s.timestamp < windowStart || s.timestamp >= today) return;
+    units[Math.round((startOfDay(s.timestamp) - windowStart) / DAY_MS)] += s.quantity;
+  });
+  return units.map(u => Math.max(0, u));
+};
+
+// Average demand on each weekday relative to the overall average; flat
+// until there is enough history to tell the weekdays apart
+const getWeekdayFactors = (units: number[], firstDay: number): number[] => {
+  const mean = units.reduce((sum, u) => sum + u, 0) / units.length;
+  if (units.length < MIN_SEASONAL_DAYS || mean === 0) return new Array(7).fill(1);
+  const totals = new Array(7).fill(0);
+  const counts = new Array(7).fill(0);
+  units.forEach((u, i) => {
+    const weekday = new Date(addDays(firstDay, i)).getDay();
+    totals[weekday] += u;
+    counts[weekday] += 1;
+  });
+  return totals.map((total, weekday) => counts[weekday] ? total / counts[weekday] / mean : 1);
+};
+
+export const forecastDemand = (
+  product: Pick<Product, 'id' | 'machineId' | 'quantity'>,
+  sales: SaleRecord[],
+  now = Date.now()
+): DemandForecast => {
+  const productSales = sales.filter(s => s.productId === product.id);
+  const units = getDailyUnits(productSales, now);
+  const today = startOfDay(now);
+  const firstDay = addDays(today, -units.length);
+  const weekdayFactors = getWeekdayFactors(units, firstDay);
+
+  // Seed the level with the first week, then smooth day by day from the
+  // second. A day whose weekday never sells says nothing about the level and
+  // is skipped, in the seed week as after it.
+  const deseasonalized = units.map((u, i) => {
+    const factor = weekdayFactors[new Date(addDays(firstDay, i)).getDay()];
+    return factor > 0 ? u / factor : null;
+  });
+  const seed = deseasonalized.slice(0, MOVING_AVERAGE_DAYS).filter((d): d is number => d !== null);
+  let level = seed.length ? seed.reduce((sum, d) => sum + d, 0) / seed.length : 0;
+  deseasonalized.slice(MOVING_AVERAGE_DAYS).forEach(d => {
+    if (d !== null) level = SMOOTHING_FACTOR * d + (1 - SMOOTHING_FACTOR) * level;
+  });
+
+  const lastWeek = units.slice(-MOVING_AVERAGE_DAYS);
+  const movingAverage = lastWeek.length ? lastWeek.reduce((sum, u) => sum + u, 0) / lastWeek.length : 0;
+  const demandOn = (dayStart: number) => level * weekdayFactors[new Date(dayStart).getDay()];
+  const nextDays = Array.from({ length: FORECAST_HORIZON_DAYS }, (_, k) => demandOn(addDays(today, k)));
+
+  // Run the stock down day by day, starting with what is left of today
+  let daysOfCover: number | null = null;
+  if (product.quantity <= 0) {
+    daysOfCover = 0;
+  } else if (level > 0) {
+    let remaining = product.quantity;
+    let elapsed = 0;
+    for (let k = 0; k < MAX_COVER_DAYS; k++) {
+      const dayStart = addDays(today, k);
+      const dayEnd = addDays(today, k + 1);
+      const share = (dayEnd - Math.max(dayStart, now)) / (dayEnd - dayStart);
+      const demand = demandOn(dayStart) * share;
+      if (demand >= remaining) {
+        daysOfCover = elapsed + share * (remaining / demand);
+        break;
+      }
+      remaining -= demand;
+      elapsed += share;
+    }
+  }
+
+  return {
+    productId: product.id,
+    machineId: product.machineId,
+    historyDays: units.length,
+    movingAverage,
+    dailyDemand: level,
+    weekdayFactors,
+    nextDays,
+    daysOfCover,
+    stockOutDate: daysOfCover === null ? null : now + daysOfCover * DAY_MS
+  };
+};
+
+// Forecasts for every product, keyed by product id
+export const forecastProducts = (
+  products: Pick<Product, 'id' | 'machineId' | 'quantity'>[],
+  sales: SaleRecord[],
+  now = Date.now()
+): Record<string, DemandForecast> => {
+  const since = addDays(startOfDay(now), -FORECAST_HISTORY_DAYS);
+  const byProduct = new Map<string, SaleRecord[]>();
+  sales.forEach(s => {
+    if (s.timestamp < since) return;
+    const productSales = byProduct.get(s.productId);
+    if (productSales) productSales.push(s);
+    else byProduct.set(s.productId, [s]);
+  });
+  return Object.fromEntries(products.map(p => [p.id, forecastDemand(p, byProduct.get(p.id) || [], now)]));
+};
+
+export const toForecastSummary = (forecast: DemandForecast, product: Pick<Product, 'name' | 'quantity'>): ForecastSummary => ({
+  product: product.name,
+  machineId: forecast.machineId,
+  onHand: product.quantity,
+  dailyDemand: round(forecast.dailyDemand, 2),
+  lastWeekAverage: round(forecast.movingAverage, 2),
+  next7Days: forecast.nextDays.map(d => round(d, 1)),
+  daysOfCover: forecast.daysOfCover === null ? null : round(forecast.daysOfCover, 1),
+  stockOutDate: forecast.stockOutDate === null ? null : new Date(forecast.stockOutDate).toLocaleDateString('en-CA')
+});
@@ -1,5 +1,7 @@
 import { GoogleGenAI, Modality, Type } from "@google/genai";
 import { Product, SaleRecord, Machine } from '../types';
+import { DEFAULT_MONEY_FORMAT, MoneyFormat, formatMoney } from './money';
+import type { ForecastSummary } from './forecastService';
 
 // Helper to get a fresh client instance every time to avoid API key race conditions
 const getAIClient = () => {
@@ -13,7 +15,7 @@ const getAIClient = () => {
 
 export const generateBusinessInsight = async (
   query: string,
-  contextData: { products: Product[], sales: SaleRecord[], machines: Machine[] }
+  contextData: { products: Product[], sales: SaleRecord[], machines: Machine[], forecasts?: ForecastSummary[] }
 ): Promise<string> => {
   
   const prompt = `
@@ -23,6 +25,7 @@ export const generateBusinessInsight = async (
     - Machines: ${JSON.stringify(contextData.machines)}
     - Inventory Summary: ${JSON.stringify(contextData.products.map(p => ({ name: p.name, qty: p.quantity, machine: p.machineId })))}
     - Recent Sales (Last 50): ${JSON.stringify(contextData.sales.slice(0, 50))}
+    - Demand Forecast (units per day, computed from sales history): ${JSON.stringify(contextData.forecasts || [])}
 
     User Query: ${query}
 
@@ -32,6 +35,7 @@ export const generateBusinessInsight = async (
     3. If asked about revenue, calculate it from the sales data provided.
     4. If asked for recommendations, identify low stock items or high-margin products.
     5. Do not hallucinate data not present in the context.
+    6. Use the demand forecast for stock-out and reorder questions rather than estimating demand yourself.
   `;
 
   try {
@@ -52,7 +56,9 @@ export const generateBusinessInsight = async (
 
 export const suggestOptimalPrice = async (
   product: Product,
-  recentSales: SaleRecord[]
+  recentSales: SaleRecord[],
+  money: MoneyFormat = DEFAULT_MONEY_FORMAT,
+  forecast?: ForecastSummary
 ): Promise<{ suggestedPrice: number; reasoning: string } | null> => {
   const productSales = recentSales.filter(s => s.productId === product.id);
   const salesCount = productSales.length;
@@ -60,11 +66,12 @@ export const suggestOptimalPrice = async (
 
   const prompt = `
     Analyze pricing for: "${product.name}" (${product.category}).
-    - Cost: $${product.cost}
-    - Current Price: $${product.price}
+    - Cost: ${formatMoney(product.cost, money)}
+    - Current Price: ${formatMoney(product.price, money)}
     - Stock: ${product.quantity} (Min: ${product.min_quantity})
-    - Sales (Last 30d): ${salesCount} units, $${revenue.toFixed(2)} revenue.
+    - Sales (Last 30d): ${salesCount} units, ${formatMoney(revenue, money)} revenue.
     - Expiry: ${new Date(product.expiryDate).toLocaleDateString()}
+    - Demand Forecast: ${forecast ? JSON.stringify(forecast) : 'no sales history'}
     
     Goal: Maximize profit margin while maintaining turnover. Consider expiration risk.
     Return JSON with 'suggestedPrice' (number) and 'reasoning' (string).
@@ -0,0 +1,119 @@
+import { DepotStock, InventoryMovement, MovementType, StockLocationRef, StockRecord } from '../types';
+
+export type MovementInput = Omit<InventoryMovement, 'id' | 'user' | 'timestamp'>;
+
+export interface MovementHistoryEntry {
+  movement: InventoryMovement;
+  balance: number; // Stock level right after this movement
+}
+
+export const MOVEMENT_LABELS: Record<MovementType, string> = {
+  sale: 'Sale',
+  return: 'Return',
+  restock: 'Restock',
+  write_off: 'Write-off',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer'
+};
+
+export const depotStockId = (depotId: string, skuId: string) => `${depotId}-${skuId}`;
+
+// Ledger key of the stock a movement belongs to: the stock record for a
+// machine, the depot/SKU pair for a depot
+const balanceKey = (location: StockLocationRef, skuId: string, productId?: string) =>
+  location.type === 'machine' ? productId || '' : depotStockId(location.id, skuId);
+
+export const machineMovement = (
+  record: Pick<StockRecord, 'id' | 'skuId' | 'machineId'>,
+  type: MovementType,
+  quantity: number,
+  reason: string,
+  referenceId?: string
+): MovementInput => ({
+  type,
+  location: { type: 'machine', id: record.machineId },
+  skuId: record.skuId,
+  productId: record.id,
+  quantity,
+  reason,
+  referenceId
+});
+
+export const depotMovement = (
+  depotId: string,
+  skuId: string,
+  type: MovementType,
+  quantity: number,
+  reason: string,
+  referenceId?: string
+): MovementInput => ({
+  type,
+  location: { type: 'depot', id: depotId },
+  skuId,
+  quantity,
+  reason,
+  referenceId
+});
+
+// Numbers every movement created in this session, so two postings to the same
+// balance in the same millisecond (even from separate batches) get distinct ids
+let sequence = 0;
+
+// Stamps movements with who made them and when. Zero-quantity entries are dropped.
+export const createMovements = (inputs: MovementInput[], user: string, timestamp = Date.now()): InventoryMovement[] =>
+  inputs
+    .filter(input => input.quantity !== 0)
+    .map(input => {
+      if (!Number.isInteger(input.quantity)) {
+        throw new Error('Stock movements must be whole units');
+      }
+      if (input.location.type === 'machine' && !input.productId) {
+        throw new Error('Machine movements must name a stock record');
+      }
+      return {
+        ...input,
+        id: `mv-${timestamp}-${balanceKey(input.location, input.skuId, input.productId)}-${sequence++}`,
+        user,
+        timestamp
+      };
+    });
+
+export const getBalances = (movements: InventoryMovement[]): Map<string, number> => {
+  const balances = new Map<string, number>();
+  movements.forEach(m => {
+    const key = balanceKey(m.location, m.skuId, m.productId);
+    balances.set(key, (balances.get(key) || 0) + m.quantity);
+  });
+  return balances;
+};
+
+// Stock records with their quantity replaced by the ledger balance
+export const applyStockLevels = (records: StockRecord[], movements: InventoryMovement[]): StockRecord[] => {
+  const balances = getBalances(movements);
+  return records.map(record => ({ ...record, quantity: balances.get(record.id) || 0 }));
+};
+
+export const getDepotStock = (movements: InventoryMovement[]): DepotStock[] => {
+  const levels = new Map<string, DepotStock>();
+  movements
+    .filter(m => m.location.type === 'depot')
+    .forEach(m => {
+      const id = depotStockId(m.location.id, m.skuId);
+      const current = levels.get(id) || { id, depotId: m.location.id, skuId: m.skuId, quantity: 0 };
+      levels.set(id, { ...current, quantity: current.quantity + m.quantity });
+    });
+  return Array.from(levels.values());
+};
+
+// A stock record's movements, newest first, with the running balance
+export const getProductHistory = (movements: InventoryMovement[], productId: string): MovementHistoryEntry[] => {
+  let balance = 0;
+  return movements
+    .filter(m => m.location.type === 'machine' && m.productId === productId)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(movement => {
+      balance += movement.quantity;
+      return { movement, balance };
+    })
+    .reverse();
+};
@@ -0,0 +1,107 @@
+import { Product, StockLot } from '../types';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface LotAlert {
+  lot: StockLot;
+  product: Product;
+}
+
+// Lots holding stock for a product, first-expiring first
+export const getActiveLots = (lots: StockLot[], productId: string): StockLot[] =>
+  lots
+    .filter(l => l.productId === productId && l.quantity > 0)
+    .sort((a, b) => a.expiryDate - b.expiryDate || a.receivedAt - b.receivedAt);
+
+export const createLot = (
+  productId: string,
+  quantity: number,
+  expiryDate: number,
+  lotNumber?: string,
+  receivedAt = Date.now()
+): StockLot => {
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error('Lot quantity must be a positive whole number');
+  }
+  return {
+    id: `lot-${productId}-${receivedAt}`,
+    productId,
+    lotNumber: lotNumber?.trim() || `L${new Date(receivedAt).toISOString().slice(0, 10).replace(/-/g, '')}-${productId}`,
+    receivedAt,
+    expiryDate,
+    quantity
+  };
+};
+
+// Takes `quantity` units out of a product's lots, earliest expiry first.
+// When `sellableAt` is given, lots already expired at that time are skipped.
+// Returns only the lots that changed plus any units that could not be covered.
+export const depleteFefo = (
+  lots: StockLot[],
+  productId: string,
+  quantity: number,
+  sellableAt?: number
+): { changed: StockLot[]; shortfall: number } => {
+  let remaining = quantity;
+  const changed: StockLot[] = [];
+  for (const lot of getActiveLots(lots, productId)) {
+    if (sellableAt !== undefined && lot.expiryDate < sellableAt) continue;
+    if (remaining <= 0) break;
+    const taken = Math.min(lot.quantity, remaining);
+    changed.push({ ...lot, quantity: lot.quantity - taken });
+    remaining -= taken;
+  }
+  return { changed, shortfall: remaining };
+};
+
+// Brings a product's lots in line with a manually edited quantity: extra units
+// arrive as a new lot using the product's expiry date, missing units are
+// removed first-expired-first-out.
+export const reconcileLots = (lots: StockLot[], product: Product, timestamp = Date.now()): StockLot[] => {
+  const onHand = getActiveLots(lots, product.id).reduce((sum, l) => sum + l.quantity, 0);
+  if (product.quantity > onHand) {
+    return [createLot(product.id, product.quantity - onHand, product.expiryDate, undefined, timestamp)];
+  }
+  if (product.quantity < onHand) {
+    return depleteFefo(lots, product.id, onHand - product.quantity).changed;
+  }
+  return [];
+};
+
+export const mergeLots = (lots: StockLot[], changed: StockLot[]): StockLot[] => {
+  const byId = new Map(changed.map(l => [l.id, l]));
+  const existing = new Set(lots.map(l => l.id));
+  return [...lots.map(l => byId.get(l.id) || l), ...changed.filter(l => !existing.has(l.id))];
+};
+
+// Products report the expiry of their earliest active lot
+export const withLotExpiry = (products: Product[], lots: StockLot[]): Product[] =>
+  products.map(product => {
+    const [first] = getActiveLots(lots, product.id);
+    return first ? { ...product, expiryDate: first.expiryDate } : product;
+  });
+
+export const getExpiredUnits = (lots: StockLot[], productId: string, now = Date.now()) =>
+  getActiveLots(lots, productId)
+    .filter(l => l.expiryDate < now)
+    .reduce((sum, l) => sum + l.quantity, 0);
+
+// Expired stock cannot be sold, so customers only see the rest
+export const withSellableQuantity = (products: Product[], lots: StockLot[], now = Date.now()): Product[] =>
+  products.map(product => ({ ...product, quantity: Math.max(0, product.quantity - getExpiredUnits(lots, product.id, now)) }));
+
+export const getExpiryAlerts = (
+  lots: StockLot[],
+  products: Product[],
+  now = Date.now()
+): { expired: LotAlert[]; nearExpiry: LotAlert[] } => {
+  const expired: LotAlert[] = [];
+  const nearExpiry: LotAlert[] = [];
+  products.forEach(product => {
+    getActiveLots(lots, product.id).forEach(lot => {
+      if (lot.expiryDate < now) expired.push({ lot, product });
+      else if (lot.expiryDate <= now + WEEK_MS) nearExpiry.push({ lot, product });
+    });
+  });
+  return { expired, nearExpiry };
+};
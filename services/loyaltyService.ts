@@ -0,0 +1,52 @@
+import { Customer, LoyaltyEntry, LoyaltyEntryType, Reward, Transaction, TransactionRefund, WalletEntry } from '../types';
+import { LOYALTY_POINTS_PER_UNIT } from '../constants';
+import { postWalletEntry } from './customerService';
+import { DEFAULT_MONEY_FORMAT, MoneyFormat, formatMoney } from './money';
+
+// Points are earned on what was actually charged, rounded down
+export const getPointsForAmount = (amount: number) => Math.floor(amount * LOYALTY_POINTS_PER_UNIT + 1e-9);
+
+const postPoints = (
+  customer: Customer,
+  type: LoyaltyEntryType,
+  points: number,
+  reference: string | undefined,
+  timestamp: number
+): { customer: Customer; entry: LoyaltyEntry } => {
+  const balance = customer.points + points;
+  return {
+    customer: { ...customer, points: balance },
+    entry: { id: `le-${customer.id}-${timestamp}`, customerId: customer.id, type, points, balance, reference, timestamp }
+  };
+};
+
+// Null when the transaction earns nothing, e.g. nothing was vended
+export const earnPoints = (customer: Customer, transaction: Transaction, timestamp = Date.now()) => {
+  const points = getPointsForAmount(transaction.total);
+  return points > 0 ? postPoints(customer, 'earned', points, transaction.id, timestamp) : null;
+};
+
+// Takes back the points a refund's amount earned, without going below zero
+// when the customer has already spent them
+export const reversePoints = (customer: Customer, refund: TransactionRefund, timestamp = Date.now()) => {
+  const points = Math.min(customer.points, getPointsForAmount(refund.amount));
+  return points > 0 ? postPoints(customer, 'reversed', -points, refund.id, timestamp) : null;
+};
+
+export const getRewardLabel = (reward: Reward, money: MoneyFormat = DEFAULT_MONEY_FORMAT) =>
+  `${formatMoney(reward.walletCredit, money)} wallet credit`;
+
+export const redeemReward = (
+  customer: Customer,
+  reward: Reward,
+  money: MoneyFormat = DEFAULT_MONEY_FORMAT,
+  timestamp = Date.now()
+): { customer: Customer; loyaltyEntry: LoyaltyEntry; walletEntry: WalletEntry } => {
+  const label = getRewardLabel(reward, money);
+  if (customer.points < reward.pointsCost) {
+    throw new Error(`${label} needs ${reward.pointsCost} points`);
+  }
+  const redeemed = postPoints(customer, 'redeemed', -reward.pointsCost, reward.id, timestamp);
+  const credited = postWalletEntry(redeemed.customer, 'reward', reward.walletCredit, { reference: reward.id, note: label }, timestamp);
+  return { customer: credited.customer, loyaltyEntry: redeemed.entry, walletEntry: credited.entry };
+};
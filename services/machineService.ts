@@ -0,0 +1,121 @@
+import { Machine, MachineStatus, MachineStatusChange, MaintenanceTicket } from '../types';
+
+type ChangeSource = NonNullable<MachineStatusChange['source']>;
+
+export interface MachineInput {
+  name: string;
+  location: string;
+  status: MachineStatus;
+  currency: string;
+  locale: string;
+  group: string; // Blank for none
+}
+
+export const isDecommissioned = (machine: Machine) => Boolean(machine.decommissionedAt);
+
+export const getActiveMachines = (machines: Machine[]) => machines.filter(m => !isDecommissioned(m));
+
+export const getMachineGroups = (machines: Machine[]) =>
+  Array.from(new Set(machines.map(m => m.group).filter((g): g is string => !!g))).sort();
+
+const buildStatusChange = (
+  machineId: string,
+  from: MachineStatus | null,
+  to: MachineStatus,
+  reason: string,
+  timestamp: number,
+  source: ChangeSource
+): MachineStatusChange => ({
+  id: `msc-${machineId}-${timestamp}`,
+  machineId,
+  from,
+  to,
+  reason,
+  timestamp,
+  source
+});
+
+export const createMachine = (
+  input: MachineInput,
+  timestamp = Date.now()
+): { machine: Machine; change: MachineStatusChange } => {
+  const machine: Machine = {
+    id: `m-${timestamp}`,
+    name: input.name.trim(),
+    location: input.location.trim(),
+    status: input.status,
+    currency: input.currency,
+    locale: input.locale,
+    group: input.group.trim() || undefined,
+    statusChangedAt: timestamp
+  };
+  return { machine, change: buildStatusChange(machine.id, null, input.status, 'Machine commissioned', timestamp, 'manual') };
+};
+
+// Applies a status transition, returning the updated machine together with the
+// change record. Throws when the transition is not allowed. Manual transitions
+// pin the status so the status engine does not overwrite it.
+export const transitionMachineStatus = (
+  machine: Machine,
+  to: MachineStatus,
+  reason: string,
+  timestamp = Date.now(),
+  source: ChangeSource = 'manual'
+): { machine: Machine; change: MachineStatusChange } => {
+  if (isDecommissioned(machine)) {
+    throw new Error(`${machine.name} has been decommissioned`);
+  }
+  if (machine.status === to) {
+    throw new Error(`${machine.name} is already ${to}`);
+  }
+  if (!reason.trim()) {
+    throw new Error('A reason is required for status changes');
+  }
+  return {
+    machine: { ...machine, status: to, statusChangedAt: timestamp, statusOverride: source === 'manual' },
+    change: buildStatusChange(machine.id, machine.status, to, reason.trim(), timestamp, source)
+  };
+};
+
+// Hands status control back to the status engine.
+export const releaseStatusOverride = (machine: Machine): Machine => ({ ...machine, statusOverride: false });
+
+export const recordHeartbeat = (machine: Machine, timestamp = Date.now()): Machine => ({
+  ...machine,
+  lastHeartbeatAt: timestamp
+});
+
+// Retires a machine from the fleet. History (sales, status changes) is kept,
+// so the record is flagged rather than deleted.
+export const decommissionMachine = (
+  machine: Machine,
+  reason: string,
+  timestamp = Date.now()
+): { machine: Machine; change: MachineStatusChange } => {
+  if (isDecommissioned(machine)) {
+    throw new Error(`${machine.name} has already been decommissioned`);
+  }
+  if (!reason.trim()) {
+    throw new Error('A reason is required to decommission a machine');
+  }
+  return {
+    machine: { ...machine, status: MachineStatus.OFFLINE, statusChangedAt: timestamp, decommissionedAt: timestamp },
+    change: buildStatusChange(machine.id, machine.status, MachineStatus.OFFLINE, `Decommissioned: ${reason.trim()}`, timestamp, 'manual')
+  };
+};
+
+export const openMaintenanceTicket = (
+  machineId: string,
+  title: string,
+  timestamp = Date.now()
+): MaintenanceTicket => {
+  if (!title.trim()) {
+    throw new Error('A ticket needs a short description');
+  }
+  return { id: `mt-${machineId}-${timestamp}`, machineId, title: title.trim(), openedAt: timestamp };
+};
+
+export const closeMaintenanceTicket = (ticket: MaintenanceTicket, timestamp = Date.now()): MaintenanceTicket => ({
+  ...ticket,
+  closedAt: timestamp
+});
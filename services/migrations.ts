@@ -0,0 +1,313 @@
+import { StorageBackend } from './storage';
+import { DEPOTS, INITIAL_DEPOT_QUANTITY, INITIAL_PRODUCTS, INITIAL_SALES, MACHINES, SUPPLIERS, DEFAULT_CURRENCY, DEFAULT_LOCALE } from '../constants';
+import { CatalogItem, DepotStock, InventoryMovement, Machine, MovementType, MachineStatus, MachineStatusChange, MaintenanceTicket, Product, SaleRecord, StockLot, StockRecord, Transaction } from '../types';
+import { autoAssignProducts, createDefaultPlanogram } from './planogramService';
+import { nextSkuCode, toStockRecord } from './catalogService';
+import { groupSalesIntoTransactions } from './transactionService';
+import { createCashDrawer } from './cashService';
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (backend: StorageBackend) => Promise<void>;
+}
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Ordered list of schema migrations. Append new entries with the next version
+// number whenever a model in types.ts changes shape or a collection is added.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Seed machines, products and sales from the demo dataset',
+    migrate: async (backend) => {
+      await backend.putMany('machines', MACHINES);
+      await backend.putMany('products', INITIAL_PRODUCTS);
+      await backend.putMany('sales', INITIAL_SALES);
+    }
+  },
+  {
+    version: 2,
+    description: 'Track machine status transitions with timestamps and reasons',
+    migrate: async (backend) => {
+      const now = Date.now();
+      const machines = await backend.getAll<Machine>('machines');
+      const initialChanges: MachineStatusChange[] = machines.map(m => ({
+        id: `msc-${m.id}-${now}`,
+        machineId: m.id,
+        from: null,
+        to: m.status,
+        reason: 'Initial status',
+        timestamp: now
+      }));
+      await backend.putMany('machines', machines.map(m => ({ ...m, statusChangedAt: m.statusChangedAt || now })));
+      await backend.putMany('machineStatusChanges', initialChanges);
+    }
+  },
+  {
+    version: 3,
+    description: 'Open maintenance tickets for machines hand-flagged as MAINTENANCE',
+    migrate: async (backend) => {
+      const now = Date.now();
+      const machines = await backend.getAll<Machine>('machines');
+      const tickets: MaintenanceTicket[] = machines
+        .filter(m => m.status === MachineStatus.MAINTENANCE && !m.decommissionedAt)
+        .map(m => ({ id: `mt-${m.id}-${now}`, machineId: m.id, title: 'Carried over from manual status', openedAt: now }));
+      await backend.putMany('maintenanceTickets', tickets);
+    }
+  },
+  {
+    version: 4,
+    description: 'Lay out a default planogram for every machine and slot its products',
+    migrate: async (backend) => {
+      const machines = await backend.getAll<Machine>('machines');
+      const products = await backend.getAll<Product>('products');
+      const planograms = machines.map(m =>
+        autoAssignProducts(createDefaultPlanogram(m.id), products.filter(p => p.machineId === m.id))
+      );
+      await backend.putMany('planograms', planograms);
+    }
+  },
+  {
+    version: 5,
+    description: 'Split products into a master catalog and per-machine stock records',
+    migrate: async (backend) => {
+      // Pre-catalog rows carry name/cost/image inline and may lack SKU fields
+      const legacy = await backend.getAll<Partial<Product> & { id: string; name: string }>('products');
+      const catalog: CatalogItem[] = [];
+      const skuByName = new Map<string, string>();
+
+      const stock: StockRecord[] = legacy.map((row, index) => {
+        let skuId = row.skuId || skuByName.get(row.name);
+        if (!skuId || !catalog.some(item => item.id === skuId)) {
+          skuId = skuId || `sku-migrated-${index}`;
+          catalog.push({
+            id: skuId,
+            sku: row.sku || nextSkuCode(catalog),
+            barcode: row.barcode || '',
+            name: row.name,
+            category: row.category || 'Other',
+            cost: row.cost ?? 0,
+            image: row.image || ''
+          });
+        }
+        skuByName.set(row.name, skuId);
+        return toStockRecord({ ...row, skuId } as Product);
+      });
+
+      const skuByProduct = new Map(stock.map(s => [s.id, s.skuId]));
+      const sales = await backend.getAll<SaleRecord>('sales');
+      await backend.putMany('catalog', catalog);
+      await backend.putMany('products', stock);
+      await backend.putMany('sales', sales.map(s => ({ ...s, skuId: s.skuId || skuByProduct.get(s.productId) || '' })));
+    }
+  },
+  {
+    version: 6,
+    description: 'Turn each stock record into a single lot carrying its expiry date',
+    migrate: async (backend) => {
+      const now = Date.now();
+      const stock = await backend.getAll<StockRecord>('products');
+      const lots: StockLot[] = stock
+        .filter(s => s.quantity > 0)
+        .map(s => ({
+          id: `lot-${s.id}-migrated`,
+          productId: s.id,
+          lotNumber: `MIGRATED-${s.id}`,
+          receivedAt: now,
+          expiryDate: s.expiryDate,
+          quantity: s.quantity
+        }));
+      await backend.putMany('lots', lots);
+    }
+  },
+  {
+    version: 7,
+    description: 'Add restock work orders',
+    // New collection only; the IndexedDB upgrade creates its object store
+    migrate: async () => {}
+  },
+  {
+    version: 8,
+    description: 'Add depots with their own stock, and stock transfers',
+    migrate: async (backend) => {
+      const catalog = await backend.getAll<CatalogItem>('catalog');
+      const depotStock: DepotStock[] = DEPOTS.flatMap(depot => catalog.map(item => ({
+        id: `${depot.id}-${item.id}`,
+        depotId: depot.id,
+        skuId: item.id,
+        quantity: INITIAL_DEPOT_QUANTITY
+      })));
+      await backend.putMany('depots', DEPOTS);
+      await backend.putMany('depotStock', depotStock);
+    }
+  },
+  {
+    version: 9,
+    description: 'Add suppliers and purchase orders',
+    migrate: async (backend) => {
+      await backend.putMany('suppliers', SUPPLIERS);
+    }
+  },
+  {
+    version: 10,
+    description: 'Derive stock levels from an inventory movement ledger',
+    migrate: async (backend) => {
+      const now = Date.now();
+      const stock = await backend.getAll<StockRecord>('products');
+      const depotStock = await backend.getAll<DepotStock>('depotStock');
+      const opening = (movement: Omit<InventoryMovement, 'id' | 'type' | 'user' | 'reason' | 'timestamp'>, key: string): InventoryMovement => ({
+        ...movement,
+        id: `mv-opening-${key}`,
+        type: 'adjustment',
+        user: 'System',
+        reason: 'Opening balance',
+        timestamp: now
+      });
+      await backend.putMany('movements', [
+        ...stock
+          .filter(s => s.quantity > 0)
+          .map(s => opening({ location: { type: 'machine', id: s.machineId }, skuId: s.skuId, productId: s.id, quantity: s.quantity }, s.id)),
+        ...depotStock
+          .filter(d => d.quantity > 0)
+          .map(d => opening({ location: { type: 'depot', id: d.depotId }, skuId: d.skuId, quantity: d.quantity }, d.id))
+      ]);
+    }
+  },
+  {
+    version: 11,
+    description: 'Add physical stock counts',
+    // New collection only; the IndexedDB upgrade creates its object store
+    migrate: async () => {}
+  },
+  {
+    version: 12,
+    description: 'Add spoilage and expiry write-offs',
+    // New collection only; the IndexedDB upgrade creates its object store
+    migrate: async () => {}
+  },
+  {
+    version: 13,
+    description: 'Group sales into transactions',
+    migrate: async (backend) => {
+      const sales = await backend.getAll<SaleRecord>('sales');
+      const { transactions, sales: linked } = groupSalesIntoTransactions(sales);
+      await backend.putMany('transactions', transactions);
+      await backend.putMany('sales', linked);
+    }
+  },
+  {
+    version: 14,
+    description: 'Track vend outcomes and refunds on transactions',
+    migrate: async (backend) => {
+      const transactions = await backend.getAll<Transaction>('transactions');
+      await backend.putMany('transactions', transactions.map(t => ({
+        ...t,
+        lines: t.lines.map(line => ({
+          ...line,
+          unitCost: line.unitCost ?? (line.total - line.profit) / line.quantity,
+          failedQuantity: line.failedQuantity ?? 0,
+          refundedQuantity: line.refundedQuantity ?? 0
+        })),
+        refunds: t.refunds ?? [],
+        refundedAmount: t.refundedAmount ?? 0
+      })));
+    }
+  },
+  {
+    version: 15,
+    description: 'Track cash drawers and cash collections',
+    migrate: async (backend) => {
+      // Earlier cash sales predate the drawers, so each machine starts a fresh
+      // collection period with full change tubes
+      const now = Date.now();
+      const machines = await backend.getAll<Machine>('machines');
+      await backend.putMany('cashDrawers', machines.filter(m => !m.decommissionedAt).map(m => createCashDrawer(m.id, now)));
+    }
+  },
+  {
+    version: 16,
+    description: 'Add customer wallets and loyalty points',
+    // New collections only; the IndexedDB upgrade creates their object stores
+    migrate: async () => {}
+  },
+  {
+    version: 17,
+    description: 'Add promotions and record discounts on transactions',
+    migrate: async (backend) => {
+      const transactions = await backend.getAll<Transaction>('transactions');
+      await backend.putMany('transactions', transactions.map(t => ({
+        ...t,
+        lines: t.lines.map(line => ({ ...line, discount: line.discount ?? 0 })),
+        discount: t.discount ?? 0
+      })));
+    }
+  },
+  {
+    version: 18,
+    description: 'Add machine currencies and tax rules',
+    // Everything recorded so far was in the default currency, untaxed
+    migrate: async (backend) => {
+      const machines = await backend.getAll<Machine>('machines');
+      await backend.putMany('machines', machines.map(m => ({
+        ...m,
+        currency: m.currency ?? DEFAULT_CURRENCY,
+        locale: m.locale ?? DEFAULT_LOCALE
+      })));
+      const transactions = await backend.getAll<Transaction>('transactions');
+      await backend.putMany('transactions', transactions.map(t => ({ ...t, currency: t.currency ?? DEFAULT_CURRENCY })));
+    }
+  },
+  {
+    version: 19,
+    description: 'Add price lists and machine groups',
+    // New collection only; machines without a group need no backfill
+    migrate: async () => {}
+  },
+  {
+    version: 20,
+    description: 'Add price experiments',
+    // New collection only; the IndexedDB upgrade creates its object store
+    migrate: async () => {}
+  },
+  {
+    version: 21,
+    description: 'Book restocked refunds as returns rather than sales',
+    // The ledger is append-only, so each refund booked as a sale is reversed
+    // and booked again as a return, leaving stock levels unchanged
+    migrate: async (backend) => {
+      const now = Date.now();
+      const movements = await backend.getAll<InventoryMovement>('movements');
+      const reclassify = (m: InventoryMovement, type: MovementType, quantity: number, suffix: string): InventoryMovement => ({
+        ...m,
+        id: `${m.id}-${suffix}`,
+        type,
+        quantity,
+        user: 'System',
+        reason: `Reclassified as return: ${m.reason}`,
+        timestamp: now
+      });
+      await backend.putMany('movements', movements
+        .filter(m => m.type === 'sale' && m.quantity > 0 && m.referenceId?.startsWith('rf-'))
+        .flatMap(m => [reclassify(m, 'sale', -m.quantity, 'reversal'), reclassify(m, 'return', m.quantity, 'return')]));
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Brings the backend up to SCHEMA_VERSION, recording progress after each step
+// so an interrupted run resumes from the last completed migration.
+export const runMigrations = async (backend: StorageBackend): Promise<number> => {
+  const currentVersion = (await backend.getMeta<number>(SCHEMA_VERSION_KEY)) || 0;
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new Error(`Stored schema v${currentVersion} is newer than this app (v${SCHEMA_VERSION})`);
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+    await migration.migrate(backend);
+    await backend.setMeta(SCHEMA_VERSION_KEY, migration.version);
+  }
+  return SCHEMA_VERSION;
+};
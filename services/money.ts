@@ -0,0 +1,86 @@
+import { Machine } from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE } from '../constants';
+
+// Every amount shown to a user goes through formatMoney, and arithmetic that
+// must come out exact (totals, tax, splitting a discount) is done in integer
+// minor units (cents, paise) of the currency.
+export interface MoneyFormat {
+  currency: string;
+  locale: string;
+}
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = { currency: DEFAULT_CURRENCY, locale: DEFAULT_LOCALE };
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (format: MoneyFormat, signed = false) => {
+  const key = `${format.locale}|${format.currency}|${signed}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(format.locale, {
+      style: 'currency',
+      currency: format.currency,
+      signDisplay: signed ? 'exceptZero' : 'auto'
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+// Decimal places of the currency's minor unit, e.g. 2 for USD, 0 for JPY
+export const getMinorDigits = (currency = DEFAULT_CURRENCY) =>
+  getFormatter({ currency, locale: DEFAULT_LOCALE }).resolvedOptions().maximumFractionDigits ?? 2;
+
+export const toMinorUnits = (amount: number, currency = DEFAULT_CURRENCY) =>
+  Math.round(amount * 10 ** getMinorDigits(currency));
+
+export const fromMinorUnits = (minor: number, currency = DEFAULT_CURRENCY) =>
+  minor / 10 ** getMinorDigits(currency);
+
+export const roundMoney = (amount: number, currency = DEFAULT_CURRENCY) =>
+  fromMinorUnits(toMinorUnits(amount, currency), currency);
+
+export const sumMoney = (amounts: number[], currency = DEFAULT_CURRENCY) =>
+  fromMinorUnits(amounts.reduce((sum, amount) => sum + toMinorUnits(amount, currency), 0), currency);
+
+// Signed amounts show an explicit + for credits, as in ledgers
+export const formatMoney = (amount: number, format: MoneyFormat = DEFAULT_MONEY_FORMAT, options: { signed?: boolean } = {}) =>
+  getFormatter(format, options.signed).format(roundMoney(amount, format.currency));
+
+export const getMoneyFormat = (machine?: Pick<Machine, 'currency' | 'locale'>): MoneyFormat =>
+  machine ? { currency: machine.currency, locale: machine.locale } : DEFAULT_MONEY_FORMAT;
+
+// Fleet-wide figures add up amounts from every machine, which only makes
+// sense in a currency they share; amounts are never converted
+export const getFleetMoneyFormat = (machines: Pick<Machine, 'currency' | 'locale'>[]): MoneyFormat => {
+  const currencies = new Set(machines.map(m => m.currency));
+  return currencies.size === 1 ? getMoneyFormat(machines[0]) : DEFAULT_MONEY_FORMAT;
+};
+
+// One format per currency the machines price in
+export const getMoneyFormats = (machines: Pick<Machine, 'currency' | 'locale'>[]): MoneyFormat[] => {
+  const formats = new Map(machines.map(m => [m.currency, getMoneyFormat(m)]));
+  return formats.size ? Array.from(formats.values()) : [DEFAULT_MONEY_FORMAT];
+};
+
+export interface CurrencyAmount {
+  format: MoneyFormat;
+  amount: number;
+}
+
+// Fleet totals over machines pricing in different currencies are kept apart,
+// one per currency
+export const sumByCurrency = (
+  amounts: { machineId: string; amount: number }[],
+  machines: Pick<Machine, 'id' | 'currency' | 'locale'>[]
+): CurrencyAmount[] => {
+  const totals = new Map<string, CurrencyAmount>();
+  amounts.forEach(({ machineId, amount }) => {
+    const format = getMoneyFormat(machines.find(m => m.id === machineId));
+    totals.set(format.currency, { format, amount: (totals.get(format.currency)?.amount || 0) + amount });
+  });
+  return Array.from(totals.values());
+};
+
+export const formatCurrencyAmounts = (amounts: CurrencyAmount[], fallback: MoneyFormat = DEFAULT_MONEY_FORMAT) =>
+  amounts.length ? amounts.map(a => formatMoney(a.amount, a.format)).join(' · ') : formatMoney(0, fallback);
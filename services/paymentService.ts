@@ -0,0 +1,217 @@
+import { PaymentMethod } from '../types';
+import { UPI_PAYEE } from '../constants';
+import { acceptsCash } from './cashService';
+import { acceptsUpi, createHttpUpiStatusEndpoint, createStubUpiStatusEndpoint, createUpiPaymentProvider } from './upiService';
+
+export type PaymentStatus =
+  | 'pending'
+  | 'approved'
+  | 'declined'
+  | 'timed_out'
+  | 'captured'
+  | 'cancelled'
+  | 'refunded'
+  | 'partially_refunded';
+
+export interface Payment {
+  id: string;
+  method: PaymentMethod;
+  amount: number; // Authorized amount
+  capturedAmount: number;
+  refundedAmount: number;
+  status: PaymentStatus;
+  message?: string;
+  reference?: string; // Sent to the payer's app, e.g. the UPI transaction reference
+  qrPayload?: string; // Shown as a QR code for the customer to scan
+  expiresAt?: number; // When an unpaid QR code stops being accepted
+  createdAt: number;
+}
+
+// A payment gateway. Authorization is asynchronous: callers poll the status
+// until it leaves 'pending', then capture what was actually vended.
+export interface PaymentProvider {
+  name: string;
+  authorize(method: PaymentMethod, amount: number): Promise<Payment>;
+  getStatus(paymentId: string): Promise<Payment>;
+  capture(paymentId: string, amount: number): Promise<Payment>;
+  cancel(paymentId: string): Promise<Payment>;
+  refund(paymentId: string, amount: number): Promise<Payment>;
+}
+
+export type SimulatedOutcome = 'approve' | 'decline' | 'timeout';
+
+export interface SimulatorConfig {
+  outcomes: Partial<Record<PaymentMethod, SimulatedOutcome>>;
+  defaultOutcome: SimulatedOutcome;
+  latencyMs: number;
+  qrLatencyMs: number; // Time a customer takes to scan and pay
+}
+
+const DECLINE_MESSAGES: Record<PaymentMethod, string> = {
+  [PaymentMethod.CREDIT_CARD]: 'Card declined by issuer',
+  [PaymentMethod.UPI]: 'UPI request rejected',
+  [PaymentMethod.WALLET]: 'Insufficient wallet balance',
+  [PaymentMethod.CASH]: 'Cash not accepted',
+  [PaymentMethod.QR_CODE]: 'QR payment rejected'
+};
+
+// Local stand-in for a real gateway. Each method approves, declines or never
+// answers (so the caller times out) as configured. Payments live in memory.
+export const createSimulatedPaymentProvider = (config: SimulatorConfig): PaymentProvider => {
+  const payments = new Map<string, Payment>();
+  let sequence = 0;
+
+  const find = (paymentId: string): Payment => {
+    const payment = payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+    return payment;
+  };
+
+  const update = (payment: Payment, changes: Partial<Payment>): Payment => {
+    const updated = { ...payment, ...changes };
+    payments.set(updated.id, updated);
+    return { ...updated };
+  };
+
+  return {
+    name: 'Simulator',
+    async authorize(method, amount) {
+      if (!(amount > 0)) {
+        throw new Error('Payment amount must be positive');
+      }
+      sequence += 1;
+      const payment: Payment = {
+        id: `pay-${Date.now()}-${sequence}`,
+        method,
+        amount,
+        capturedAmount: 0,
+        refundedAmount: 0,
+        status: 'pending',
+        createdAt: Date.now()
+      };
+      payments.set(payment.id, payment);
+      const outcome = config.outcomes[method] || config.defaultOutcome;
+      if (outcome !== 'timeout') {
+        setTimeout(() => {
+          const current = payments.get(payment.id);
+          if (current?.status !== 'pending') return;
+          update(current, outcome === 'approve'
+            ? { status: 'approved' }
+            : { status: 'declined', message: DECLINE_MESSAGES[method] });
+        }, config.latencyMs);
+      }
+      return { ...payment };
+    },
+    async getStatus(paymentId) {
+      return { ...find(paymentId) };
+    },
+    async capture(paymentId, amount) {
+      const payment = find(paymentId);
+      if (payment.status !== 'approved') {
+        throw new Error(`Cannot capture a payment that is ${payment.status}`);
+      }
+      if (amount <= 0 || amount > payment.amount) {
+        throw new Error('Capture amount must be between zero and the authorized amount');
+      }
+      return update(payment, { status: 'captured', capturedAmount: amount });
+    },
+    async cancel(paymentId) {
+      const payment = find(paymentId);
+      if (payment.status !== 'pending' && payment.status !== 'approved') {
+        throw new Error(`Cannot cancel a payment that is ${payment.status}`);
+      }
+      return update(payment, { status: 'cancelled' });
+    },
+    async refund(paymentId, amount) {
+      const payment = find(paymentId);
+      if (payment.status !== 'captured' && payment.status !== 'partially_refunded') {
+        throw new Error(`Cannot refund a payment that is ${payment.status}`);
+      }
+      const refundedAmount = payment.refundedAmount + amount;
+      if (amount <= 0 || refundedAmount > payment.capturedAmount) {
+        throw new Error('Refund exceeds the captured amount');
+      }
+      return update(payment, {
+        refundedAmount,
+        status: refundedAmount >= payment.capturedAmount ? 'refunded' : 'partially_refunded'
+      });
+    }
+  };
+};
+
+// Polls until the gateway answers. A payment still pending at the deadline (or
+// once its QR code expires) is voided and reported as timed out.
+export const waitForAuthorization = async (
+  provider: PaymentProvider,
+  paymentId: string,
+  options: { intervalMs?: number; timeoutMs?: number } = {}
+): Promise<Payment> => {
+  const { intervalMs = 500, timeoutMs = 10000 } = options;
+  const started = Date.now();
+  for (;;) {
+    const payment = await provider.getStatus(paymentId);
+    if (payment.status !== 'pending') return payment;
+    if (Date.now() >= (payment.expiresAt ?? started + timeoutMs)) {
+      const cancelled = await provider.cancel(paymentId);
+      const message = payment.expiresAt
+        ? 'The QR code expired before payment was received'
+        : 'The payment provider did not respond in time';
+      return { ...cancelled, status: 'timed_out', message };
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+};
+
+// Reads per-method outcomes such as "Cash=decline,UPI=timeout"; a bare
+// outcome sets the default for every method.
+export const parseSimulatorConfig = (spec: string | undefined): SimulatorConfig => {
+  const config: SimulatorConfig = { outcomes: {}, defaultOutcome: 'approve', latencyMs: 1500, qrLatencyMs: 5000 };
+  const isOutcome = (value: string): value is SimulatedOutcome => ['approve', 'decline', 'timeout'].includes(value);
+  (spec || '').split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [key, value] = part.split('=').map(s => s.trim());
+    if (value === undefined) {
+      if (isOutcome(key)) config.defaultOutcome = key;
+      return;
+    }
+    const method = Object.values(PaymentMethod).find(m => m.toLowerCase() === key.toLowerCase());
+    if (method && isOutcome(value)) config.outcomes[method] = value;
+  });
+  return config;
+};
+
+export const isQrMethod = (method: PaymentMethod) => method === PaymentMethod.UPI || method === PaymentMethod.QR_CODE;
+
+// Methods whose payments are taken, and refunded, through a provider
+export const isGatewayMethod = (method: PaymentMethod) => method !== PaymentMethod.WALLET && method !== PaymentMethod.CASH;
+
+// QR methods are paid over UPI and cash into the acceptors; each needs a
+// machine pricing in the currency it takes
+export const getPaymentMethods = (currency: string) =>
+  Object.values(PaymentMethod).filter(method =>
+    isQrMethod(method) ? acceptsUpi(currency) : method !== PaymentMethod.CASH || acceptsCash(currency));
+
+let simulator: PaymentProvider | null = null;
+let upiProvider: PaymentProvider | null = null;
+
+// UPI and QR payments go through the UPI provider, which polls a status
+// endpoint when one is configured and a local stub otherwise. Everything else
+// uses the simulator until a real gateway is plugged in here.
+export const getPaymentProvider = (method: PaymentMethod): PaymentProvider => {
+  const config = parseSimulatorConfig(process.env.VENDNEXUS_PAYMENT_SIMULATION);
+  if (isQrMethod(method)) {
+    if (!upiProvider) {
+      const statusUrl = process.env.VENDNEXUS_UPI_STATUS_URL;
+      upiProvider = createUpiPaymentProvider(
+        statusUrl ? createHttpUpiStatusEndpoint(statusUrl) : createStubUpiStatusEndpoint(config),
+        UPI_PAYEE
+      );
+    }
+    return upiProvider;
+  }
+  if (!simulator) {
+    simulator = createSimulatedPaymentProvider(config);
+  }
+  return simulator;
+};
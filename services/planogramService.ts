@@ -0,0 +1,141 @@
+import { Planogram, PlanogramSlot, PlanogramTray, Product } from '../types';
+
+export const DEFAULT_TRAY_COUNT = 4;
+export const DEFAULT_COLUMN_COUNT = 6;
+export const DEFAULT_SLOT_CAPACITY = 15;
+const MAX_TRAYS = 8;
+
+const trayLabel = (index: number) => String.fromCharCode(65 + index);
+
+export const slotCode = (tray: PlanogramTray, slot: PlanogramSlot) => `${tray.label}${slot.column}`;
+
+const emptyTray = (index: number, columns: number, capacity: number): PlanogramTray => ({
+  label: trayLabel(index),
+  slots: Array.from({ length: columns }, (_, i) => ({ column: i + 1, capacity, productId: null }))
+});
+
+export const createDefaultPlanogram = (
+  machineId: string,
+  trayCount = DEFAULT_TRAY_COUNT,
+  columns = DEFAULT_COLUMN_COUNT,
+  timestamp = Date.now()
+): Planogram => ({
+  id: machineId,
+  machineId,
+  trays: Array.from({ length: trayCount }, (_, i) => emptyTray(i, columns, DEFAULT_SLOT_CAPACITY)),
+  updatedAt: timestamp
+});
+
+const mapSlots = (
+  planogram: Planogram,
+  fn: (slot: PlanogramSlot, tray: PlanogramTray) => PlanogramSlot
+): Planogram => ({
+  ...planogram,
+  trays: planogram.trays.map(tray => ({ ...tray, slots: tray.slots.map(slot => fn(slot, tray)) })),
+  updatedAt: Date.now()
+});
+
+// Places each product into as many consecutive free slots as needed to hold
+// its current quantity. Used to lay out machines that predate planograms.
+export const autoAssignProducts = (planogram: Planogram, products: Product[]): Planogram => {
+  const freeSlots = planogram.trays.flatMap(tray => tray.slots
+    .filter(slot => !slot.productId)
+    .map(slot => ({ tray: tray.label, column: slot.column, capacity: slot.capacity })));
+  const assignments = new Map<string, string>();
+
+  products.forEach(product => {
+    let remaining = Math.max(product.quantity, 1);
+    while (remaining > 0 && freeSlots.length > 0) {
+      const slot = freeSlots.shift()!;
+      assignments.set(`${slot.tray}${slot.column}`, product.id);
+      remaining -= slot.capacity;
+    }
+  });
+
+  return mapSlots(planogram, (slot, tray) => {
+    const productId = assignments.get(`${tray.label}${slot.column}`);
+    return productId ? { ...slot, productId } : slot;
+  });
+};
+
+export const updateSlot = (
+  planogram: Planogram,
+  code: string,
+  changes: Partial<Pick<PlanogramSlot, 'capacity' | 'productId'>>
+): Planogram => {
+  if (changes.capacity !== undefined && (!Number.isInteger(changes.capacity) || changes.capacity < 1)) {
+    throw new Error('Slot capacity must be a whole number of at least 1');
+  }
+  return mapSlots(planogram, (slot, tray) => slotCode(tray, slot) === code ? { ...slot, ...changes } : slot);
+};
+
+export const unassignProduct = (planogram: Planogram, productId: string): Planogram =>
+  mapSlots(planogram, slot => slot.productId === productId ? { ...slot, productId: null } : slot);
+
+export const addTray = (planogram: Planogram): Planogram => {
+  if (planogram.trays.length >= MAX_TRAYS) {
+    throw new Error(`A machine can hold at most ${MAX_TRAYS} trays`);
+  }
+  const columns = planogram.trays[planogram.trays.length - 1]?.slots.length || DEFAULT_COLUMN_COUNT;
+  return {
+    ...planogram,
+    trays: [...planogram.trays, emptyTray(planogram.trays.length, columns, DEFAULT_SLOT_CAPACITY)],
+    updatedAt: Date.now()
+  };
+};
+
+// Only the bottom tray can be removed, and only once it is empty, so slot
+// codes of the remaining trays never shift.
+export const removeLastTray = (planogram: Planogram): Planogram => {
+  const last = planogram.trays[planogram.trays.length - 1];
+  if (!last) return planogram;
+  if (last.slots.some(slot => slot.productId)) {
+    throw new Error(`Empty tray ${last.label} before removing it`);
+  }
+  return { ...planogram, trays: planogram.trays.slice(0, -1), updatedAt: Date.now() };
+};
+
+export const addColumn = (planogram: Planogram, label: string): Planogram => ({
+  ...planogram,
+  trays: planogram.trays.map(tray => tray.label === label
+    ? { ...tray, slots: [...tray.slots, { column: tray.slots.length + 1, capacity: DEFAULT_SLOT_CAPACITY, productId: null }] }
+    : tray),
+  updatedAt: Date.now()
+});
+
+export const removeLastColumn = (planogram: Planogram, label: string): Planogram => {
+  const tray = planogram.trays.find(t => t.label === label);
+  const last = tray?.slots[tray.slots.length - 1];
+  if (!tray || !last) return planogram;
+  if (last.productId) {
+    throw new Error(`Empty slot ${slotCode(tray, last)} before removing it`);
+  }
+  return {
+    ...planogram,
+    trays: planogram.trays.map(t => t.label === label ? { ...t, slots: t.slots.slice(0, -1) } : t),
+    updatedAt: Date.now()
+  };
+};
+
+export const getProductSlotCodes = (planogram: Planogram | undefined, productId: string): string[] =>
+  planogram
+    ? planogram.trays.flatMap(tray => tray.slots.filter(s => s.productId === productId).map(s => slotCode(tray, s)))
+    : [];
+
+// Total units a product can physically hold across its slots in its machine.
+// Returns undefined when the product has not been placed in any slot yet.
+export const getProductCapacity = (planograms: Planogram[], product: Product): number | undefined => {
+  const planogram = planograms.find(p => p.machineId === product.machineId);
+  const slots = planogram?.trays.flatMap(tray => tray.slots.filter(s => s.productId === product.id)) || [];
+  return slots.length ? slots.reduce((sum, s) => sum + s.capacity, 0) : undefined;
+};
+
+export const getSlotCodeMap = (planogram: Planogram | undefined): Record<string, string[]> => {
+  const map: Record<string, string[]> = {};
+  planogram?.trays.forEach(tray => tray.slots.forEach(slot => {
+    if (slot.productId) {
+      map[slot.productId] = [...(map[slot.productId] || []), slotCode(tray, slot)];
+    }
+  }));
+  return map;
+};
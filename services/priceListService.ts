@@ -0,0 +1,176 @@
+import { Machine, PriceList, PriceListEntry, Product } from '../types';
+import { isInDailyWindow } from './promotionService';
+import { roundMoney } from './money';
+
+export type PriceListInput = Pick<PriceList, 'name' | 'currency' | 'machineIds' | 'groups'>;
+
+export type PriceEntryInput = Omit<PriceListEntry, 'id' | 'createdAt'>;
+
+// The price in effect for one SKU at one machine, and the entry that set it;
+// without an entry the shelf price applies
+export interface ResolvedPrice {
+  price: number;
+  priceListId?: string;
+  priceListName?: string;
+  entryId?: string;
+}
+
+// Standby entries are in their effective dates but not applying right now:
+// outside their daily band, or overridden by a more specific entry
+export type PriceEntryStatus = 'current' | 'scheduled' | 'standby' | 'ended';
+
+export interface PriceHistoryRow {
+  priceListId: string;
+  priceListName: string;
+  entry: PriceListEntry;
+  status: PriceEntryStatus;
+}
+
+type PricedItem = Pick<Product, 'skuId' | 'price'>;
+
+type PricedMachine = Pick<Machine, 'id' | 'currency' | 'group'>;
+
+interface Candidate {
+  list: PriceList;
+  rank: number;
+  entry: PriceListEntry;
+}
+
+export const createPriceList = (input: PriceListInput, timestamp = Date.now()): PriceList => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Enter a name for the price list');
+  }
+  return { ...input, id: `pl-${timestamp}`, name, entries: [], active: true, createdAt: timestamp };
+};
+
+// Schedules a price. Entries can't take effect in the past, so the history
+// of what was charged stays true.
+export const addPriceEntry = (list: PriceList, input: PriceEntryInput, timestamp = Date.now()): PriceList => {
+  if (!(input.price > 0)) {
+    throw new Error('Enter a positive price');
+  }
+  const effectiveFrom = Math.max(input.effectiveFrom, timestamp);
+  if (input.effectiveUntil !== undefined && input.effectiveUntil <= effectiveFrom) {
+    throw new Error('The price must end after it takes effect');
+  }
+  if ((input.startMinute === undefined) !== (input.endMinute === undefined)) {
+    throw new Error('Enter both the start and end of the daily price band');
+  }
+  if (input.startMinute !== undefined && input.startMinute === input.endMinute) {
+    throw new Error('The daily price band must start and end at different times');
+  }
+  const entry: PriceListEntry = {
+    ...input,
+    id: `ple-${timestamp}`,
+    price: roundMoney(input.price, list.currency),
+    effectiveFrom,
+    createdAt: timestamp
+  };
+  return { ...list, entries: [...list.entries, entry] };
+};
+
+// Ends an entry early, e.g. to stop a time-of-day band. Entries that have
+// already ended are left as they were.
+export const endPriceEntry = (list: PriceList, entryId: string, timestamp = Date.now()): PriceList => {
+  const entry = list.entries.find(e => e.id === entryId);
+  if (!entry) {
+    throw new Error('Price entry not found');
+  }
+  if (entry.effectiveUntil !== undefined && entry.effectiveUntil <= timestamp) {
+    throw new Error('This price has already ended');
+  }
+  // A scheduled entry that never took effect ends as soon as it would start
+  const effectiveUntil = Math.max(timestamp, entry.effectiveFrom);
+  return { ...list, entries: list.entries.map(e => e.id === entryId ? { ...e, effectiveUntil } : e) };
+};
+
+// How specifically the list targets the machine: 2 names it, 1 names its
+// group, 0 covers the fleet; -1 when the list doesn't apply to it
+const getListRank = (list: PriceList, machine: PricedMachine) => {
+  if (!list.active || list.currency !== machine.currency) return -1;
+  if (list.machineIds.includes(machine.id)) return 2;
+  if (machine.group && list.groups.includes(machine.group)) return 1;
+  return list.machineIds.length === 0 && list.groups.length === 0 ? 0 : -1;
+};
+
+const getCandidates = (priceLists: PriceList[], machine: PricedMachine, skuId: string): Candidate[] =>
+  priceLists.flatMap(list => {
+    const rank = getListRank(list, machine);
+    return rank < 0 ? [] : list.entries.filter(e => e.skuId === skuId).map(entry => ({ list, rank, entry }));
+  });
+
+const isBanded = (entry: PriceListEntry) => entry.startMinute !== undefined;
+
+const isInForce = (entry: PriceListEntry, timestamp: number) =>
+  entry.effectiveFrom <= timestamp &&
+  (entry.effectiveUntil === undefined || timestamp < entry.effectiveUntil) &&
+  isInDailyWindow(entry, new Date(timestamp));
+
+// The most specific list wins; within it a time-of-day band beats an all-day
+// price, and the entry that took effect last beats older ones
+const compareCandidates = (a: Candidate, b: Candidate) =>
+  b.rank - a.rank ||
+  Number(isBanded(b.entry)) - Number(isBanded(a.entry)) ||
+  b.entry.effectiveFrom - a.entry.effectiveFrom ||
+  b.entry.createdAt - a.entry.createdAt;
+
+export const resolvePrice = (
+  item: PricedItem,
+  machine: PricedMachine | undefined,
+  priceLists: PriceList[],
+  timestamp = Date.now()
+): ResolvedPrice => {
+  if (!machine) return { price: item.price };
+  const best = getCandidates(priceLists, machine, item.skuId)
+    .filter(c => isInForce(c.entry, timestamp))
+    .sort(compareCandidates)[0];
+  return best
+    ? { price: best.entry.price, priceListId: best.list.id, priceListName: best.list.name, entryId: best.entry.id }
+    : { price: item.price };
+};
+
+// Products or cart lines at the prices in effect at the machine right now
+export const withActivePrices = <T extends PricedItem>(
+  items: T[],
+  machine: PricedMachine | undefined,
+  priceLists: PriceList[],
+  timestamp = Date.now()
+): T[] => items.map(item => ({ ...item, price: resolvePrice(item, machine, priceLists, timestamp).price }));
+
+const formatMinute = (minute: number) =>
+  `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+export const formatPriceBand = (entry: Pick<PriceListEntry, 'startMinute' | 'endMinute'>) =>
+  entry.startMinute !== undefined && entry.endMinute !== undefined
+    ? `${formatMinute(entry.startMinute)}–${formatMinute(entry.endMinute)}`
+    : 'All day';
+
+export const PRICE_ENTRY_STATUS_LABELS: Record<PriceEntryStatus, string> = {
+  current: 'In effect',
+  scheduled: 'Scheduled',
+  standby: 'Not in effect now',
+  ended: 'Ended'
+};
+
+// Every entry that prices the SKU at the machine, newest first
+export const getPriceHistory = (
+  item: PricedItem,
+  machine: PricedMachine | undefined,
+  priceLists: PriceList[],
+  timestamp = Date.now()
+): PriceHistoryRow[] => {
+  if (!machine) return [];
+  const { entryId } = resolvePrice(item, machine, priceLists, timestamp);
+  return getCandidates(priceLists, machine, item.skuId)
+    .sort((a, b) => b.entry.effectiveFrom - a.entry.effectiveFrom || b.entry.createdAt - a.entry.createdAt)
+    .map(({ list, entry }) => ({
+      priceListId: list.id,
+      priceListName: list.name,
+      entry,
+      status: entry.id === entryId ? 'current'
+        : entry.effectiveFrom > timestamp ? 'scheduled'
+        : entry.effectiveUntil !== undefined && entry.effectiveUntil <= timestamp ? 'ended'
+        : 'standby'
+    }));
+};
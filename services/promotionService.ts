@@ -0,0 +1,215 @@
+import { AppliedPromotion, CartItem, Promotion, PromotionType } from '../types';
+import { fromMinorUnits, toMinorUnits } from './money';
+
+export type PromotionInput = Omit<Promotion, 'id' | 'active' | 'createdAt'>;
+
+export interface PricingContext {
+  machineId: string;
+  currency: string;
+  timestamp: number;
+  couponCode?: string;
+}
+
+export interface CartPricing {
+  subtotal: number; // At shelf prices
+  discount: number;
+  total: number;
+  discounts: Record<string, number>; // productId -> discount on that cart line
+  promotions: AppliedPromotion[];
+}
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percent_off: 'Percent off',
+  amount_off: 'Amount off',
+  multi_buy: 'Multi-buy',
+  combo: 'Combo',
+  bogo: 'Buy X get Y'
+};
+
+const isBundle = (type: PromotionType) => type === 'multi_buy' || type === 'combo' || type === 'bogo';
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+export const createPromotion = (input: PromotionInput, timestamp = Date.now()): Promotion => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Enter a promotion name');
+  }
+  if (!(input.value > 0)) {
+    throw new Error('Enter a positive discount or price');
+  }
+  if (input.type === 'percent_off' || input.type === 'bogo') {
+    if (input.value > 100) throw new Error('A percentage cannot exceed 100');
+  }
+  if (input.type === 'multi_buy' && !((input.buyQuantity || 0) >= 2)) {
+    throw new Error('A multi-buy needs at least 2 units');
+  }
+  if (input.type === 'combo' && input.skuIds.length < 2) {
+    throw new Error('A combo needs at least 2 products');
+  }
+  if (input.type === 'bogo' && !((input.buyQuantity || 0) >= 1 && (input.getQuantity || 0) >= 1)) {
+    throw new Error('Enter how many units to buy and how many are discounted');
+  }
+  if (input.startsAt !== undefined && input.endsAt !== undefined && input.endsAt <= input.startsAt) {
+    throw new Error('The promotion must end after it starts');
+  }
+  if ((input.startMinute === undefined) !== (input.endMinute === undefined)) {
+    throw new Error('Enter both the start and end of the daily time window');
+  }
+  return {
+    ...input,
+    id: `promo-${timestamp}`,
+    name,
+    couponCode: input.couponCode?.trim() ? normalizeCouponCode(input.couponCode) : undefined,
+    active: true,
+    createdAt: timestamp
+  };
+};
+
+// Whether the date falls in a daily window of minutes after midnight; windows
+// may run past midnight, and a missing window covers the whole day
+export const isInDailyWindow = (window: { startMinute?: number; endMinute?: number }, date: Date) => {
+  if (window.startMinute === undefined || window.endMinute === undefined) return true;
+  const minute = date.getHours() * 60 + date.getMinutes();
+  return window.startMinute <= window.endMinute
+    ? minute >= window.startMinute && minute < window.endMinute
+    : minute >= window.startMinute || minute < window.endMinute;
+};
+
+// Whether the promotion is on at this machine and time, ignoring any coupon
+export const isPromotionLive = (promotion: Promotion, machineId: string, timestamp: number) => {
+  const date = new Date(timestamp);
+  return promotion.active &&
+    (promotion.machineIds.length === 0 || promotion.machineIds.includes(machineId)) &&
+    (promotion.startsAt === undefined || timestamp >= promotion.startsAt) &&
+    (promotion.endsAt === undefined || timestamp < promotion.endsAt) &&
+    (!promotion.daysOfWeek?.length || promotion.daysOfWeek.includes(date.getDay())) &&
+    isInDailyWindow(promotion, date);
+};
+
+const appliesTo = (promotion: Promotion, context: PricingContext) =>
+  isPromotionLive(promotion, context.machineId, context.timestamp) &&
+  (!promotion.couponCode || (!!context.couponCode && normalizeCouponCode(context.couponCode) === promotion.couponCode));
+
+// Finds the live promotions a coupon code unlocks at this machine
+export const findCouponPromotions = (promotions: Promotion[], code: string, machineId: string, timestamp: number) =>
+  promotions.filter(p => p.couponCode && p.couponCode === normalizeCouponCode(code) && isPromotionLive(p, machineId, timestamp));
+
+// Amounts are worked in minor units so bundle prices split across units exactly
+interface Unit {
+  productId: string;
+  skuId: string;
+  price: number;
+  discount: number;
+  claimed: boolean;
+}
+
+interface Group {
+  units: Unit[];
+  discounts: number[]; // Per unit, in minor units
+}
+
+const qualifies = (promotion: Promotion, unit: Unit) =>
+  !unit.claimed && (promotion.skuIds.length === 0 || promotion.skuIds.includes(unit.skuId));
+
+// Spreads a bundle's saving over its units in proportion to their price
+const spread = (units: Unit[], saving: number): number[] => {
+  const total = units.reduce((sum, u) => sum + u.price, 0);
+  const shares = units.map(u => Math.floor(saving * u.price / total));
+  shares[shares.length - 1] += saving - shares.reduce((sum, s) => sum + s, 0);
+  return shares;
+};
+
+// The most valuable group the bundle promotion can claim from the free units
+// (sorted most expensive first), or null when it gives no saving
+const nextGroup = (promotion: Promotion, units: Unit[], currency: string): Group | null => {
+  const price = toMinorUnits(promotion.value, currency);
+  if (promotion.type === 'multi_buy') {
+    const group = units.filter(u => qualifies(promotion, u)).slice(0, promotion.buyQuantity);
+    if (group.length < (promotion.buyQuantity || 0)) return null;
+    const saving = group.reduce((sum, u) => sum + u.price, 0) - price;
+    return saving > 0 ? { units: group, discounts: spread(group, saving) } : null;
+  }
+  if (promotion.type === 'combo') {
+    const group = promotion.skuIds.map(skuId => units.find(u => !u.claimed && u.skuId === skuId));
+    if (group.some(u => !u)) return null;
+    const members = group as Unit[];
+    const saving = members.reduce((sum, u) => sum + u.price, 0) - price;
+    return saving > 0 ? { units: members, discounts: spread(members, saving) } : null;
+  }
+  // Buy X get Y: the cheapest units of the group are the discounted ones
+  const size = (promotion.buyQuantity || 0) + (promotion.getQuantity || 0);
+  const group = units.filter(u => qualifies(promotion, u)).slice(0, size);
+  if (group.length < size) return null;
+  const discounts = group.map((u, i) => i < (promotion.buyQuantity || 0) ? 0 : Math.round(u.price * promotion.value / 100));
+  return discounts.some(d => d > 0) ? { units: group, discounts } : null;
+};
+
+const getUnitSaving = (promotion: Promotion, unit: Unit, currency: string) => promotion.type === 'percent_off'
+  ? Math.round(unit.price * promotion.value / 100)
+  : Math.min(unit.price, toMinorUnits(promotion.value, currency));
+
+// Prices a cart under the promotions that apply. Bundles go first, always
+// taking whichever group saves the customer most; remaining units then get
+// the best single-unit discount available to them.
+export const priceCart = (
+  cart: Pick<CartItem, 'id' | 'skuId' | 'price' | 'cartQuantity'>[],
+  promotions: Promotion[],
+  context: PricingContext
+): CartPricing => {
+  const { currency } = context;
+  const live = promotions.filter(p => appliesTo(p, context));
+  const units: Unit[] = cart
+    .flatMap(item => Array.from({ length: item.cartQuantity }, () => ({
+      productId: item.id,
+      skuId: item.skuId,
+      price: toMinorUnits(item.price, currency),
+      discount: 0,
+      claimed: false
+    })))
+    .sort((a, b) => b.price - a.price);
+  const applied = new Map<string, number>();
+  const credit = (promotion: Promotion, unit: Unit, cents: number) => {
+    unit.discount += cents;
+    applied.set(promotion.id, (applied.get(promotion.id) || 0) + cents);
+  };
+
+  const bundles = live.filter(p => isBundle(p.type));
+  for (;;) {
+    let best: { promotion: Promotion; group: Group; saving: number } | null = null;
+    for (const promotion of bundles) {
+      const group = nextGroup(promotion, units, currency);
+      const saving = group ? group.discounts.reduce((sum, d) => sum + d, 0) : 0;
+      if (group && saving > (best?.saving || 0)) best = { promotion, group, saving };
+    }
+    if (!best) break;
+    const { promotion, group } = best;
+    group.units.forEach((unit, i) => {
+      unit.claimed = true;
+      credit(promotion, unit, group.discounts[i]);
+    });
+  }
+
+  const unitPromotions = live.filter(p => !isBundle(p.type));
+  units.filter(u => !u.claimed).forEach(unit => {
+    const options = unitPromotions.filter(p => qualifies(p, unit)).map(p => ({ promotion: p, saving: getUnitSaving(p, unit, currency) }));
+    const bestOption = options.sort((a, b) => b.saving - a.saving)[0];
+    if (bestOption && bestOption.saving > 0) credit(bestOption.promotion, unit, bestOption.saving);
+  });
+
+  const discounts: Record<string, number> = {};
+  units.forEach(u => {
+    if (u.discount > 0) discounts[u.productId] = (discounts[u.productId] || 0) + u.discount;
+  });
+  const subtotal = units.reduce((sum, u) => sum + u.price, 0);
+  const discount = units.reduce((sum, u) => sum + u.discount, 0);
+  return {
+    subtotal: fromMinorUnits(subtotal, currency),
+    discount: fromMinorUnits(discount, currency),
+    total: fromMinorUnits(subtotal - discount, currency),
+    discounts: Object.fromEntries(Object.entries(discounts).map(([id, minor]) => [id, fromMinorUnits(minor, currency)])),
+    promotions: live
+      .filter(p => applied.has(p.id))
+      .map(p => ({ promotionId: p.id, name: p.name, amount: fromMinorUnits(applied.get(p.id) as number, currency) }))
+  };
+};
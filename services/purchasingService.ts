@@ -0,0 +1,172 @@
+import { CatalogItem, CostingMethod, DepotStock, PurchaseOrder, PurchaseOrderLine, PurchaseReceipt, StockRecord, Supplier } from '../types';
+import { getDepotQuantity } from './depotService';
+import { MovementInput, depotMovement } from './ledgerService';
+
+export type SupplierInput = Omit<Supplier, 'id'>;
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  depotId: string;
+  lines: { skuId: string; quantity: number; unitCost: number }[];
+  freightCost?: number;
+  notes?: string;
+}
+
+// Everything a receipt changed, ready to merge into state and persist
+export interface ReceiptChanges {
+  order: PurchaseOrder;
+  movements: MovementInput[];
+  catalog: CatalogItem[];
+}
+
+const roundCost = (value: number) => Math.round(value * 10000) / 10000;
+
+export const createSupplier = (input: SupplierInput, suppliers: Supplier[], timestamp = Date.now()): Supplier => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Supplier name is required');
+  }
+  if (suppliers.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A supplier named ${name} already exists`);
+  }
+  return {
+    id: `sup-${timestamp}`,
+    name,
+    contactEmail: input.contactEmail?.trim() || undefined,
+    phone: input.phone?.trim() || undefined,
+    leadTimeDays: input.leadTimeDays
+  };
+};
+
+export const nextPoNumber = (orders: PurchaseOrder[]) => {
+  const highest = orders.reduce((max, order) => {
+    const match = /^PO-(\d+)$/.exec(order.poNumber);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  return `PO-${String(highest + 1).padStart(4, '0')}`;
+};
+
+export const getOutstanding = (line: PurchaseOrderLine) => line.orderedQuantity - line.receivedQuantity;
+
+export const getOrderValue = (order: Pick<PurchaseOrder, 'lines'>) =>
+  order.lines.reduce((sum, l) => sum + l.orderedQuantity * l.unitCost, 0);
+
+// Unit cost including this line's share of freight, split by line value
+export const getLandedUnitCost = (order: PurchaseOrder, line: PurchaseOrderLine) => {
+  const value = getOrderValue(order);
+  return roundCost(value > 0 ? line.unitCost * (1 + order.freightCost / value) : line.unitCost);
+};
+
+export const createPurchaseOrder = (
+  input: PurchaseOrderInput,
+  context: { catalog: CatalogItem[]; orders: PurchaseOrder[] },
+  timestamp = Date.now()
+): PurchaseOrder => {
+  const lines = input.lines.filter(l => l.quantity !== 0);
+  if (lines.length === 0) {
+    throw new Error('A purchase order needs at least one line');
+  }
+  if (new Set(lines.map(l => l.skuId)).size !== lines.length) {
+    throw new Error('Each SKU may appear only once per purchase order');
+  }
+  const freightCost = input.freightCost || 0;
+  if (freightCost < 0) {
+    throw new Error('Freight cost cannot be negative');
+  }
+
+  return {
+    id: `po-${timestamp}`,
+    poNumber: nextPoNumber(context.orders),
+    supplierId: input.supplierId,
+    depotId: input.depotId,
+    status: 'ordered',
+    freightCost,
+    receipts: [],
+    notes: input.notes?.trim() || undefined,
+    createdAt: timestamp,
+    lines: lines.map(line => {
+      const item = context.catalog.find(c => c.id === line.skuId);
+      if (!item) {
+        throw new Error(`Unknown SKU ${line.skuId}`);
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+        throw new Error(`Invalid quantity for ${item.name}`);
+      }
+      if (!(line.unitCost >= 0)) {
+        throw new Error(`Invalid unit cost for ${item.name}`);
+      }
+      return { skuId: item.id, productName: item.name, orderedQuantity: line.quantity, receivedQuantity: 0, unitCost: line.unitCost };
+    })
+  };
+};
+
+// New catalog cost after receiving `quantity` units at `unitCost`, given how
+// many units are already on hand across depots and machines
+export const updateCost = (
+  currentCost: number,
+  onHand: number,
+  quantity: number,
+  unitCost: number,
+  method: CostingMethod
+) => {
+  if (method === 'last_cost' || onHand <= 0) return unitCost;
+  return roundCost((currentCost * onHand + unitCost * quantity) / (onHand + quantity));
+};
+
+// Receives some or all of the outstanding quantities into the order's depot
+// and updates the catalog cost of every SKU received.
+export const receivePurchaseOrder = (
+  order: PurchaseOrder,
+  quantities: Record<string, number>,
+  method: CostingMethod,
+  context: { catalog: CatalogItem[]; stock: StockRecord[]; depotStock: DepotStock[] },
+  timestamp = Date.now()
+): ReceiptChanges => {
+  if (order.status === 'received' || order.status === 'cancelled') {
+    throw new Error(`Purchase order ${order.poNumber} is already ${order.status}`);
+  }
+
+  const changes: ReceiptChanges = { order, movements: [], catalog: [] };
+  const receiptLines: PurchaseReceipt['lines'] = [];
+
+  const lines = order.lines.map(line => {
+    const quantity = quantities[line.skuId] || 0;
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new Error(`Invalid received quantity for ${line.productName}`);
+    }
+    if (quantity > getOutstanding(line)) {
+      throw new Error(`Only ${getOutstanding(line)} of ${line.productName} are still outstanding`);
+    }
+    if (quantity === 0) return line;
+
+    const landedUnitCost = getLandedUnitCost(order, line);
+    const item = context.catalog.find(c => c.id === line.skuId);
+    if (item) {
+      const onHand = getDepotQuantity(context.depotStock, line.skuId) +
+        context.stock.filter(s => s.skuId === line.skuId).reduce((sum, s) => sum + Math.max(0, s.quantity), 0);
+      changes.catalog.push({ ...item, cost: updateCost(item.cost, onHand, quantity, landedUnitCost, method) });
+    }
+    changes.movements.push(depotMovement(order.depotId, line.skuId, 'restock', quantity, `Received on ${order.poNumber}`, order.id));
+    receiptLines.push({ skuId: line.skuId, quantity, landedUnitCost });
+    return { ...line, receivedQuantity: line.receivedQuantity + quantity };
+  });
+
+  if (receiptLines.length === 0) {
+    throw new Error('Enter a quantity for at least one line');
+  }
+
+  changes.order = {
+    ...order,
+    lines,
+    status: lines.every(l => getOutstanding(l) === 0) ? 'received' : 'partially_received',
+    receipts: [...order.receipts, { receivedAt: timestamp, costingMethod: method, lines: receiptLines }]
+  };
+  return changes;
+};
+
+export const cancelPurchaseOrder = (order: PurchaseOrder): PurchaseOrder => {
+  if (order.status !== 'ordered') {
+    throw new Error('Only orders with nothing received can be cancelled');
+  }
+  return { ...order, status: 'cancelled' };
+};
@@ -0,0 +1,170 @@
+import { CatalogItem, Depot, InventoryMovement, Machine, MachineStatusChange, MaintenanceTicket, Planogram, PurchaseOrder, SaleRecord, StockCount, StockLot, StockRecord, StockTransfer, Supplier, Transaction, WorkOrder, WriteOff, CashDrawer, CashCollection, Customer, WalletEntry, LoyaltyEntry, Promotion, TaxRule, PriceList, PriceExperiment } from '../types';
+import { CollectionName, StorageBackend, StorageRecord, createHttpStorage, createIndexedDBStorage } from './storage';
+import { SCHEMA_VERSION, runMigrations } from './migrations';
+
+const DB_NAME = 'vendnexus';
+
+export interface Repository<T extends StorageRecord> {
+  list: () => Promise<T[]>;
+  save: (record: T) => Promise<void>;
+  saveMany: (records: T[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export interface DataStore {
+  catalog: Repository<CatalogItem>;
+  stock: Repository<StockRecord>;
+  machines: Repository<Machine>;
+  sales: Repository<SaleRecord>;
+  machineStatusChanges: Repository<MachineStatusChange>;
+  maintenanceTickets: Repository<MaintenanceTicket>;
+  planograms: Repository<Planogram>;
+  lots: Repository<StockLot>;
+  workOrders: Repository<WorkOrder>;
+  depots: Repository<Depot>;
+  transfers: Repository<StockTransfer>;
+  suppliers: Repository<Supplier>;
+  purchaseOrders: Repository<PurchaseOrder>;
+  movements: Repository<InventoryMovement>;
+  stockCounts: Repository<StockCount>;
+  writeOffs: Repository<WriteOff>;
+  transactions: Repository<Transaction>;
+  cashDrawers: Repository<CashDrawer>;
+  cashCollections: Repository<CashCollection>;
+  customers: Repository<Customer>;
+  walletEntries: Repository<WalletEntry>;
+  loyaltyEntries: Repository<LoyaltyEntry>;
+  promotions: Repository<Promotion>;
+  taxRules: Repository<TaxRule>;
+  priceLists: Repository<PriceList>;
+  priceExperiments: Repository<PriceExperiment>;
+}
+
+const createRepository = <T extends StorageRecord>(
+  backend: StorageBackend,
+  collection: CollectionName
+): Repository<T> => ({
+  list: () => backend.getAll<T>(collection),
+  save: (record) => backend.put(collection, record),
+  saveMany: (records) => records.length ? backend.putMany(collection, records) : Promise.resolve(),
+  remove: (id) => backend.remove(collection, id)
+});
+
+// Use the HTTP backend when a server URL is configured, otherwise keep data
+// locally in the browser.
+const createBackend = (): StorageBackend => {
+  const apiUrl = process.env.VENDNEXUS_API_URL;
+  return apiUrl ? createHttpStorage(apiUrl) : createIndexedDBStorage(DB_NAME, SCHEMA_VERSION);
+};
+
+let dataStorePromise: Promise<DataStore> | null = null;
+
+export const getDataStore = (): Promise<DataStore> => {
+  if (!dataStorePromise) {
+    dataStorePromise = (async () => {
+      const backend = createBackend();
+      await runMigrations(backend);
+      return {
+        catalog: createRepository<CatalogItem>(backend, 'catalog'),
+        stock: createRepository<StockRecord>(backend, 'products'),
+        machines: createRepository<Machine>(backend, 'machines'),
+        sales: createRepository<SaleRecord>(backend, 'sales'),
+        machineStatusChanges: createRepository<MachineStatusChange>(backend, 'machineStatusChanges'),
+        maintenanceTickets: createRepository<MaintenanceTicket>(backend, 'maintenanceTickets'),
+        planograms: createRepository<Planogram>(backend, 'planograms'),
+        lots: createRepository<StockLot>(backend, 'lots'),
+        workOrders: createRepository<WorkOrder>(backend, 'workOrders'),
+        depots: createRepository<Depot>(backend, 'depots'),
+        transfers: createRepository<StockTransfer>(backend, 'transfers'),
+        suppliers: createRepository<Supplier>(backend, 'suppliers'),
+        purchaseOrders: createRepository<PurchaseOrder>(backend, 'purchaseOrders'),
+        movements: createRepository<InventoryMovement>(backend, 'movements'),
+        stockCounts: createRepository<StockCount>(backend, 'stockCounts'),
+        writeOffs: createRepository<WriteOff>(backend, 'writeOffs'),
+        transactions: createRepository<Transaction>(backend, 'transactions'),
+        cashDrawers: createRepository<CashDrawer>(backend, 'cashDrawers'),
+        cashCollections: createRepository<CashCollection>(backend, 'cashCollections'),
+        customers: createRepository<Customer>(backend, 'customers'),
+        walletEntries: createRepository<WalletEntry>(backend, 'walletEntries'),
+        loyaltyEntries: createRepository<LoyaltyEntry>(backend, 'loyaltyEntries'),
+        promotions: createRepository<Promotion>(backend, 'promotions'),
+        taxRules: createRepository<TaxRule>(backend, 'taxRules'),
+        priceLists: createRepository<PriceList>(backend, 'priceLists'),
+        priceExperiments: createRepository<PriceExperiment>(backend, 'priceExperiments')
+      };
+    })();
+    dataStorePromise.catch(() => {
+      // Allow a later call to retry after a failed open/migration
+      dataStorePromise = null;
+    });
+  }
+  return dataStorePromise;
+};
+
+export const loadAppData = async () => {
+  const store = await getDataStore();
+  const [catalog, stock, machines, sales, machineStatusChanges, maintenanceTickets, planograms, lots, workOrders, depots, transfers, suppliers, purchaseOrders, movements, stockCounts, writeOffs, transactions, cashDrawers, cashCollections, customers, walletEntries, loyaltyEntries, promotions, taxRules, priceLists, priceExperiments] = await Promise.all([
+    store.catalog.list(),
+    store.stock.list(),
+    store.machines.list(),
+    store.sales.list(),
+    store.machineStatusChanges.list(),
+    store.maintenanceTickets.list(),
+    store.planograms.list(),
+    store.lots.list(),
+    store.workOrders.list(),
+    store.depots.list(),
+    store.transfers.list(),
+    store.suppliers.list(),
+    store.purchaseOrders.list(),
+    store.movements.list(),
+    store.stockCounts.list(),
+    store.writeOffs.list(),
+    store.transactions.list(),
+    store.cashDrawers.list(),
+    store.cashCollections.list(),
+    store.customers.list(),
+    store.walletEntries.list(),
+    store.loyaltyEntries.list(),
+    store.promotions.list(),
+    store.taxRules.list(),
+    store.priceLists.list(),
+    store.priceExperiments.list()
+  ]);
+  return {
+    catalog,
+    stock,
+    machines,
+    sales: sales.sort((a, b) => b.timestamp - a.timestamp),
+    machineStatusChanges: machineStatusChanges.sort((a, b) => b.timestamp - a.timestamp),
+    maintenanceTickets,
+    planograms,
+    lots,
+    workOrders: workOrders.sort((a, b) => b.createdAt - a.createdAt || a.stopNumber - b.stopNumber),
+    depots,
+    transfers: transfers.sort((a, b) => b.createdAt - a.createdAt),
+    suppliers,
+    purchaseOrders: purchaseOrders.sort((a, b) => b.createdAt - a.createdAt),
+    movements: movements.sort((a, b) => a.timestamp - b.timestamp), // Ledger order, oldest first
+    stockCounts: stockCounts.sort((a, b) => b.postedAt - a.postedAt),
+    writeOffs: writeOffs.sort((a, b) => b.timestamp - a.timestamp),
+    transactions: transactions.sort((a, b) => b.timestamp - a.timestamp),
+    cashDrawers,
+    cashCollections: cashCollections.sort((a, b) => b.collectedAt - a.collectedAt),
+    customers: customers.sort((a, b) => a.name.localeCompare(b.name)),
+    walletEntries: walletEntries.sort((a, b) => b.timestamp - a.timestamp),
+    loyaltyEntries: loyaltyEntries.sort((a, b) => b.timestamp - a.timestamp),
+    promotions: promotions.sort((a, b) => b.createdAt - a.createdAt),
+    taxRules: taxRules.sort((a, b) => b.createdAt - a.createdAt),
+    priceLists: priceLists.sort((a, b) => b.createdAt - a.createdAt),
+    priceExperiments: priceExperiments.sort((a, b) => b.createdAt - a.createdAt)
+  };
+};
+
+// Fire-and-forget write used by UI handlers that have already applied the
+// change to React state.
+export const persist = (task: (store: DataStore) => Promise<unknown>): void => {
+  getDataStore()
+    .then(task)
+    .catch(error => console.error("Persistence Error:", error));
+};
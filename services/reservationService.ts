@@ -0,0 +1,61 @@
+import { CartItem, Product, StockReservation } from '../types';
+import { QR_PAYMENT_TTL_MS } from './upiService';
+
+// Outlasts a UPI code, so stock is never released while a payment can still land
+export const RESERVATION_TTL_MS = QR_PAYMENT_TTL_MS + 60 * 1000;
+
+export interface StockShortfall {
+  productId: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+export const getActiveReservations = (reservations: StockReservation[], now = Date.now()) =>
+  reservations.filter(r => r.expiresAt > now);
+
+export const getReservedQuantity = (reservations: StockReservation[], productId: string, now = Date.now()) =>
+  getActiveReservations(reservations, now).reduce((sum, r) => sum + (r.items[productId] || 0), 0);
+
+// Takes units held by checkouts in progress off the sellable quantity
+export const withAvailableQuantity = (products: Product[], reservations: StockReservation[], now = Date.now()): Product[] =>
+  products.map(product => ({ ...product, quantity: Math.max(0, product.quantity - getReservedQuantity(reservations, product.id, now)) }));
+
+// Cart lines asking for more than the products have available
+export const getStockShortfalls = (
+  cart: Pick<CartItem, 'id' | 'name' | 'cartQuantity'>[],
+  products: Product[],
+  reservations: StockReservation[] = [],
+  now = Date.now()
+): StockShortfall[] =>
+  cart.flatMap(item => {
+    const product = products.find(p => p.id === item.id);
+    const available = product ? Math.max(0, product.quantity - getReservedQuantity(reservations, product.id, now)) : 0;
+    return item.cartQuantity > available
+      ? [{ productId: item.id, name: item.name, requested: item.cartQuantity, available }]
+      : [];
+  });
+
+export const formatShortfalls = (shortfalls: StockShortfall[]) =>
+  shortfalls.map(s => s.available === 0 ? `${s.name} is out of stock` : `Only ${s.available} ${s.name} left`).join('; ');
+
+// Holds the cart's units for one checkout, or throws when stock can't cover it
+export const reserveStock = (
+  cart: CartItem[],
+  products: Product[],
+  reservations: StockReservation[],
+  machineId: string,
+  timestamp = Date.now()
+): StockReservation => {
+  const shortfalls = getStockShortfalls(cart, products, reservations, timestamp);
+  if (shortfalls.length > 0) {
+    throw new Error(formatShortfalls(shortfalls));
+  }
+  return {
+    id: `res-${machineId}-${timestamp}`,
+    machineId,
+    items: Object.fromEntries(cart.map(item => [item.id, item.cartQuantity])),
+    createdAt: timestamp,
+    expiresAt: timestamp + RESERVATION_TTL_MS
+  };
+};
@@ -0,0 +1,134 @@
+import { Machine, Planogram, Product, SaleRecord, WorkOrder, WorkOrderLine } from '../types';
+import { getProductCapacity, getProductSlotCodes } from './planogramService';
+
+const DAY_MS = 86400000;
+
+// Days of sales the planner keeps a machine stocked for between visits
+export const DEFAULT_COVER_DAYS = 3;
+const VELOCITY_WINDOW_DAYS = 7;
+
+export interface PickLine {
+  product: Product;
+  slotCodes: string[];
+  dailyVelocity: number;
+  target: number;
+  quantity: number; // Units to load
+}
+
+export interface RouteStop {
+  stopNumber: number;
+  location: string;
+  machines: { machine: Machine; lines: PickLine[] }[];
+}
+
+export const getDailyVelocity = (
+  sales: SaleRecord[],
+  productId: string,
+  now = Date.now(),
+  windowDays = VELOCITY_WINDOW_DAYS
+): number => {
+  const since = now - windowDays * DAY_MS;
+  const units = sales
+    .filter(s => s.productId === productId && s.timestamp >= since)
+    .reduce((sum, s) => sum + s.quantity, 0);
+  return units / windowDays;
+};
+
+// Decides what to load for each product. A product is picked when it is at or
+// below its minimum, or would fall there before the next visit at its current
+// sales velocity. It is filled to slot capacity, or, when unslotted, to enough
+// stock for the cover period on top of its minimum.
+export const planPickList = (
+  products: Product[],
+  planograms: Planogram[],
+  sales: SaleRecord[],
+  coverDays = DEFAULT_COVER_DAYS,
+  now = Date.now()
+): PickLine[] =>
+  products
+    .map(product => {
+      const dailyVelocity = getDailyVelocity(sales, product.id, now);
+      const projected = product.quantity - dailyVelocity * coverDays;
+      const capacity = getProductCapacity(planograms, product);
+      const target = capacity ?? Math.ceil(product.min_quantity + dailyVelocity * coverDays);
+      const needsVisit = product.quantity <= product.min_quantity || projected <= product.min_quantity;
+      return {
+        product,
+        slotCodes: getProductSlotCodes(planograms.find(p => p.machineId === product.machineId), product.id),
+        dailyVelocity,
+        target,
+        quantity: needsVisit ? Math.max(0, target - product.quantity) : 0
+      };
+    })
+    .filter(line => line.quantity > 0)
+    .sort((a, b) => (a.slotCodes[0] || '~').localeCompare(b.slotCodes[0] || '~') || a.product.name.localeCompare(b.product.name));
+
+// Groups pick lines into stops. Machines sharing a location are one stop;
+// stops are ordered by how many units they need (most urgent first), then by
+// location name so the same inputs always produce the same route.
+export const planRoute = (machines: Machine[], lines: PickLine[]): RouteStop[] => {
+  const byLocation = new Map<string, { machine: Machine; lines: PickLine[] }[]>();
+  machines.forEach(machine => {
+    const machineLines = lines.filter(l => l.product.machineId === machine.id);
+    if (machineLines.length === 0) return;
+    byLocation.set(machine.location, [...(byLocation.get(machine.location) || []), { machine, lines: machineLines }]);
+  });
+
+  const units = (entries: { lines: PickLine[] }[]) =>
+    entries.reduce((sum, e) => sum + e.lines.reduce((s, l) => s + l.quantity, 0), 0);
+
+  return Array.from(byLocation.entries())
+    .sort(([locA, a], [locB, b]) => units(b) - units(a) || locA.localeCompare(locB))
+    .map(([location, entries], index) => ({
+      stopNumber: index + 1,
+      location,
+      machines: entries.sort((a, b) => a.machine.name.localeCompare(b.machine.name))
+    }));
+};
+
+export const createWorkOrders = (route: RouteStop[], timestamp = Date.now()): WorkOrder[] => {
+  const routeId = `route-${timestamp}`;
+  return route.flatMap(stop => stop.machines.map(({ machine, lines }) => ({
+    id: `wo-${machine.id}-${timestamp}`,
+    routeId,
+    stopNumber: stop.stopNumber,
+    machineId: machine.id,
+    status: 'open' as const,
+    createdAt: timestamp,
+    lines: lines.map((line): WorkOrderLine => ({
+      productId: line.product.id,
+      productName: line.product.name,
+      slotCodes: line.slotCodes,
+      plannedQuantity: line.quantity
+    }))
+  })));
+};
+
+export const completeWorkOrder = (
+  order: WorkOrder,
+  deliveries: Record<string, { quantity: number; expiryDate: number }>,
+  timestamp = Date.now()
+): WorkOrder => {
+  if (order.status !== 'open') {
+    throw new Error(`Work order is already ${order.status}`);
+  }
+  const lines = order.lines.map(line => {
+    const delivery = deliveries[line.productId];
+    const delivered = delivery ? delivery.quantity : 0;
+    if (!Number.isInteger(delivered) || delivered < 0) {
+      throw new Error(`Invalid delivered quantity for ${line.productName}`);
+    }
+    if (delivered > line.plannedQuantity) {
+      throw new Error(`Delivered quantity for ${line.productName} exceeds the planned ${line.plannedQuantity}`);
+    }
+    return { ...line, deliveredQuantity: delivered, expiryDate: delivery?.expiryDate };
+  });
+  return { ...order, lines, status: 'completed', completedAt: timestamp };
+};
+
+export const cancelWorkOrder = (order: WorkOrder): WorkOrder => {
+  if (order.status !== 'open') {
+    throw new Error(`Work order is already ${order.status}`);
+  }
+  return { ...order, status: 'cancelled' };
+};
@@ -0,0 +1,55 @@
+import { CatalogItem, PaymentMethod, SaleRecord } from '../types';
+
+export interface SalesFilter {
+  from?: number;
+  to?: number;
+  machineId?: string;
+  skuId?: string;
+  category?: string;
+  paymentMethod?: PaymentMethod;
+}
+
+export type SalesSortKey = 'timestamp' | 'productName' | 'quantity' | 'revenue' | 'profit';
+
+export interface SalesSort {
+  key: SalesSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface SalesTotals {
+  count: number;
+  units: number;
+  revenue: number;
+  tax: number;
+  profit: number;
+}
+
+export const filterSales = (sales: SaleRecord[], filter: SalesFilter, catalog: CatalogItem[]): SaleRecord[] => {
+  const categoryBySku = new Map(catalog.map(item => [item.id, item.category]));
+  return sales.filter(sale =>
+    (filter.from === undefined || sale.timestamp >= filter.from) &&
+    (filter.to === undefined || sale.timestamp <= filter.to) &&
+    (!filter.machineId || sale.machineId === filter.machineId) &&
+    (!filter.skuId || sale.skuId === filter.skuId) &&
+    (!filter.category || categoryBySku.get(sale.skuId) === filter.category) &&
+    (!filter.paymentMethod || sale.paymentMethod === filter.paymentMethod));
+};
+
+// Returns a sorted copy; ties fall back to newest first so the order is stable
+export const sortSales = (sales: SaleRecord[], sort: SalesSort): SaleRecord[] => {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return [...sales].sort((a, b) => {
+    const order = sort.key === 'productName'
+      ? a.productName.localeCompare(b.productName)
+      : a[sort.key] - b[sort.key];
+    return order * sign || b.timestamp - a.timestamp || a.id.localeCompare(b.id);
+  });
+};
+
+export const getSalesTotals = (sales: SaleRecord[]): SalesTotals => ({
+  count: sales.length,
+  units: sales.reduce((sum, s) => sum + s.quantity, 0),
+  revenue: sales.reduce((sum, s) => sum + s.revenue, 0),
+  tax: sales.reduce((sum, s) => sum + (s.tax?.amount || 0), 0),
+  profit: sales.reduce((sum, s) => sum + s.profit, 0)
+});
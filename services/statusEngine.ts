@@ -0,0 +1,53 @@
+import { Machine, MachineStatus, MachineStatusChange, MaintenanceTicket, Product } from '../types';
+import { isDecommissioned, transitionMachineStatus } from './machineService';
+
+// Minutes of telemetry silence after which a machine is considered offline
+export const HEARTBEAT_TIMEOUT_MINUTES = 15;
+
+export interface DerivedStatus {
+  status: MachineStatus;
+  reason: string;
+}
+
+// Works out what a machine's status should be. Checks run in priority order:
+// lost heartbeat, open maintenance tickets, then stock levels.
+export const deriveMachineStatus = (
+  machine: Machine,
+  products: Product[],
+  tickets: MaintenanceTicket[],
+  now = Date.now()
+): DerivedStatus => {
+  if (machine.lastHeartbeatAt && now - machine.lastHeartbeatAt > HEARTBEAT_TIMEOUT_MINUTES * 60000) {
+    const silentMinutes = Math.floor((now - machine.lastHeartbeatAt) / 60000);
+    return { status: MachineStatus.OFFLINE, reason: `No heartbeat for ${silentMinutes} minutes` };
+  }
+
+  const openTickets = tickets.filter(t => t.machineId === machine.id && !t.closedAt);
+  if (openTickets.length > 0) {
+    return { status: MachineStatus.MAINTENANCE, reason: `Open maintenance ticket: ${openTickets[0].title}` };
+  }
+
+  const lowStock = products.filter(p => p.machineId === machine.id && p.quantity <= p.min_quantity);
+  if (lowStock.length > 0) {
+    return {
+      status: MachineStatus.LOW_STOCK,
+      reason: `${lowStock.length} product(s) at or below minimum: ${lowStock.map(p => p.name).join(', ')}`
+    };
+  }
+
+  return { status: MachineStatus.ONLINE, reason: 'Stock, telemetry and maintenance all clear' };
+};
+
+// Recomputes every active, non-overridden machine and returns the transitions
+// that need to be applied. Machines already in the derived status are skipped.
+export const reconcileMachineStatuses = (
+  machines: Machine[],
+  products: Product[],
+  tickets: MaintenanceTicket[],
+  now = Date.now()
+): { machine: Machine; change: MachineStatusChange }[] =>
+  machines
+    .filter(m => !isDecommissioned(m) && !m.statusOverride)
+    .map(machine => ({ machine, derived: deriveMachineStatus(machine, products, tickets, now) }))
+    .filter(({ machine, derived }) => derived.status !== machine.status)
+    .map(({ machine, derived }) => transitionMachineStatus(machine, derived.status, derived.reason, now, 'automatic'));
@@ -0,0 +1,78 @@
+import { Planogram, Product, StockCount, StockCountLine } from '../types';
+import { getProductSlotCodes } from './planogramService';
+import { MovementInput, machineMovement } from './ledgerService';
+
+// Losses above this share of the expected quantity are flagged for review
+export const DEFAULT_SHRINKAGE_THRESHOLD = 0.05;
+
+export const getVariance = (line: Pick<StockCountLine, 'expectedQuantity' | 'countedQuantity'>) =>
+  line.countedQuantity - line.expectedQuantity;
+
+export const isShrinkage = (expected: number, counted: number, threshold: number) =>
+  counted < expected && (expected - counted) / Math.max(expected, 1) > threshold;
+
+// Builds a posted count for a machine from the quantities a driver entered.
+// Products without an entry are assumed to match the expected quantity.
+export const createStockCount = (
+  machineId: string,
+  counts: Record<string, number>,
+  context: { products: Product[]; planograms: Planogram[] },
+  countedBy: string,
+  threshold = DEFAULT_SHRINKAGE_THRESHOLD,
+  notes?: string,
+  timestamp = Date.now()
+): StockCount => {
+  if (!countedBy.trim()) {
+    throw new Error('Enter who performed the count');
+  }
+  const planogram = context.planograms.find(p => p.machineId === machineId);
+  const lines = context.products
+    .filter(p => p.machineId === machineId)
+    .map((product): StockCountLine => {
+      const counted = counts[product.id] ?? product.quantity;
+      if (!Number.isInteger(counted) || counted < 0) {
+        throw new Error(`Invalid count for ${product.name}`);
+      }
+      return {
+        productId: product.id,
+        skuId: product.skuId,
+        productName: product.name,
+        slotCodes: getProductSlotCodes(planogram, product.id),
+        expectedQuantity: product.quantity,
+        countedQuantity: counted,
+        unitCost: product.cost,
+        flagged: isShrinkage(product.quantity, counted, threshold)
+      };
+    });
+  if (lines.length === 0) {
+    throw new Error('This machine has no products to count');
+  }
+
+  return {
+    id: `cnt-${machineId}-${timestamp}`,
+    machineId,
+    countedBy: countedBy.trim(),
+    shrinkageThreshold: threshold,
+    lines,
+    notes: notes?.trim() || undefined,
+    postedAt: timestamp
+  };
+};
+
+// Adjustment movements that bring the ledger in line with what was counted
+export const getCountAdjustments = (count: StockCount): MovementInput[] =>
+  count.lines
+    .filter(line => getVariance(line) !== 0)
+    .map(line => machineMovement(
+      { id: line.productId, skuId: line.skuId, machineId: count.machineId },
+      'adjustment',
+      getVariance(line),
+      line.flagged ? 'Stock count: shrinkage flagged' : 'Stock count variance',
+      count.id
+    ));
+
+export const getCountSummary = (count: { lines: Pick<StockCountLine, 'expectedQuantity' | 'countedQuantity' | 'unitCost' | 'flagged'>[] }) => ({
+  units: count.lines.reduce((sum, l) => sum + getVariance(l), 0),
+  value: count.lines.reduce((sum, l) => sum + getVariance(l) * l.unitCost, 0),
+  flagged: count.lines.filter(l => l.flagged).length
+});
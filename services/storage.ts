@@ -0,0 +1,210 @@
+// Pluggable persistence backends for the VendNexus data layer.
+// Every backend stores records in named collections keyed by `id`,
+// plus a small key/value `meta` area used for schema bookkeeping.
+
+export type CollectionName =
+  | 'catalog'
+  | 'products' // Per-machine StockRecords; the collection predates the catalog split
+  | 'machines'
+  | 'sales'
+  | 'machineStatusChanges'
+  | 'maintenanceTickets'
+  | 'planograms'
+  | 'lots'
+  | 'workOrders'
+  | 'depots'
+  | 'depotStock' // Depot balances from before the movement ledger; read only by migrations
+  | 'transfers'
+  | 'suppliers'
+  | 'purchaseOrders'
+  | 'movements'
+  | 'stockCounts'
+  | 'writeOffs'
+  | 'transactions'
+  | 'cashDrawers'
+  | 'cashCollections'
+  | 'customers'
+  | 'walletEntries'
+  | 'loyaltyEntries'
+  | 'promotions'
+  | 'taxRules'
+  | 'priceLists'
+  | 'priceExperiments';
+
+export const COLLECTIONS: CollectionName[] = [
+  'catalog',
+  'products',
+  'machines',
+  'sales',
+  'machineStatusChanges',
+  'maintenanceTickets',
+  'planograms',
+  'lots',
+  'workOrders',
+  'depots',
+  'depotStock',
+  'transfers',
+  'suppliers',
+  'purchaseOrders',
+  'movements',
+  'stockCounts',
+  'writeOffs',
+  'transactions',
+  'cashDrawers',
+  'cashCollections',
+  'customers',
+  'walletEntries',
+  'loyaltyEntries',
+  'promotions',
+  'taxRules',
+  'priceLists',
+  'priceExperiments'
+];
+
+export interface StorageRecord {
+  id: string;
+}
+
+export interface StorageBackend {
+  getAll<T extends StorageRecord>(collection: CollectionName): Promise<T[]>;
+  put<T extends StorageRecord>(collection: CollectionName, record: T): Promise<void>;
+  putMany<T extends StorageRecord>(collection: CollectionName, records: T[]): Promise<void>;
+  remove(collection: CollectionName, id: string): Promise<void>;
+  getMeta<T>(key: string): Promise<T | undefined>;
+  setMeta<T>(key: string, value: T): Promise<void>;
+}
+
+const META_STORE = 'meta';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// IndexedDB backend. The database version tracks the schema version so that
+// newly introduced collections get their object stores created on upgrade.
+export const createIndexedDBStorage = (dbName: string, version: number): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, version);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          [...COLLECTIONS, META_STORE].forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name, { keyPath: 'id' });
+            }
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async getAll<T extends StorageRecord>(collection: CollectionName) {
+      const db = await openDb();
+      const tx = db.transaction(collection, 'readonly');
+      return requestToPromise(tx.objectStore(collection).getAll()) as Promise<T[]>;
+    },
+    async put<T extends StorageRecord>(collection: CollectionName, record: T) {
+      const db = await openDb();
+      const tx = db.transaction(collection, 'readwrite');
+      tx.objectStore(collection).put(record);
+      await transactionDone(tx);
+    },
+    async putMany<T extends StorageRecord>(collection: CollectionName, records: T[]) {
+      const db = await openDb();
+      const tx = db.transaction(collection, 'readwrite');
+      const store = tx.objectStore(collection);
+      records.forEach(record => store.put(record));
+      await transactionDone(tx);
+    },
+    async remove(collection: CollectionName, id: string) {
+      const db = await openDb();
+      const tx = db.transaction(collection, 'readwrite');
+      tx.objectStore(collection).delete(id);
+      await transactionDone(tx);
+    },
+    async getMeta<T>(key: string) {
+      const db = await openDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      const entry = await requestToPromise(tx.objectStore(META_STORE).get(key));
+      return entry?.value as T | undefined;
+    },
+    async setMeta<T>(key: string, value: T) {
+      const db = await openDb();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put({ id: key, value });
+      await transactionDone(tx);
+    }
+  };
+};
+
+// HTTP backend for a REST server exposing:
+//   GET    {baseUrl}/{collection}        -> T[]
+//   PUT    {baseUrl}/{collection}/{id}   <- T
+//   PUT    {baseUrl}/{collection}        <- T[] (bulk upsert)
+//   DELETE {baseUrl}/{collection}/{id}
+//   GET    {baseUrl}/meta/{key}          -> { value } (404 when unset)
+//   PUT    {baseUrl}/meta/{key}          <- { value }
+export const createHttpStorage = (baseUrl: string): StorageBackend => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  // A 404 on a read means nothing is stored yet; on a write it means the
+  // write went nowhere, so it fails like any other error
+  const request = async (path: string, init?: RequestInit): Promise<Response> => {
+    const method = init?.method || 'GET';
+    const response = await fetch(`${root}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    });
+    if (!response.ok && !(response.status === 404 && method === 'GET')) {
+      throw new Error(`Storage request failed: ${method} ${path} (${response.status})`);
+    }
+    return response;
+  };
+
+  return {
+    async getAll<T extends StorageRecord>(collection: CollectionName) {
+      const response = await request(`/${collection}`);
+      return response.status === 404 ? [] : (await response.json()) as T[];
+    },
+    async put<T extends StorageRecord>(collection: CollectionName, record: T) {
+      await request(`/${collection}/${encodeURIComponent(record.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(record)
+      });
+    },
+    async putMany<T extends StorageRecord>(collection: CollectionName, records: T[]) {
+      await request(`/${collection}`, { method: 'PUT', body: JSON.stringify(records) });
+    },
+    async remove(collection: CollectionName, id: string) {
+      await request(`/${collection}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+    async getMeta<T>(key: string) {
+      const response = await request(`/meta/${encodeURIComponent(key)}`);
+      if (response.status === 404) return undefined;
+      const entry = await response.json();
+      return entry?.value as T | undefined;
+    },
+    async setMeta<T>(key: string, value: T) {
+      await request(`/meta/${encodeURIComponent(key)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ value })
+      });
+    }
+  };
+};
@@ -0,0 +1,83 @@
+import { CartItem, SaleRecord, TaxLine, TaxRule } from '../types';
+import { fromMinorUnits, toMinorUnits } from './money';
+
+export type TaxRuleInput = Omit<TaxRule, 'id' | 'active' | 'createdAt'>;
+
+// The rule's terms as recorded on a sale line, before the amount is known
+export type TaxBasis = Omit<TaxLine, 'amount'>;
+
+export interface CartTax {
+  tax: number;
+  exclusiveTax: number; // Added on top of the shelf prices
+  total: number; // To charge, after discounts and with exclusive tax
+}
+
+export const createTaxRule = (input: TaxRuleInput, timestamp = Date.now()): TaxRule => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Enter a name for the tax rule');
+  }
+  if (!(input.rate >= 0 && input.rate < 1)) {
+    throw new Error('Enter a tax rate from 0% up to 100%');
+  }
+  return { ...input, id: `tax-${timestamp}`, name, active: true, createdAt: timestamp };
+};
+
+// A rule naming the machine beats a fleet-wide one, then a rule naming the
+// category beats one for every category; the newest breaks any tie
+export const resolveTaxRule = (rules: TaxRule[], machineId: string, category: string): TaxRule | undefined =>
+  rules
+    .filter(r => r.active &&
+      (r.machineIds.length === 0 || r.machineIds.includes(machineId)) &&
+      (r.categories.length === 0 || r.categories.includes(category)))
+    .sort((a, b) =>
+      Number(b.machineIds.length > 0) - Number(a.machineIds.length > 0) ||
+      Number(b.categories.length > 0) - Number(a.categories.length > 0) ||
+      b.createdAt - a.createdAt)[0];
+
+export const toTaxBasis = (rule: TaxRule): TaxBasis =>
+  ({ ruleId: rule.id, name: rule.name, rate: rule.rate, inclusive: rule.inclusive });
+
+// Taxes an amount already net of discounts. Inclusive tax is carved out of
+// the amount; exclusive tax is added to it.
+export const applyTax = (amount: number, basis: TaxBasis | undefined, currency: string): { tax?: TaxLine; total: number } => {
+  if (!basis) return { total: amount };
+  const minor = toMinorUnits(amount, currency);
+  const taxMinor = basis.inclusive
+    ? Math.round(minor * basis.rate / (1 + basis.rate))
+    : Math.round(minor * basis.rate);
+  return {
+    tax: { ...basis, amount: fromMinorUnits(taxMinor, currency) },
+    total: fromMinorUnits(basis.inclusive ? minor : minor + taxMinor, currency)
+  };
+};
+
+// Tax on a priced cart, line by line as the transaction will record it
+export const getCartTax = (
+  cart: Pick<CartItem, 'id' | 'category' | 'price' | 'cartQuantity'>[],
+  discounts: Record<string, number>,
+  rules: TaxRule[],
+  machineId: string,
+  currency: string
+): CartTax => {
+  let tax = 0;
+  let exclusiveTax = 0;
+  let total = 0;
+  cart.forEach(item => {
+    const rule = resolveTaxRule(rules, machineId, item.category);
+    const amount = fromMinorUnits(toMinorUnits(item.price, currency) * item.cartQuantity - toMinorUnits(discounts[item.id] || 0, currency), currency);
+    const taxed = applyTax(amount, rule && toTaxBasis(rule), currency);
+    const taxMinor = toMinorUnits(taxed.tax?.amount || 0, currency);
+    tax += taxMinor;
+    if (taxed.tax && !taxed.tax.inclusive) exclusiveTax += taxMinor;
+    total += toMinorUnits(taxed.total, currency);
+  });
+  return {
+    tax: fromMinorUnits(tax, currency),
+    exclusiveTax: fromMinorUnits(exclusiveTax, currency),
+    total: fromMinorUnits(total, currency)
+  };
+};
+
+// What the customer paid for a sale: its revenue plus the tax collected
+export const getSaleTotal = (sale: Pick<SaleRecord, 'revenue' | 'tax'>) => sale.revenue + (sale.tax?.amount || 0);
@@ -0,0 +1,351 @@
+import { CartItem, Machine, PaymentMethod, SaleRecord, TaxRule, Transaction, TransactionLine, TransactionRefund, TransactionStatus } from '../types';
+import { DEFAULT_CURRENCY } from '../constants';
+import { CartPricing } from './promotionService';
+import { CurrencyAmount, fromMinorUnits, getMoneyFormat, roundMoney, sumMoney, toMinorUnits } from './money';
+import { applyTax, resolveTaxRule, toTaxBasis } from './taxService';
+
+export interface BasketMetrics {
+  transactions: number;
+  averageTicket: number;
+  averageItems: number;
+  multiItemShare: number;
+}
+
+export interface ProductPair {
+  names: [string, string];
+  count: number;
+}
+
+export interface RefundOptions {
+  restock: boolean;
+  failedVend: boolean;
+  reason: string;
+}
+
+export interface FailedVendRow {
+  machineId: string;
+  slotCode?: string;
+  attempted: number;
+  failed: number;
+  rate: number;
+}
+
+const withTotals = (transaction: Transaction): Transaction => {
+  const { currency, lines } = transaction;
+  const total = sumMoney(lines.map(l => l.total), currency);
+  const tax = sumMoney(lines.map(l => l.tax?.amount || 0), currency);
+  const discount = sumMoney(lines.map(l => l.discount), currency);
+  return { ...transaction, discount, subtotal: roundMoney(total - tax, currency), tax, total };
+};
+
+const toLine = (sale: SaleRecord, slotCode?: string): TransactionLine => {
+  const tax = sale.tax?.amount || 0;
+  // Inclusive tax is part of the shelf price, exclusive tax is not
+  const atShelfPrice = sale.revenue + (sale.tax?.inclusive === false ? 0 : tax) + (sale.discount || 0);
+  return {
+    saleId: sale.id,
+    productId: sale.productId,
+    skuId: sale.skuId,
+    productName: sale.productName,
+    slotCode,
+    quantity: sale.quantity,
+    unitPrice: atShelfPrice / sale.quantity,
+    unitCost: (sale.revenue - sale.profit) / sale.quantity,
+    discount: sale.discount || 0,
+    tax: sale.tax,
+    total: sale.revenue + tax,
+    profit: sale.profit,
+    failedQuantity: 0,
+    refundedQuantity: 0
+  };
+};
+
+const toTransaction = (
+  id: string,
+  lines: TransactionLine[],
+  source: Pick<SaleRecord, 'machineId' | 'paymentMethod' | 'timestamp'>,
+  currency: string,
+  status: TransactionStatus
+): Transaction => withTotals({
+  id,
+  machineId: source.machineId,
+  currency,
+  paymentMethod: source.paymentMethod,
+  lines,
+  discount: 0,
+  subtotal: 0,
+  tax: 0,
+  total: 0,
+  refunds: [],
+  refundedAmount: 0,
+  status,
+  timestamp: source.timestamp
+});
+
+// Payment for a cart has been authorized but nothing has vended yet. Each
+// line is taxed under the rule for its category at this machine.
+export const authorizeTransaction = (
+  cart: CartItem[],
+  machine: Pick<Machine, 'id' | 'currency'>,
+  paymentMethod: PaymentMethod,
+  taxRules: TaxRule[],
+  slotCodes: Record<string, string> = {},
+  paymentReference?: string,
+  timestamp = Date.now()
+): Transaction => {
+  if (cart.length === 0) {
+    throw new Error('The cart is empty');
+  }
+  const id = `txn-${machine.id}-${timestamp}`;
+  const lines: TransactionLine[] = cart.map(item => {
+    const rule = resolveTaxRule(taxRules, machine.id, item.category);
+    const amount = roundMoney(item.price * item.cartQuantity, machine.currency);
+    const { tax, total } = applyTax(amount, rule && toTaxBasis(rule), machine.currency);
+    return {
+      saleId: `s-${timestamp}-${item.id}`,
+      productId: item.id,
+      skuId: item.skuId,
+      productName: item.name,
+      slotCode: slotCodes[item.id],
+      quantity: item.cartQuantity,
+      unitPrice: item.price,
+      unitCost: item.cost,
+      discount: 0,
+      tax,
+      total,
+      profit: total - (tax?.amount || 0) - item.cost * item.cartQuantity,
+      failedQuantity: 0,
+      refundedQuantity: 0,
+      ...(item.experiment ? { experiment: item.experiment } : {})
+    };
+  });
+  const source = { machineId: machine.id, paymentMethod, timestamp };
+  return { ...toTransaction(id, lines, source, machine.currency, 'authorized'), paymentReference };
+};
+
+// Captures what the machine actually dispensed. Units it failed to vend are
+// not charged; a sale record is written for every line that vended anything.
+// Pricing is the promotion pricing of the vended units, if any applied.
+export const recordVend = (
+  transaction: Transaction,
+  vended: Record<string, number>,
+  pricing?: Pick<CartPricing, 'discounts' | 'promotions'>
+): { transaction: Transaction; sales: SaleRecord[] } => {
+  if (transaction.status !== 'authorized') {
+    throw new Error('This transaction has already been settled');
+  }
+  const { currency } = transaction;
+  const lines = transaction.lines.map(line => {
+    const units = Math.max(0, Math.min(line.quantity, vended[line.productId] ?? line.quantity));
+    const discount = units > 0 ? pricing?.discounts[line.productId] || 0 : 0;
+    const amount = fromMinorUnits(toMinorUnits(line.unitPrice, currency) * units - toMinorUnits(discount, currency), currency);
+    const { tax, total } = applyTax(amount, line.tax, currency);
+    return {
+      ...line,
+      discount,
+      tax,
+      total,
+      profit: total - (tax?.amount || 0) - units * line.unitCost,
+      failedQuantity: line.quantity - units
+    };
+  });
+  const anyVended = lines.some(l => l.failedQuantity < l.quantity);
+  const promotions = pricing?.promotions.length ? { promotions: pricing.promotions } : {};
+  const settled = withTotals({ ...transaction, ...promotions, lines, status: anyVended ? 'vended' : 'failed' });
+  const sales: SaleRecord[] = lines
+    .filter(l => l.failedQuantity < l.quantity)
+    .map(l => ({
+      id: l.saleId,
+      productId: l.productId,
+      skuId: l.skuId,
+      productName: l.productName,
+      machineId: transaction.machineId,
+      quantity: l.quantity - l.failedQuantity,
+      revenue: roundMoney(l.total - (l.tax?.amount || 0), currency),
+      profit: l.profit,
+      timestamp: transaction.timestamp,
+      paymentMethod: transaction.paymentMethod,
+      transactionId: transaction.id,
+      ...(l.discount > 0 ? { discount: l.discount } : {}),
+      ...(l.tax ? { tax: l.tax } : {}),
+      ...(l.experiment ? { experiment: l.experiment } : {})
+    }));
+  return { transaction: settled, sales };
+};
+
+export const getRefundableQuantity = (line: TransactionLine) =>
+  line.quantity - line.failedQuantity - line.refundedQuantity;
+
+// What one vended unit of the line was actually charged, after promotions and with tax
+export const getNetUnitPrice = (line: TransactionLine) => {
+  const units = line.quantity - line.failedQuantity;
+  return units > 0 ? line.total / units : line.unitPrice;
+};
+
+// Refunds units from a settled transaction at the price actually paid. The
+// reversing sale records cancel the revenue and the tax collected; units that
+// are not returned to stock are a loss, so their whole net price comes off
+// profit. A failed vend means the item never left the machine.
+export const refundTransaction = (
+  transaction: Transaction,
+  quantities: Record<string, number>,
+  options: RefundOptions,
+  user: string,
+  timestamp = Date.now()
+): { transaction: Transaction; refund: TransactionRefund; sales: SaleRecord[] } => {
+  if (transaction.status === 'authorized' || transaction.status === 'failed') {
+    throw new Error('Only vended transactions can be refunded');
+  }
+  const refundLines = transaction.lines
+    .map(line => ({ line, quantity: quantities[line.saleId] || 0 }))
+    .filter(r => r.quantity !== 0);
+  if (refundLines.length === 0) {
+    throw new Error('Choose at least one item to refund');
+  }
+  refundLines.forEach(({ line, quantity }) => {
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > getRefundableQuantity(line)) {
+      throw new Error(`Only ${getRefundableQuantity(line)} unit(s) of ${line.productName} can be refunded`);
+    }
+  });
+
+  const { currency } = transaction;
+  const restocked = options.restock || options.failedVend;
+  // The vended units' share of what the line charged and collected in tax
+  const shareOf = (line: TransactionLine, quantity: number, amount: number) =>
+    roundMoney(amount * quantity / (line.quantity - line.failedQuantity), currency);
+  const refund: TransactionRefund = {
+    id: `rf-${transaction.id}-${timestamp}`,
+    lines: refundLines.map(r => ({ saleId: r.line.saleId, quantity: r.quantity })),
+    amount: sumMoney(refundLines.map(r => shareOf(r.line, r.quantity, r.line.total)), currency),
+    restocked,
+    failedVend: options.failedVend,
+    reason: options.reason.trim() || (options.failedVend ? 'Failed vend' : 'Refund'),
+    user,
+    timestamp
+  };
+  const sales: SaleRecord[] = refundLines.map(({ line, quantity }) => {
+    const tax = line.tax ? shareOf(line, quantity, line.tax.amount) : 0;
+    const revenue = roundMoney(shareOf(line, quantity, line.total) - tax, currency);
+    return {
+      id: `s-${refund.id}-${line.productId}`,
+      productId: line.productId,
+      skuId: line.skuId,
+      productName: line.productName,
+      machineId: transaction.machineId,
+      quantity: -quantity,
+      revenue: -revenue,
+      profit: -(restocked ? revenue - quantity * line.unitCost : revenue),
+      timestamp,
+      paymentMethod: transaction.paymentMethod,
+      transactionId: transaction.id,
+      refundId: refund.id,
+      ...(line.discount > 0 ? { discount: -shareOf(line, quantity, line.discount) } : {}),
+      ...(line.tax ? { tax: { ...line.tax, amount: -tax } } : {}),
+      ...(line.experiment ? { experiment: line.experiment } : {})
+    };
+  });
+
+  const refundedAmount = roundMoney(transaction.refundedAmount + refund.amount, currency);
+  return {
+    transaction: {
+      ...transaction,
+      lines: transaction.lines.map(line => ({
+        ...line,
+        refundedQuantity: line.refundedQuantity + (quantities[line.saleId] || 0)
+      })),
+      refunds: [...transaction.refunds, refund],
+      refundedAmount,
+      status: refundedAmount >= transaction.total ? 'refunded' : 'partially_refunded'
+    },
+    refund,
+    sales
+  };
+};
+
+// Rebuilds transactions for sales recorded before they existed. Lines checked
+// out together share the machine, time and payment method.
+export const groupSalesIntoTransactions = (
+  sales: SaleRecord[],
+  currency = DEFAULT_CURRENCY
+): { transactions: Transaction[]; sales: SaleRecord[] } => {
+  const carts = new Map<string, SaleRecord[]>();
+  sales.filter(s => !s.transactionId).forEach(s => {
+    const key = `${s.machineId}-${s.timestamp}-${s.paymentMethod}`;
+    carts.set(key, [...(carts.get(key) || []), s]);
+  });
+  const grouped = Array.from(carts.values()).map(lines => {
+    const transaction = toTransaction(`txn-${lines[0].id}`, lines.map(s => toLine(s)), lines[0], currency, 'vended');
+    return { transaction, sales: lines.map(s => ({ ...s, transactionId: transaction.id })) };
+  });
+  return {
+    transactions: grouped.map(g => g.transaction),
+    sales: grouped.flatMap(g => g.sales)
+  };
+};
+
+// Baskets where the machine vended something
+const isSettled = (t: Transaction) => t.status !== 'authorized' && t.status !== 'failed';
+
+const vendedUnits = (line: TransactionLine) => line.quantity - line.failedQuantity - line.refundedQuantity;
+
+export const getBasketMetrics = (transactions: Transaction[]): BasketMetrics => {
+  const settled = transactions.filter(isSettled);
+  const count = settled.length;
+  const units = settled.reduce((sum, t) => sum + t.lines.reduce((n, l) => n + vendedUnits(l), 0), 0);
+  return {
+    transactions: count,
+    averageTicket: count ? settled.reduce((sum, t) => sum + t.total - t.refundedAmount, 0) / count : 0,
+    averageItems: count ? units / count : 0,
+    multiItemShare: count ? settled.filter(t => t.lines.filter(l => vendedUnits(l) > 0).length > 1).length / count : 0
+  };
+};
+
+// Average ticket in each currency the transactions were taken in; tickets in
+// different currencies are never averaged together
+export const getAverageTickets = (
+  transactions: Transaction[],
+  machines: Pick<Machine, 'currency' | 'locale'>[]
+): CurrencyAmount[] =>
+  Array.from(new Set(transactions.filter(isSettled).map(t => t.currency))).map(currency => ({
+    format: getMoneyFormat(machines.find(m => m.currency === currency)),
+    amount: getBasketMetrics(transactions.filter(t => t.currency === currency)).averageTicket
+  }));
+
+// Products that most often appear in the same basket
+export const getFrequentPairs = (transactions: Transaction[], limit = 5): ProductPair[] => {
+  const pairs = new Map<string, ProductPair>();
+  transactions.filter(isSettled).forEach(t => {
+    const names = Array.from(new Set(t.lines.filter(l => vendedUnits(l) > 0).map(l => l.productName))).sort();
+    names.forEach((a, i) => names.slice(i + 1).forEach(b => {
+      const key = `${a}|${b}`;
+      const pair = pairs.get(key) || { names: [a, b], count: 0 };
+      pairs.set(key, { ...pair, count: pair.count + 1 });
+    }));
+  });
+  return Array.from(pairs.values()).sort((a, b) => b.count - a.count).slice(0, limit);
+};
+
+// Share of attempted units that failed to vend, at checkout or reported later
+export const getFailedVendRates = (transactions: Transaction[]): { machines: FailedVendRow[]; slots: FailedVendRow[] } => {
+  const machines = new Map<string, FailedVendRow>();
+  const slots = new Map<string, FailedVendRow>();
+  const add = (map: Map<string, FailedVendRow>, key: string, row: Omit<FailedVendRow, 'attempted' | 'failed' | 'rate'>, attempted: number, failed: number) => {
+    const current = map.get(key) || { ...row, attempted: 0, failed: 0, rate: 0 };
+    map.set(key, { ...current, attempted: current.attempted + attempted, failed: current.failed + failed });
+  };
+  transactions.filter(t => t.status !== 'authorized').forEach(t => {
+    const reported = new Map<string, number>();
+    t.refunds.filter(r => r.failedVend).forEach(r => r.lines.forEach(l => reported.set(l.saleId, (reported.get(l.saleId) || 0) + l.quantity)));
+    t.lines.forEach(line => {
+      const failed = line.failedQuantity + (reported.get(line.saleId) || 0);
+      add(machines, t.machineId, { machineId: t.machineId }, line.quantity, failed);
+      if (line.slotCode) {
+        add(slots, `${t.machineId}-${line.slotCode}`, { machineId: t.machineId, slotCode: line.slotCode }, line.quantity, failed);
+      }
+    });
+  });
+  const withRate = (rows: FailedVendRow[]) => rows
+    .map(r => ({ ...r, rate: r.attempted ? r.failed / r.attempted : 0 }))
+    .sort((a, b) => b.rate - a.rate || b.attempted - a.attempted);
+  return { machines: withRate(Array.from(machines.values())), slots: withRate(Array.from(slots.values())) };
+};
@@ -0,0 +1,204 @@
+import { PaymentMethod } from '../types';
+import type { Payment, PaymentProvider, SimulatorConfig } from './paymentService';
+import { formatMoney } from './money';
+
+export const QR_PAYMENT_TTL_MS = 2 * 60 * 1000;
+
+export interface UpiPayee {
+  vpa: string; // Virtual payment address, e.g. shop@bank
+  name: string;
+}
+
+// What the payment-status endpoint reports for a transaction reference
+export interface UpiStatusResponse {
+  status: 'pending' | 'success' | 'failure';
+  reference: string;
+  amount?: number; // Amount actually paid
+  utr?: string; // Bank transaction number
+  message?: string;
+}
+
+export interface UpiStatusEndpoint {
+  fetchStatus(request: { reference: string; amount: number; method: PaymentMethod }): Promise<UpiStatusResponse>;
+  requestRefund(reference: string, amount: number): Promise<void>;
+}
+
+// UPI only settles in rupees, so it is only offered at machines pricing in them
+export const UPI_CURRENCY = 'INR';
+const UPI_MONEY_FORMAT = { currency: UPI_CURRENCY, locale: 'en-IN' };
+
+export const acceptsUpi = (currency: string) => currency === UPI_CURRENCY;
+
+// Builds a UPI deep link (NPCI "upi://pay" intent) for the payer's app
+export const buildUpiIntent = (payee: UpiPayee, amount: number, reference: string, note?: string): string => {
+  const params: [string, string][] = [
+    ['pa', payee.vpa],
+    ['pn', payee.name],
+    ['am', amount.toFixed(2)],
+    ['cu', UPI_CURRENCY],
+    ['tr', reference]
+  ];
+  if (note) params.push(['tn', note]);
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+};
+
+// Polls GET {baseUrl}/upi/{reference}; refunds are POSTed to .../refunds
+export const createHttpUpiStatusEndpoint = (baseUrl: string): UpiStatusEndpoint => {
+  const root = baseUrl.replace(/\/+$/, '');
+  return {
+    async fetchStatus({ reference }) {
+      const response = await fetch(`${root}/upi/${encodeURIComponent(reference)}`);
+      if (!response.ok) {
+        throw new Error(`Payment status request failed (${response.status})`);
+      }
+      return response.json();
+    },
+    async requestRefund(reference, amount) {
+      const response = await fetch(`${root}/upi/${encodeURIComponent(reference)}/refunds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount })
+      });
+      if (!response.ok) {
+        throw new Error(`Refund request failed (${response.status})`);
+      }
+    }
+  };
+};
+
+// Local stand-in for the status endpoint. A reference is reported as paid (or
+// failed) once the customer has had time to scan it, using the simulator's
+// per-method outcomes; 'timeout' leaves it pending until the code expires.
+export const createStubUpiStatusEndpoint = (config: SimulatorConfig): UpiStatusEndpoint => {
+  const firstSeen = new Map<string, number>();
+  return {
+    async fetchStatus({ reference, amount, method }) {
+      if (!firstSeen.has(reference)) firstSeen.set(reference, Date.now());
+      const outcome = config.outcomes[method] || config.defaultOutcome;
+      if (outcome === 'timeout' || Date.now() - (firstSeen.get(reference) as number) < config.qrLatencyMs) {
+        return { status: 'pending', reference };
+      }
+      return outcome === 'approve'
+        ? { status: 'success', reference, amount, utr: `SIM${Date.now()}` }
+        : { status: 'failure', reference, message: 'Payment declined in the UPI app' };
+    },
+    async requestRefund() {}
+  };
+};
+
+// Collect-by-QR provider. Authorizing shows a UPI intent with its own
+// reference; the payment is approved only once the endpoint confirms that
+// reference was paid in full, and unpaid codes expire after ttlMs.
+export const createUpiPaymentProvider = (
+  endpoint: UpiStatusEndpoint,
+  payee: UpiPayee,
+  ttlMs: number = QR_PAYMENT_TTL_MS
+): PaymentProvider => {
+  const payments = new Map<string, Payment>();
+  let sequence = 0;
+
+  const find = (paymentId: string): Payment => {
+    const payment = payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+    return payment;
+  };
+
+  const update = (payment: Payment, changes: Partial<Payment>): Payment => {
+    const updated = { ...payment, ...changes };
+    payments.set(updated.id, updated);
+    return { ...updated };
+  };
+
+  return {
+    name: 'UPI',
+    async authorize(method, amount) {
+      if (!(amount > 0)) {
+        throw new Error('Payment amount must be positive');
+      }
+      sequence += 1;
+      const now = Date.now();
+      const reference = `VN${now}${sequence}`;
+      const payment: Payment = {
+        id: `upi-${reference}`,
+        method,
+        amount,
+        capturedAmount: 0,
+        refundedAmount: 0,
+        status: 'pending',
+        reference,
+        qrPayload: buildUpiIntent(payee, amount, reference, 'VendNexus purchase'),
+        expiresAt: now + ttlMs,
+        createdAt: now
+      };
+      payments.set(payment.id, payment);
+      return { ...payment };
+    },
+    async getStatus(paymentId) {
+      const payment = find(paymentId);
+      if (payment.status !== 'pending') return { ...payment };
+      if (Date.now() >= (payment.expiresAt as number)) {
+        return update(payment, { status: 'timed_out', message: 'The QR code expired before payment was received' });
+      }
+      const response = await endpoint.fetchStatus({
+        reference: payment.reference as string,
+        amount: payment.amount,
+        method: payment.method
+      });
+      if (response.status === 'pending') return { ...payment };
+      if (response.status === 'failure') {
+        return update(payment, { status: 'declined', message: response.message || 'UPI payment failed' });
+      }
+      // Reconcile the confirmation against what this transaction asked for
+      if (response.reference !== payment.reference) {
+        return update(payment, { status: 'declined', message: 'Payment confirmation is for a different reference' });
+      }
+      if (response.amount === undefined || response.amount + 0.005 < payment.amount) {
+        const paid = response.amount === undefined ? 'an unknown amount' : formatMoney(response.amount, UPI_MONEY_FORMAT);
+        if (response.amount) await endpoint.requestRefund(payment.reference as string, response.amount);
+        return update(payment, { status: 'declined', message: `Received ${paid} of ${formatMoney(payment.amount, UPI_MONEY_FORMAT)}; payment returned` });
+      }
+      return update(payment, { status: 'approved', message: response.utr ? `UTR ${response.utr}` : undefined });
+    },
+    async capture(paymentId, amount) {
+      const payment = find(paymentId);
+      if (payment.status !== 'approved') {
+        throw new Error(`Cannot capture a payment that is ${payment.status}`);
+      }
+      if (amount <= 0 || amount > payment.amount) {
+        throw new Error('Capture amount must be between zero and the authorized amount');
+      }
+      // The customer has already paid in full; return whatever was not vended
+      if (payment.amount - amount > 0.005) {
+        await endpoint.requestRefund(payment.reference as string, payment.amount - amount);
+      }
+      return update(payment, { status: 'captured', capturedAmount: amount });
+    },
+    async cancel(paymentId) {
+      const payment = find(paymentId);
+      if (payment.status !== 'pending' && payment.status !== 'approved') {
+        throw new Error(`Cannot cancel a payment that is ${payment.status}`);
+      }
+      if (payment.status === 'approved') {
+        await endpoint.requestRefund(payment.reference as string, payment.amount);
+      }
+      return update(payment, { status: 'cancelled' });
+    },
+    async refund(paymentId, amount) {
+      const payment = find(paymentId);
+      if (payment.status !== 'captured' && payment.status !== 'partially_refunded') {
+        throw new Error(`Cannot refund a payment that is ${payment.status}`);
+      }
+      const refundedAmount = payment.refundedAmount + amount;
+      if (amount <= 0 || refundedAmount > payment.capturedAmount) {
+        throw new Error('Refund exceeds the captured amount');
+      }
+      await endpoint.requestRefund(payment.reference as string, amount);
+      return update(payment, {
+        refundedAmount,
+        status: refundedAmount >= payment.capturedAmount ? 'refunded' : 'partially_refunded'
+      });
+    }
+  };
+};
@@ -0,0 +1,139 @@
+import { Machine, Product, StockLot, WriteOff, WriteOffReason } from '../types';
+import { depleteFefo, getActiveLots } from './lotService';
+import { MovementInput, machineMovement } from './ledgerService';
+import { MoneyFormat, getMoneyFormat } from './money';
+
+export type WasteGrouping = 'product' | 'machine' | 'month';
+
+export interface WasteReportRow {
+  key: string;
+  label: string;
+  units: number;
+  value: number;
+  money: MoneyFormat; // Of the machines written off at; rows are split by currency
+}
+
+// Write-off documents plus the ledger and lot changes that post them
+export interface WriteOffChanges {
+  writeOffs: WriteOff[];
+  movements: MovementInput[];
+  lots: StockLot[];
+}
+
+export const WRITE_OFF_REASON_LABELS: Record<WriteOffReason, string> = {
+  expired: 'Expired',
+  damaged: 'Damaged',
+  recalled: 'Recalled',
+  other: 'Other'
+};
+
+export const getWriteOffValue = (writeOff: WriteOff) => writeOff.quantity * writeOff.unitCost;
+
+const toChanges = (
+  entries: { product: Product; lot: StockLot; quantity: number }[],
+  reason: WriteOffReason,
+  user: string,
+  note: string | undefined,
+  timestamp: number
+): WriteOffChanges => {
+  const changes: WriteOffChanges = { writeOffs: [], movements: [], lots: [] };
+  entries.forEach(({ product, lot, quantity }, index) => {
+    const writeOff: WriteOff = {
+      id: `wof-${lot.id}-${timestamp}-${index}`,
+      productId: product.id,
+      skuId: product.skuId,
+      productName: product.name,
+      machineId: product.machineId,
+      lotId: lot.id,
+      lotNumber: lot.lotNumber,
+      quantity,
+      unitCost: product.cost,
+      reason,
+      note: note?.trim() || undefined,
+      user,
+      timestamp
+    };
+    changes.writeOffs.push(writeOff);
+    changes.movements.push(machineMovement(
+      product,
+      'write_off',
+      -quantity,
+      `${WRITE_OFF_REASON_LABELS[reason]}: lot ${lot.lotNumber}`,
+      writeOff.id
+    ));
+    changes.lots.push({ ...lot, quantity: lot.quantity - quantity });
+  });
+  return changes;
+};
+
+// Pulls every expired lot of the given products
+export const writeOffExpired = (
+  products: Product[],
+  lots: StockLot[],
+  user: string,
+  timestamp = Date.now()
+): WriteOffChanges => {
+  const entries = products.flatMap(product =>
+    getActiveLots(lots, product.id)
+      .filter(lot => lot.expiryDate < timestamp)
+      .map(lot => ({ product, lot, quantity: lot.quantity })));
+  if (entries.length === 0) {
+    throw new Error('There is no expired stock to write off');
+  }
+  return toChanges(entries, 'expired', user, undefined, timestamp);
+};
+
+// Writes off units of one product, from a specific lot or first-expired-first-out
+export const writeOffQuantity = (
+  product: Product,
+  lots: StockLot[],
+  quantity: number,
+  reason: WriteOffReason,
+  user: string,
+  options: { lotId?: string; note?: string } = {},
+  timestamp = Date.now()
+): WriteOffChanges => {
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error('Write-off quantity must be a positive whole number');
+  }
+  const source = options.lotId ? lots.filter(l => l.id === options.lotId) : lots;
+  const { changed, shortfall } = depleteFefo(source, product.id, quantity);
+  if (shortfall > 0) {
+    throw new Error(`Only ${quantity - shortfall} unit(s) of ${product.name} are on hand to write off`);
+  }
+  const entries = changed.map(lot => {
+    const original = lots.find(l => l.id === lot.id) as StockLot;
+    return { product, lot: original, quantity: original.quantity - lot.quantity };
+  });
+  return toChanges(entries, reason, user, options.note, timestamp);
+};
+
+const monthKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Units and cost written off, grouped and sorted by value lost
+export const getWasteReport = (
+  writeOffs: WriteOff[],
+  grouping: WasteGrouping,
+  machines: Machine[]
+): WasteReportRow[] => {
+  const rows = new Map<string, WasteReportRow>();
+  writeOffs.forEach(w => {
+    const key = grouping === 'product' ? w.skuId : grouping === 'machine' ? w.machineId : monthKey(w.timestamp);
+    const label = grouping === 'product'
+      ? w.productName
+      : grouping === 'machine'
+        ? machines.find(m => m.id === w.machineId)?.name || w.machineId
+        : new Date(`${key}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    const money = getMoneyFormat(machines.find(m => m.id === w.machineId));
+    const rowKey = `${key}|${money.currency}`;
+    const row = rows.get(rowKey) || { key: rowKey, label, units: 0, value: 0, money };
+    rows.set(rowKey, { ...row, units: row.units + w.quantity, value: row.value + getWriteOffValue(w) });
+  });
+  const result = Array.from(rows.values());
+  return grouping === 'month'
+    ? result.sort((a, b) => b.key.localeCompare(a.key))
+    : result.sort((a, b) => a.money.currency.localeCompare(b.money.currency) || b.value - a.value);
+};
@@ -13,8 +13,45 @@ export enum PaymentMethod {
   QR_CODE = 'QR Code'
 }
 
+// Master catalog entry shared by every machine that stocks the SKU
+export interface CatalogItem {
+  id: string;
+  sku: string; // Human-readable SKU code, e.g. "SKU-0001"
+  barcode: string;
+  name: string;
+  category: string;
+  cost: number;
+  image: string;
+}
+
+// Per-machine stock and price for one catalog SKU
+export interface StockRecord {
+  id: string;
+  skuId: string;
+  machineId: string;
+  price: number;
+  quantity: number; // Balance from the movement ledger; the stored value is a snapshot
+  min_quantity: number;
+  expiryDate: number; // Default expiry for newly received stock
+}
+
+// A received batch of one machine's stock. The lots of a stock record always
+// sum to its quantity; sales deplete them first-expired-first-out.
+export interface StockLot {
+  id: string;
+  productId: string; // StockRecord id
+  lotNumber: string;
+  receivedAt: number;
+  expiryDate: number;
+  quantity: number;
+}
+
+// A stock record joined with its catalog item; this is what the UI works with
 export interface Product {
   id: string;
+  skuId: string;
+  sku: string;
+  barcode: string;
   name: string;
   category: string;
   price: number;
@@ -23,7 +60,7 @@ export interface Product {
   min_quantity: number;
   image: string;
   machineId: string;
-  expiryDate: number; // Timestamp
+  expiryDate: number; // Earliest expiry among the product's lots
 }
 
 export interface Machine {
@@ -31,22 +68,486 @@ export interface Machine {
   name: string;
   location: string;
   status: MachineStatus;
+  currency: string; // ISO 4217 code its prices are in; fixed once commissioned
+  locale: string; // BCP 47 tag its amounts are formatted for, e.g. "en-IN"
+  group?: string; // e.g. "Tech parks"; price lists can target a whole group
+  statusChangedAt?: number; // Timestamp of the last status transition
+  statusOverride?: boolean; // Status was set by hand; the status engine leaves it alone
+  lastHeartbeatAt?: number; // Last telemetry ping; undefined if the machine never reported
+  decommissionedAt?: number; // Set once the machine is retired from the fleet
+}
+
+export interface MachineStatusChange {
+  id: string;
+  machineId: string;
+  from: MachineStatus | null; // null for the initial status of a new machine
+  to: MachineStatus;
+  reason: string;
+  timestamp: number;
+  source?: 'manual' | 'automatic'; // Missing on records created before the status engine
+}
+
+// Planogram: the physical layout of a machine. Trays are lettered top to
+// bottom (A, B, ...) and slots numbered left to right, giving keypad codes
+// like "B4". A product may occupy several slots (facings); a slot holds one product.
+export interface PlanogramSlot {
+  column: number; // 1-based
+  capacity: number;
+  productId: string | null;
+}
+
+export interface PlanogramTray {
+  label: string;
+  slots: PlanogramSlot[];
+}
+
+export interface Planogram {
+  id: string; // Same as machineId, one planogram per machine
+  machineId: string;
+  trays: PlanogramTray[];
+  updatedAt: number;
+}
+
+export interface MaintenanceTicket {
+  id: string;
+  machineId: string;
+  title: string;
+  openedAt: number;
+  closedAt?: number;
 }
 
 export interface SaleRecord {
   id: string;
   productId: string;
+  skuId: string;
   productName: string; // Denormalized for easier display
   machineId: string;
   quantity: number;
-  revenue: number;
+  revenue: number; // Net of tax
+  profit: number;
+  timestamp: number;
+  paymentMethod: PaymentMethod;
+  transactionId?: string;
+  refundId?: string; // Set on the negative entries that reverse a refunded sale
+  discount?: number; // Promotion discount already taken off revenue and profit
+  tax?: TaxLine; // Tax collected on top of revenue
+  experiment?: ExperimentAssignment; // Set when a price experiment priced the sale
+}
+
+export interface WorkOrderLine {
+  productId: string;
+  productName: string; // Denormalized so printed orders survive catalog edits
+  slotCodes: string[];
+  plannedQuantity: number;
+  deliveredQuantity?: number; // Filled in by the driver on completion
+  expiryDate?: number; // Expiry of the delivered stock
+}
+
+// One stop of a restock route: what a driver loads into a single machine
+export interface WorkOrder {
+  id: string;
+  routeId: string;
+  stopNumber: number; // 1-based position in the route
+  machineId: string;
+  status: 'open' | 'completed' | 'cancelled';
+  lines: WorkOrderLine[];
+  createdAt: number;
+  completedAt?: number;
+}
+
+// A warehouse holding stock that is not yet in any machine
+export interface Depot {
+  id: string;
+  name: string;
+  location: string;
+}
+
+// On-hand quantity of one catalog SKU at one depot, derived from the movement ledger
+export interface DepotStock {
+  id: string; // `${depotId}-${skuId}`
+  depotId: string;
+  skuId: string;
+  quantity: number;
+}
+
+export interface StockLocationRef {
+  type: 'depot' | 'machine';
+  id: string;
+}
+
+export interface TransferLine {
+  skuId: string;
+  productName: string; // Denormalized for display
+  quantity: number;
+}
+
+// Moves stock into a machine, either from a depot or from another machine
+export interface StockTransfer {
+  id: string;
+  from: StockLocationRef;
+  toMachineId: string;
+  lines: TransferLine[];
+  note?: string;
+  createdAt: number;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactEmail?: string;
+  phone?: string;
+  leadTimeDays?: number;
+}
+
+export type CostingMethod = 'weighted_average' | 'last_cost';
+
+export interface PurchaseOrderLine {
+  skuId: string;
+  productName: string; // Denormalized for display
+  orderedQuantity: number;
+  receivedQuantity: number;
+  unitCost: number; // Supplier price per unit, before freight
+}
+
+// One delivery against a purchase order; an order may be received in several
+export interface PurchaseReceipt {
+  receivedAt: number;
+  costingMethod: CostingMethod;
+  lines: { skuId: string; quantity: number; landedUnitCost: number }[];
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string; // Human-readable, e.g. "PO-0001"
+  supplierId: string;
+  depotId: string; // Where the goods are delivered
+  status: 'ordered' | 'partially_received' | 'received' | 'cancelled';
+  lines: PurchaseOrderLine[];
+  freightCost: number; // Spread over the lines by value to give landed cost
+  receipts: PurchaseReceipt[];
+  notes?: string;
+  createdAt: number;
+}
+
+export type MovementType = 'sale' | 'return' | 'restock' | 'write_off' | 'adjustment' | 'transfer';
+
+// One entry of the append-only inventory ledger. Stock levels at machines and
+// depots are the sum of their movements; entries are never edited or removed.
+export interface InventoryMovement {
+  id: string;
+  type: MovementType;
+  location: StockLocationRef;
+  skuId: string;
+  productId?: string; // StockRecord id, for movements at a machine
+  quantity: number; // Signed: positive adds stock, negative removes it
+  user: string;
+  reason: string;
+  referenceId?: string; // Sale, transfer, work order or purchase order behind the movement
+  timestamp: number;
+}
+
+export interface StockCountLine {
+  productId: string;
+  skuId: string;
+  productName: string; // Denormalized for display
+  slotCodes: string[];
+  expectedQuantity: number; // Ledger balance when the count was posted
+  countedQuantity: number;
+  unitCost: number; // Catalog cost at count time, to value the variance
+  flagged: boolean; // Shrinkage above the threshold
+}
+
+// A physical count of one machine. Posting it books the variances as
+// adjustment movements referencing the count.
+export interface StockCount {
+  id: string;
+  machineId: string;
+  countedBy: string;
+  shrinkageThreshold: number; // Fraction of expected stock, e.g. 0.05
+  lines: StockCountLine[];
+  notes?: string;
+  postedAt: number;
+}
+
+export type WriteOffReason = 'expired' | 'damaged' | 'recalled' | 'other';
+
+// Stock pulled from a machine and disposed of, valued at cost as a loss
+export interface WriteOff {
+  id: string;
+  productId: string;
+  skuId: string;
+  productName: string; // Denormalized for reporting
+  machineId: string;
+  lotId?: string;
+  lotNumber?: string;
+  quantity: number;
+  unitCost: number;
+  reason: WriteOffReason;
+  note?: string;
+  user: string;
+  timestamp: number;
+}
+
+// Payment is authorized before the machine vends; failed vends are never captured
+export type TransactionStatus = 'authorized' | 'vended' | 'failed' | 'refunded' | 'partially_refunded';
+
+export interface TransactionLine {
+  saleId: string;
+  productId: string;
+  skuId: string;
+  productName: string;
+  slotCode?: string;
+  quantity: number; // Units paid for
+  unitPrice: number; // Shelf price
+  unitCost: number;
+  discount: number; // Promotion discount on the units vended
+  tax?: TaxLine; // On the units vended; absent when no tax rule applied
+  total: number; // Charged for the units vended, after discount and with tax
   profit: number;
+  failedQuantity: number; // Units the machine failed to dispense at checkout
+  refundedQuantity: number;
+  experiment?: ExperimentAssignment; // Variant whose price was charged
+}
+
+export interface TransactionRefund {
+  id: string;
+  lines: { saleId: string; quantity: number }[];
+  amount: number;
+  restocked: boolean;
+  failedVend: boolean; // Reported after checkout, e.g. a coil jammed
+  reason: string;
+  user: string;
+  manualRefundRequired?: boolean; // The gateway could not pay it back; the operator must
   timestamp: number;
+}
+
+// A GST/VAT or sales tax rate. Inclusive rates are already in the shelf price
+// and exclusive ones are added at checkout. Each sale line is taxed by the
+// most specific active rule for its machine and product category.
+export interface TaxRule {
+  id: string;
+  name: string; // e.g. "GST 18%"
+  rate: number; // Fraction, e.g. 0.18
+  inclusive: boolean;
+  categories: string[]; // Empty applies to every category
+  machineIds: string[]; // Empty applies to every machine
+  active: boolean;
+  createdAt: number;
+}
+
+// The tax one rule charged on a sale line
+export interface TaxLine {
+  ruleId: string;
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  amount: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  amount: number; // Discount it gave
+}
+
+// One checkout at a machine; its vended lines are also written as SaleRecords
+export interface Transaction {
+  id: string;
+  machineId: string;
+  currency: string; // The machine's at checkout
   paymentMethod: PaymentMethod;
+  paymentReference?: string; // Payment id at the gateway
+  lines: TransactionLine[];
+  discount: number;
+  promotions?: AppliedPromotion[];
+  couponCode?: string;
+  subtotal: number;
+  tax: number; // Inclusive and exclusive tax across the lines
+  total: number;
+  refunds: TransactionRefund[];
+  refundedAmount: number;
+  status: TransactionStatus;
+  customerId?: string; // Loyalty member logged in at the kiosk
+  pointsEarned?: number;
+  timestamp: number;
+}
+
+// Denomination (in cents) -> count of coins or bills
+export type CashCounts = Record<number, number>;
+
+// Cash held in a machine. Inserted coins refill the change tubes until they
+// are full and overflow into the cash box; bills always go to the cash box.
+export interface CashDrawer {
+  id: string; // Same as machineId, one drawer per machine
+  machineId: string;
+  tubes: CashCounts; // Coins available to pay change
+  cashBox: CashCounts; // Awaiting collection; never paid out
+  floatAmount: number; // Value of the tubes when the drawer was last collected
+  changeOwed: number; // Change the machine could not pay out since then
+  lastCollectedAt: number;
+  updatedAt: number;
+}
+
+// An owner emptying a machine's cash box, reconciled against the cash sales
+// recorded since the previous collection
+export interface CashCollection {
+  id: string;
+  machineId: string;
+  periodStart: number;
+  collectedAt: number;
+  expectedAmount: number; // Cash box value as counted by the machine
+  countedAmount: number;
+  tubeChange: number; // Tube value at collection minus the float at periodStart
+  recordedSales: number;
+  changeOwed: number;
+  variance: number; // Counted + tube change - recorded sales - change owed
+  floatAdded: number; // Coins added to refill the tubes
+  user: string;
+  note?: string;
+}
+
+export type PromotionType = 'percent_off' | 'amount_off' | 'multi_buy' | 'combo' | 'bogo';
+
+// A pricing rule. Percent and amount offs discount single units; multi-buys
+// ("2 for $5"), combos (one of each listed SKU for a price) and buy-X-get-Y
+// deals claim groups of units, and a unit takes part in at most one promotion.
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  skuIds: string[]; // Qualifying SKUs; empty means all (combos list their items)
+  machineIds: string[]; // Empty means every machine
+  value: number; // Percent off (percent_off, bogo), amount off per unit (amount_off) or bundle price (multi_buy, combo)
+  buyQuantity?: number; // multi_buy: units in the bundle; bogo: units at full price
+  getQuantity?: number; // bogo: units discounted by value percent
+  startsAt?: number;
+  endsAt?: number;
+  daysOfWeek?: number[]; // 0 = Sunday; empty means every day
+  startMinute?: number; // Daily window in minutes after midnight, e.g. happy hour
+  endMinute?: number; // May be earlier than startMinute for windows past midnight
+  couponCode?: string; // Only applies when the customer enters this code
+  active: boolean;
+  createdAt: number;
+}
+
+// A scheduled price for one SKU. It takes effect on effectiveFrom and, when
+// given a daily band, only applies between those minutes.
+export interface PriceListEntry {
+  id: string;
+  skuId: string;
+  price: number;
+  effectiveFrom: number;
+  effectiveUntil?: number; // Open-ended when missing
+  startMinute?: number; // Daily band in minutes after midnight, e.g. a breakfast price
+  endMinute?: number; // May be earlier than startMinute for bands past midnight
+  createdAt: number;
+}
+
+// Prices that override the shelf price at the machines a list targets. A list
+// naming the machine beats one for its group, which beats a fleet-wide list.
+// Entries are never removed, only ended early, so a list is also its price history.
+export interface PriceList {
+  id: string;
+  name: string;
+  currency: string; // Only applies to machines pricing in this currency
+  machineIds: string[];
+  groups: string[]; // Machine groups; with no machines or groups the list covers the fleet
+  entries: PriceListEntry[];
+  active: boolean;
+  createdAt: number;
+}
+
+export type ExperimentAllocation = 'machines' | 'time_windows';
+
+export interface ExperimentVariant {
+  id: string; // "A", "B", ...; A is the control
+  name: string;
+  price: number;
+  machineIds: string[]; // Machine split: where this variant sells; empty in a time split
+}
+
+// The experiment variant that priced a cart line, kept on its transaction
+// line and sales so results count it against the variant the customer paid
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+}
+
+// A controlled price test of one SKU. Split by machines, each variant sells at
+// its own machines; split by time windows, every machine in the test sells
+// each variant in turn. Results are read back from the sales.
+export interface PriceExperiment {
+  id: string;
+  name: string;
+  skuId: string;
+  currency: string;
+  allocation: ExperimentAllocation;
+  machineIds: string[]; // Every machine in the test
+  windowHours?: number; // Time split: how long each window runs
+  variants: ExperimentVariant[];
+  status: 'running' | 'stopped' | 'promoted';
+  startedAt: number;
+  endedAt?: number;
+  winnerVariantId?: string; // Variant whose price was made the shelf price
+  createdAt: number;
+}
+
+// A loyalty member. Logs in at the kiosk by phone number or member QR code.
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string; // Digits only
+  walletBalance: number; // Balance of the wallet entries
+  points: number; // Balance of the loyalty entries
+  createdAt: number;
+}
+
+export type WalletEntryType = 'top_up' | 'purchase' | 'refund' | 'reward' | 'adjustment';
+
+// One movement of stored value; amounts are signed
+export interface WalletEntry {
+  id: string;
+  customerId: string;
+  type: WalletEntryType;
+  amount: number;
+  balance: number; // Wallet balance after this entry
+  reference?: string; // Transaction, payment or reward id
+  note?: string;
+  timestamp: number;
+}
+
+export type LoyaltyEntryType = 'earned' | 'redeemed' | 'reversed';
+
+export interface LoyaltyEntry {
+  id: string;
+  customerId: string;
+  type: LoyaltyEntryType;
+  points: number; // Signed
+  balance: number;
+  reference?: string; // Transaction or reward id
+  timestamp: number;
+}
+
+// Redeeming a reward turns points into wallet credit
+export interface Reward {
+  id: string;
+  pointsCost: number;
+  walletCredit: number;
 }
 
 export interface CartItem extends Product {
   cartQuantity: number;
+  experiment?: ExperimentAssignment; // Set while a price experiment prices the line
+}
+
+// Stock held for a checkout in progress, so two customers can't pay for the
+// same last unit. Reservations live in memory and lapse at expiresAt.
+export interface StockReservation {
+  id: string;
+  machineId: string;
+  items: Record<string, number>; // productId -> units held
+  createdAt: number;
+  expiresAt: number;
 }
 
 export interface ChatMessage {
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.VENDNEXUS_API_URL': JSON.stringify(env.VENDNEXUS_API_URL || ''),
+        'process.env.VENDNEXUS_PAYMENT_SIMULATION': JSON.stringify(env.VENDNEXUS_PAYMENT_SIMULATION || ''),
+        'process.env.VENDNEXUS_UPI_STATUS_URL': JSON.stringify(env.VENDNEXUS_UPI_STATUS_URL || '')
       },
       resolve: {
         alias: {